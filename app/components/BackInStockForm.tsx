@@ -0,0 +1,84 @@
+import {Suspense} from 'react';
+import {Await, useFetcher, useRouteLoaderData} from '@remix-run/react';
+
+import {Heading, Text} from '~/components/Text';
+import {Button} from '~/components/Button';
+import {getInputStyleClasses, usePrefixPathWithLocale} from '~/lib/utils';
+import type {RootLoader} from '~/root';
+import type {BackInStockActionData} from '~/routes/($locale).api.back-in-stock';
+
+/**
+ * "Notify me" sign-up shown instead of the add to cart button when the
+ * selected variant is sold out. Logged-in customers don't need to enter an
+ * email, the one on their account is used.
+ */
+export function BackInStockForm({variantId}: {variantId: string}) {
+  const rootData = useRouteLoaderData<RootLoader>('root');
+  const fetcher = useFetcher<BackInStockActionData>();
+  const action = usePrefixPathWithLocale('/api/back-in-stock');
+  const {fieldErrors, formError, success, message} = fetcher.data ?? {};
+
+  if (success) {
+    return (
+      <Text as="p" color="subtle" role="status">
+        {message}
+      </Text>
+    );
+  }
+
+  const emailField = (
+    <>
+      <label htmlFor="back-in-stock-email" className="sr-only">
+        Email
+      </label>
+      <input
+        id="back-in-stock-email"
+        className={getInputStyleClasses(fieldErrors?.email)}
+        type="email"
+        name="email"
+        placeholder="Email address"
+        autoComplete="email"
+        required
+      />
+      {fieldErrors?.email && (
+        <Text size="fine" className="text-red-500">
+          {fieldErrors.email}
+        </Text>
+      )}
+    </>
+  );
+
+  return (
+    <fetcher.Form method="post" action={action} className="grid gap-3">
+      <Heading as="h3" size="lead">
+        Get notified when it&rsquo;s back
+      </Heading>
+      <input type="hidden" name="variantId" value={variantId} />
+      {formError && (
+        <Text as="p" className="text-red-500" size="fine">
+          {formError}
+        </Text>
+      )}
+      <Suspense fallback={emailField}>
+        <Await resolve={rootData?.isLoggedIn} errorElement={emailField}>
+          {(isLoggedIn) =>
+            isLoggedIn ? (
+              <Text size="fine" color="subtle">
+                We&rsquo;ll email the address on your account.
+              </Text>
+            ) : (
+              emailField
+            )
+          }
+        </Await>
+      </Suspense>
+      <Button
+        type="submit"
+        variant="secondary"
+        disabled={fetcher.state !== 'idle'}
+      >
+        {fetcher.state !== 'idle' ? 'Signing up...' : 'Notify me'}
+      </Button>
+    </fetcher.Form>
+  );
+}
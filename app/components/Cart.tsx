@@ -1,5 +1,5 @@
 import clsx from 'clsx';
-import {useRef} from 'react';
+import {type ReactNode, useRef} from 'react';
 import useScroll from 'react-use/esm/useScroll';
 import {
   flattenConnection,
@@ -11,18 +11,41 @@ import {
   type CartReturn,
 } from '@shopify/hydrogen';
 import type {
+  Attribute,
   Cart as CartType,
   CartCost,
   CartLine,
   CartLineUpdateInput,
 } from '@shopify/hydrogen/storefront-api-types';
+import type {FetcherWithComponents} from '@remix-run/react';
 
 import {Button} from '~/components/Button';
 import {Text, Heading} from '~/components/Text';
 import {Link} from '~/components/Link';
 import {IconRemove} from '~/components/Icon';
 import {FeaturedProducts} from '~/components/FeaturedProducts';
+import {CartIncentives} from '~/components/CartIncentives';
+import {CartRecommendations} from '~/components/CartRecommendations';
+import {SavedForLater} from '~/components/SavedForLater';
+import {
+  useCartRecommendations,
+  type CartRecommendationsData,
+} from '~/hooks/useCartRecommendations';
 import {getInputStyleClasses} from '~/lib/utils';
+import {
+  ATTRIBUTE_FIELD_PREFIX,
+  CART_ATTRIBUTES,
+  CART_NOTE_MAX_LENGTH,
+  type CartAttributeDefinition,
+  getTotalAfterGiftCards,
+  GIFT_CARD_REMOVE_ACTION,
+  LINE_ATTRIBUTES,
+  LINE_ATTRIBUTES_UPDATE_ACTION,
+  maskGiftCardCode,
+  MOVE_TO_WISHLIST_ACTION,
+  SAVE_FOR_LATER_ACTION,
+} from '~/lib/cart';
+import type {CartActionData} from '~/routes/($locale).cart';
 
 type Layouts = 'page' | 'drawer';
 
@@ -54,6 +77,8 @@ export function CartDetails({
 }) {
   // @todo: get optimistic cart cost
   const cartHasItems = !!cart && cart.totalQuantity > 0;
+  const productIds = cart ? getCartProductIds(cart) : [];
+  const recommendations = useCartRecommendations(productIds);
   const container = {
     drawer: 'grid grid-cols-1 h-screen-no-nav grid-rows-[1fr_auto]',
     page: 'w-full pb-12 grid md:grid-cols-2 md:items-start gap-8 md:gap-8 lg:gap-12',
@@ -61,10 +86,26 @@ export function CartDetails({
 
   return (
     <div className={container[layout]}>
-      <CartLines lines={cart?.lines} layout={layout} />
+      <CartLines
+        lines={cart?.lines}
+        layout={layout}
+        productIds={productIds}
+        recommendations={recommendations}
+      />
       {cartHasItems && (
-        <CartSummary cost={cart.cost} layout={layout}>
+        <CartSummary
+          cost={cart.cost}
+          appliedGiftCards={cart.appliedGiftCards}
+          layout={layout}
+        >
+          <CartIncentives
+            subtotal={cart.cost.subtotalAmount}
+            recommendations={recommendations}
+          />
           <CartDiscounts discountCodes={cart.discountCodes} />
+          <CartGiftCards appliedGiftCards={cart.appliedGiftCards} />
+          <CartNote note={cart.note} />
+          <CartGiftMessage attributes={cart.attributes} />
           <CartCheckoutActions checkoutUrl={cart.checkoutUrl} />
         </CartSummary>
       )}
@@ -72,6 +113,14 @@ export function CartDetails({
   );
 }
 
+function getCartProductIds(cart: CartType) {
+  return [
+    ...new Set(
+      flattenConnection(cart.lines).map((line) => line.merchandise.product.id),
+    ),
+  ];
+}
+
 /**
  * Temporary discount UI
  * @param discountCodes the current discount codes applied to the cart
@@ -150,12 +199,241 @@ function UpdateDiscountForm({
   );
 }
 
+function CartGiftCards({
+  appliedGiftCards,
+}: {
+  appliedGiftCards: CartType['appliedGiftCards'];
+}) {
+  return (
+    <>
+      {appliedGiftCards.length > 0 && (
+        <dl className="grid gap-2">
+          <Text as="dt" className="font-medium">
+            Gift card(s)
+          </Text>
+          {appliedGiftCards.map((giftCard) => (
+            <dd
+              key={giftCard.id}
+              className="flex items-center justify-between gap-4"
+            >
+              <div className="flex items-center">
+                <CartForm
+                  route="/cart"
+                  action={GIFT_CARD_REMOVE_ACTION}
+                  inputs={{appliedGiftCardId: giftCard.id}}
+                >
+                  <button type="submit">
+                    <span className="sr-only">Remove gift card</span>
+                    <IconRemove
+                      aria-hidden="true"
+                      style={{height: 18, marginRight: 4}}
+                    />
+                  </button>
+                </CartForm>
+                <Text>{maskGiftCardCode(giftCard.lastCharacters)}</Text>
+              </div>
+              <Text>
+                -<Money data={giftCard.presentmentAmountUsed} />
+              </Text>
+            </dd>
+          ))}
+        </dl>
+      )}
+
+      <CartForm route="/cart" action={CartForm.ACTIONS.GiftCardCodesUpdate}>
+        {(fetcher) => {
+          const error = getUserError(fetcher);
+
+          return (
+            <div className="grid gap-2">
+              <div className="flex items-center gap-4 justify-between text-copy">
+                <label htmlFor="gift-card-code" className="sr-only">
+                  Gift card code
+                </label>
+                <input
+                  id="gift-card-code"
+                  className={getInputStyleClasses(error)}
+                  type="text"
+                  name="giftCardCode"
+                  placeholder="Gift card code"
+                  autoComplete="off"
+                  aria-invalid={Boolean(error)}
+                  aria-describedby={error ? 'gift-card-error' : undefined}
+                />
+                <button
+                  className="flex justify-end font-medium whitespace-nowrap"
+                  disabled={fetcher.state !== 'idle'}
+                >
+                  Apply Gift Card
+                </button>
+              </div>
+              {appliedGiftCards.length > 0 && (
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" name="replaceGiftCard" value="on" />
+                  <Text size="fine" color="subtle">
+                    Replace the gift card already applied
+                  </Text>
+                </label>
+              )}
+              {error && (
+                <Text
+                  id="gift-card-error"
+                  size="fine"
+                  className="text-red-500"
+                  role="alert"
+                >
+                  {error}
+                </Text>
+              )}
+            </div>
+          );
+        }}
+      </CartForm>
+    </>
+  );
+}
+
+function CartNote({note}: {note?: CartType['note']}) {
+  return (
+    <details className="grid gap-2" open={Boolean(note)}>
+      <summary className="font-medium cursor-pointer">
+        {note ? 'Order note' : 'Add an order note'}
+      </summary>
+      <CartForm route="/cart" action={CartForm.ACTIONS.NoteUpdate}>
+        {(fetcher) => (
+          <div className="grid gap-2 mt-2">
+            <label htmlFor="cart-note" className="sr-only">
+              Order note
+            </label>
+            <textarea
+              id="cart-note"
+              name="note"
+              rows={3}
+              maxLength={CART_NOTE_MAX_LENGTH}
+              defaultValue={note ?? ''}
+              placeholder="Special instructions for your order"
+              className={getInputStyleClasses(getUserError(fetcher))}
+            />
+            <CartFormFooter fetcher={fetcher} label="Save note" />
+          </div>
+        )}
+      </CartForm>
+    </details>
+  );
+}
+
+function CartGiftMessage({attributes}: {attributes: CartType['attributes']}) {
+  const hasGiftMessage = CART_ATTRIBUTES.some(({key}) =>
+    attributes.some((attribute) => attribute.key === key),
+  );
+
+  return (
+    <details className="grid gap-2" open={hasGiftMessage}>
+      <summary className="font-medium cursor-pointer">
+        {hasGiftMessage ? 'Gift message' : 'This order is a gift'}
+      </summary>
+      <CartForm route="/cart" action={CartForm.ACTIONS.AttributesUpdateInput}>
+        {(fetcher) => (
+          <div className="grid gap-2 mt-2">
+            <AttributeFields
+              id="cart"
+              definitions={CART_ATTRIBUTES}
+              attributes={attributes}
+              error={getUserError(fetcher)}
+            />
+            <CartFormFooter fetcher={fetcher} label="Save gift message" />
+          </div>
+        )}
+      </CartForm>
+    </details>
+  );
+}
+
+/**
+ * Inputs named `attribute:<key>` for each allowed attribute, filled with the
+ * current values.
+ */
+function AttributeFields({
+  id,
+  definitions,
+  attributes,
+  error,
+}: {
+  id: string;
+  definitions: CartAttributeDefinition[];
+  attributes: Attribute[];
+  error?: string | null;
+}) {
+  return (
+    <>
+      {definitions.map(({key, maxLength, multiline}) => {
+        const fieldId = `${id}-${key.toLowerCase().replace(/\W+/g, '-')}`;
+        const props = {
+          id: fieldId,
+          name: `${ATTRIBUTE_FIELD_PREFIX}${key}`,
+          maxLength,
+          defaultValue:
+            attributes.find((attribute) => attribute.key === key)?.value ?? '',
+          placeholder: key,
+          className: getInputStyleClasses(error),
+        };
+
+        return (
+          <div key={key}>
+            <label htmlFor={fieldId} className="sr-only">
+              {key}
+            </label>
+            {multiline ? (
+              <textarea rows={2} {...props} />
+            ) : (
+              <input type="text" {...props} />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+function getUserError(fetcher: FetcherWithComponents<CartActionData>) {
+  return fetcher.data?.userErrors?.[0]?.message ?? null;
+}
+
+function CartFormFooter({
+  fetcher,
+  label,
+}: {
+  fetcher: FetcherWithComponents<CartActionData>;
+  label: string;
+}) {
+  const error = getUserError(fetcher);
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <Text size="fine" className={error ? 'text-red-500' : undefined}>
+        {error}
+      </Text>
+      <button
+        type="submit"
+        className="font-medium whitespace-nowrap"
+        disabled={fetcher.state !== 'idle'}
+      >
+        {label}
+      </button>
+    </div>
+  );
+}
+
 function CartLines({
   layout = 'drawer',
   lines: cartLines,
+  productIds,
+  recommendations,
 }: {
   layout: Layouts;
   lines: CartType['lines'] | undefined;
+  productIds: string[];
+  recommendations: CartRecommendationsData;
 }) {
   const currentLines = cartLines ? flattenConnection(cartLines) : [];
   const scrollRef = useRef(null);
@@ -179,6 +457,12 @@ function CartLines({
           <CartLineItem key={line.id} line={line as CartLine} />
         ))}
       </ul>
+      <SavedForLater />
+      <CartRecommendations
+        productIds={productIds}
+        layout={layout}
+        recommendations={recommendations}
+      />
     </section>
   );
 }
@@ -200,11 +484,13 @@ function CartCheckoutActions({checkoutUrl}: {checkoutUrl: string}) {
 
 function CartSummary({
   cost,
+  appliedGiftCards,
   layout,
   children = null,
 }: {
   children?: React.ReactNode;
   cost: CartCost;
+  appliedGiftCards: CartType['appliedGiftCards'];
   layout: Layouts;
 }) {
   const summary = {
@@ -228,6 +514,19 @@ function CartSummary({
             )}
           </Text>
         </div>
+        {appliedGiftCards.length > 0 && cost?.totalAmount && (
+          <div className="flex items-center justify-between font-medium">
+            <Text as="dt">Total after gift cards</Text>
+            <Text as="dd" data-test="total-after-gift-cards">
+              <Money
+                data={getTotalAfterGiftCards(
+                  cost.totalAmount,
+                  appliedGiftCards,
+                )}
+              />
+            </Text>
+          </div>
+        )}
       </dl>
       {children}
     </section>
@@ -288,14 +587,37 @@ function CartLineItem({line}: {line: CartLine}) {
                 {option.name}: {option.value}
               </Text>
             ))}
+            {/* Keys starting with `_` are for apps, not shoppers */}
+            {line.attributes
+              .filter((attribute) => !attribute.key.startsWith('_'))
+              .map((attribute) => (
+                <Text color="subtle" key={attribute.key}>
+                  {attribute.key}: {attribute.value}
+                </Text>
+              ))}
+            {line.sellingPlanAllocation && (
+              <CartLineSellingPlan
+                sellingPlanAllocation={line.sellingPlanAllocation}
+              />
+            )}
           </div>
 
+          <CartLineAttributes line={line} />
+
           <div className="flex items-center gap-2">
             <div className="flex justify-start text-copy">
               <CartLineQuantityAdjust line={line} />
             </div>
             <ItemRemoveButton lineId={id} />
           </div>
+          <div className="flex items-center gap-4">
+            <MoveLineButton lineId={id} action={SAVE_FOR_LATER_ACTION}>
+              Save for later
+            </MoveLineButton>
+            <MoveLineButton lineId={id} action={MOVE_TO_WISHLIST_ACTION}>
+              Move to wishlist
+            </MoveLineButton>
+          </div>
         </div>
         <Text>
           <CartLinePrice line={line} as="span" />
@@ -305,6 +627,62 @@ function CartLineItem({line}: {line: CartLine}) {
   );
 }
 
+/** The line's subscription, with the price charged for each delivery */
+function CartLineSellingPlan({
+  sellingPlanAllocation,
+}: {
+  sellingPlanAllocation: NonNullable<CartLine['sellingPlanAllocation']>;
+}) {
+  const {sellingPlan, priceAdjustments} = sellingPlanAllocation;
+  // Later adjustments apply to the recurring orders, e.g. after a trial
+  const recurringPrice =
+    priceAdjustments[priceAdjustments.length - 1]?.perDeliveryPrice;
+
+  return (
+    <Text color="subtle">
+      {sellingPlan.name}
+      {recurringPrice && (
+        <>
+          {' · '}
+          <Money as="span" withoutTrailingZeros data={recurringPrice} /> per
+          delivery
+        </>
+      )}
+    </Text>
+  );
+}
+
+function CartLineAttributes({line}: {line: CartLine}) {
+  const isPersonalised = LINE_ATTRIBUTES.some(({key}) =>
+    line.attributes.some((attribute) => attribute.key === key),
+  );
+
+  return (
+    <details className="grid gap-2 pb-2">
+      <summary className="cursor-pointer text-fine">
+        {isPersonalised ? 'Edit personalisation' : 'Personalise'}
+      </summary>
+      <CartForm
+        route="/cart"
+        action={LINE_ATTRIBUTES_UPDATE_ACTION}
+        inputs={{lineId: line.id}}
+      >
+        {(fetcher) => (
+          <div className="grid gap-2 mt-2">
+            <AttributeFields
+              id={`line-${line.id.split('/').pop()}`}
+              definitions={LINE_ATTRIBUTES}
+              attributes={line.attributes}
+              error={getUserError(fetcher)}
+            />
+            <CartFormFooter fetcher={fetcher} label="Save" />
+          </div>
+        )}
+      </CartForm>
+    </details>
+  );
+}
+
 function ItemRemoveButton({lineId}: {lineId: CartLine['id']}) {
   return (
     <CartForm
@@ -326,6 +704,35 @@ function ItemRemoveButton({lineId}: {lineId: CartLine['id']}) {
   );
 }
 
+/** Moves a line out of the cart into one of the shopper's lists */
+function MoveLineButton({
+  lineId,
+  action,
+  children,
+}: {
+  lineId: CartLine['id'];
+  action: typeof SAVE_FOR_LATER_ACTION | typeof MOVE_TO_WISHLIST_ACTION;
+  children: ReactNode;
+}) {
+  return (
+    <CartForm
+      route="/cart"
+      action={action}
+      inputs={{
+        lineId,
+      }}
+    >
+      <button
+        type="submit"
+        className="text-fine text-primary/50 hover:text-primary"
+      >
+        {children}
+      </button>
+      <OptimisticInput id={lineId} data={{action: 'remove'}} />
+    </CartForm>
+  );
+}
+
 function CartLineQuantityAdjust({line}: {line: CartLine}) {
   const optimisticId = line?.id;
   const optimisticData = useOptimisticData<OptimisticData>(optimisticId);
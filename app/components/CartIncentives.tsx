@@ -0,0 +1,187 @@
+import {Suspense} from 'react';
+import {Await, useRouteLoaderData} from '@remix-run/react';
+import {Image, Money} from '@shopify/hydrogen';
+import type {MoneyV2} from '@shopify/hydrogen/storefront-api-types';
+
+import {Text} from '~/components/Text';
+import {Link} from '~/components/Link';
+import {AddToCartButton} from '~/components/AddToCartButton';
+import {
+  type CartIncentive,
+  type CartIncentiveProgress,
+  getCartIncentiveProgress,
+} from '~/lib/incentives';
+import type {CartRecommendationsData} from '~/hooks/useCartRecommendations';
+import type {RootLoader} from '~/root';
+
+const MAX_SUGGESTIONS = 2;
+
+/**
+ * Progress towards the `cart_incentive` tiers of the cart's currency, e.g.
+ * free shipping, with a few recommended products that would reach the next
+ * tier.
+ */
+export function CartIncentives({
+  subtotal,
+  recommendations,
+}: {
+  subtotal: MoneyV2;
+  recommendations: CartRecommendationsData;
+}) {
+  const rootData = useRouteLoaderData<RootLoader>('root');
+  if (!rootData?.cartIncentives) return null;
+
+  return (
+    <Suspense>
+      <Await resolve={rootData.cartIncentives}>
+        {(incentives) => (
+          <CartIncentivesProgress
+            incentives={incentives as CartIncentive[]}
+            subtotal={subtotal}
+            recommendations={recommendations}
+          />
+        )}
+      </Await>
+    </Suspense>
+  );
+}
+
+function CartIncentivesProgress({
+  incentives,
+  subtotal,
+  recommendations,
+}: {
+  incentives: CartIncentive[];
+  subtotal: MoneyV2;
+  recommendations: CartRecommendationsData;
+}) {
+  const progress = getCartIncentiveProgress(incentives, subtotal);
+  if (!progress) return null;
+
+  const {tiers, percent, next} = progress;
+
+  return (
+    <section aria-label="Cart rewards" className="grid gap-3">
+      <Text size="fine" as="p">
+        {next ? (
+          <>
+            Spend <Money as="span" data={next.remaining} /> more to get{' '}
+            <strong>{next.incentive.label.toLowerCase()}</strong>
+          </>
+        ) : (
+          <>
+            You&rsquo;ve unlocked{' '}
+            <strong>{tiers[tiers.length - 1].label.toLowerCase()}</strong>
+          </>
+        )}
+      </Text>
+      <div
+        className="relative h-2 rounded-full bg-primary/10"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(percent)}
+      >
+        <div
+          className="h-full rounded-full bg-primary transition-all"
+          style={{width: `${percent}%`}}
+        />
+        {tiers.slice(0, -1).map((tier) => (
+          <span
+            key={tier.id}
+            title={tier.label}
+            className={`absolute top-1/2 w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-contrast ${
+              tier.reached ? 'bg-primary' : 'bg-primary/30'
+            }`}
+            style={{left: `${getTierPercent(tier, progress)}%`}}
+          />
+        ))}
+      </div>
+      {tiers.length > 1 && (
+        <ul className="flex flex-wrap gap-x-4 gap-y-1">
+          {tiers.map((tier) => (
+            <li key={tier.id}>
+              <Text size="fine" color={tier.reached ? 'default' : 'subtle'}>
+                {tier.reached ? '✓ ' : ''}
+                {tier.label} &middot; <Money as="span" data={tier.threshold} />
+              </Text>
+            </li>
+          ))}
+        </ul>
+      )}
+      {next && (
+        <GapClosingProducts
+          remaining={next.remaining}
+          recommendations={recommendations}
+        />
+      )}
+    </section>
+  );
+}
+
+function getTierPercent(
+  tier: CartIncentive,
+  {tiers}: Pick<CartIncentiveProgress, 'tiers'>,
+) {
+  const highest = Number(tiers[tiers.length - 1].threshold.amount);
+  return (Number(tier.threshold.amount) / highest) * 100;
+}
+
+/**
+ * The cheapest recommendations for the cart that cover what is left to spend.
+ */
+function GapClosingProducts({
+  remaining,
+  recommendations,
+}: {
+  remaining: MoneyV2;
+  recommendations: CartRecommendationsData;
+}) {
+  const suggestions = (recommendations.products ?? [])
+    .map((product) => ({product, variant: product.variants.nodes[0]}))
+    .filter(
+      ({variant}) =>
+        variant?.availableForSale &&
+        Number(variant.price.amount) >= Number(remaining.amount),
+    )
+    .sort(
+      (a, b) => Number(a.variant.price.amount) - Number(b.variant.price.amount),
+    )
+    .slice(0, MAX_SUGGESTIONS);
+
+  if (!suggestions.length) return null;
+
+  return (
+    <ul className="grid gap-3">
+      {suggestions.map(({product, variant}) => (
+        <li key={product.id} className="flex items-center gap-3">
+          {variant.image && (
+            <Image
+              data={variant.image}
+              width={48}
+              height={48}
+              className="object-cover w-12 h-12 rounded"
+              alt={variant.image.altText || product.title}
+            />
+          )}
+          <div className="grid flex-grow">
+            <Link to={`/products/${product.handle}`}>
+              <Text size="fine">{product.title}</Text>
+            </Link>
+            <Text size="fine" color="subtle">
+              <Money as="span" withoutTrailingZeros data={variant.price} />
+            </Text>
+          </div>
+          <AddToCartButton
+            lines={[{merchandiseId: variant.id, quantity: 1}]}
+            variant="secondary"
+            width="auto"
+            className="px-3 py-1 text-fine"
+          >
+            Add
+          </AddToCartButton>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,6 +1,13 @@
-export function CartLoading() {
+import clsx from 'clsx';
+
+export function CartLoading({className}: {className?: string}) {
   return (
-    <div className="flex w-full h-screen-no-nav justify-center items-center">
+    <div
+      className={clsx(
+        'flex w-full justify-center items-center',
+        className ?? 'h-screen-no-nav',
+      )}
+    >
       {/* @todo better spinner? */}
       <svg
         xmlns="http://www.w3.org/2000/svg"
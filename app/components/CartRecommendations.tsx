@@ -0,0 +1,98 @@
+import clsx from 'clsx';
+import {Image, Money} from '@shopify/hydrogen';
+
+import {Heading, Text} from '~/components/Text';
+import {Link} from '~/components/Link';
+import {AddToCartButton} from '~/components/AddToCartButton';
+import {CartLoading} from '~/components/CartLoading';
+import type {CartRecommendationsData} from '~/hooks/useCartRecommendations';
+
+const RECOMMENDATIONS_COUNT = 6;
+
+/**
+ * Cross-sells then upsells for the products in the cart. The API route skips
+ * products already in the cart and localizes prices for the current market.
+ */
+export function CartRecommendations({
+  productIds,
+  layout,
+  recommendations,
+}: {
+  productIds: string[];
+  layout: 'page' | 'drawer';
+  recommendations: CartRecommendationsData;
+}) {
+  // Keep the previous strip while it refreshes after a cart change
+  if (!recommendations.products) {
+    return recommendations.state === 'loading' ? (
+      <CartLoading className="h-40 bg-primary/5 rounded mt-8" />
+    ) : null;
+  }
+
+  const products = recommendations.products
+    .filter(
+      (product) =>
+        !productIds.includes(product.id) &&
+        product.variants.nodes[0]?.availableForSale,
+    )
+    .slice(0, RECOMMENDATIONS_COUNT);
+
+  if (!products.length) return null;
+
+  return (
+    <section aria-labelledby="cart-recommendations" className="grid gap-4 mt-8">
+      <Heading id="cart-recommendations" size="copy" as="h2">
+        You may also like
+      </Heading>
+      <ul
+        className={clsx(
+          'grid gap-4 overflow-x-auto snap-x hiddenScroll',
+          layout === 'page'
+            ? 'grid-flow-col auto-cols-[10rem]'
+            : 'grid-flow-col auto-cols-[8rem]',
+        )}
+      >
+        {products.map((product) => {
+          const variant = product.variants.nodes[0];
+
+          return (
+            <li
+              key={product.id}
+              className="grid gap-2 snap-start content-start"
+            >
+              <Link to={`/products/${product.handle}`} className="grid gap-2">
+                <div className="aspect-[4/5] bg-primary/5">
+                  {variant.image && (
+                    <Image
+                      data={variant.image}
+                      aspectRatio="4/5"
+                      sizes="10rem"
+                      className="object-cover w-full h-full"
+                      alt={variant.image.altText || product.title}
+                    />
+                  )}
+                </div>
+                <Text
+                  size="fine"
+                  className="overflow-hidden whitespace-nowrap text-ellipsis"
+                >
+                  {product.title}
+                </Text>
+              </Link>
+              <Text size="fine" color="subtle">
+                <Money as="span" withoutTrailingZeros data={variant.price} />
+              </Text>
+              <AddToCartButton
+                lines={[{merchandiseId: variant.id, quantity: 1}]}
+                variant="secondary"
+                className="py-1 px-2 text-fine"
+              >
+                Add to Cart
+              </AddToCartButton>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,43 @@
+import clsx from 'clsx';
+import {useEffect, useState} from 'react';
+import {useRouteLoaderData} from '@remix-run/react';
+
+import {Text} from '~/components/Text';
+import {IconClose} from '~/components/Icon';
+import type {RootLoader} from '~/root';
+
+/**
+ * Shows the message flashed to the session by the previous request, e.g. the
+ * outcome of a cart link or discount link.
+ */
+export function FlashMessage() {
+  const rootData = useRouteLoaderData<RootLoader>('root');
+  const flashMessage = rootData?.flashMessage;
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  useEffect(() => {
+    setIsDismissed(false);
+  }, [flashMessage]);
+
+  if (!flashMessage || isDismissed) return null;
+
+  return (
+    <div
+      role={flashMessage.status === 'error' ? 'alert' : 'status'}
+      className={clsx(
+        'fixed z-50 flex items-start gap-4 p-4 rounded shadow-lg bottom-4 inset-x-4 md:left-auto md:max-w-md',
+        flashMessage.status === 'error'
+          ? 'bg-notice text-contrast'
+          : 'bg-primary text-contrast',
+      )}
+    >
+      <Text as="p" className="flex-grow">
+        {flashMessage.message}
+      </Text>
+      <button type="button" onClick={() => setIsDismissed(true)}>
+        <span className="sr-only">Dismiss</span>
+        <IconClose aria-hidden="true" />
+      </button>
+    </div>
+  );
+}
@@ -1,79 +1,197 @@
-import { Image } from '@shopify/hydrogen';
-import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import {Image} from '@shopify/hydrogen';
+import {useCallback, useEffect, useRef, useState, useMemo} from 'react';
 import type {
   Metaobject,
+  MetafieldReference,
   Image as ImageType,
 } from '@shopify/hydrogen/storefront-api-types';
 
+import {defineMetaobjectSchema, safeParseMetaobject} from '~/lib/metaobject';
+
 interface HeroParallaxProps {
   metaobject: Metaobject;
 }
 
-export function HeroParallax({ metaobject }: HeroParallaxProps) {
+type SlideMedia =
+  | {type: 'image'; image: ImageType}
+  | {
+      type: 'video';
+      sources: {url: string; mimeType: string}[];
+      poster: string | null;
+      alt: string;
+    };
+
+interface HeroSlide {
+  id: string;
+  media: SlideMedia | null;
+  heading: string;
+  subheading: string;
+  ctaText: string;
+  ctaUrl: string;
+}
+
+const HERO_PARALLAX_SCHEMA = defineMetaobjectSchema({
+  heading: {type: 'string', default: ''},
+  subheading: {type: 'string', default: ''},
+  ctaText: {type: 'string', key: 'cta_text', default: ''},
+  ctaUrl: {type: 'url', key: 'cta_url_new', default: ''},
+  backgroundImage: {type: 'reference', key: 'background_image'},
+  slides: {type: 'references'},
+  autoplayInterval: {type: 'number', key: 'autoplay_interval', default: 6},
+});
+
+const HERO_SLIDE_SCHEMA = defineMetaobjectSchema({
+  media: {type: 'reference', required: true},
+  heading: {type: 'string', default: ''},
+  subheading: {type: 'string', default: ''},
+  ctaText: {type: 'string', key: 'cta_text', default: ''},
+  ctaUrl: {type: 'url', key: 'cta_url', default: ''},
+});
+
+// ===== SLIDE MEDIA (Image or Video) =====
+function getSlideMedia(
+  reference: MetafieldReference | null | undefined,
+): SlideMedia | null {
+  if (!reference) return null;
+
+  if (reference.__typename === 'Video') {
+    return {
+      type: 'video',
+      sources: reference.sources.filter(({mimeType}) =>
+        mimeType.startsWith('video/'),
+      ),
+      poster: reference.previewImage?.url ?? null,
+      alt: reference.alt ?? '',
+    };
+  }
+
+  if ('image' in reference && reference.image) {
+    return {
+      type: 'image',
+      image: {
+        url: reference.image.url,
+        altText: reference.image.altText || '',
+        width: reference.image.width,
+        height: reference.image.height,
+      } as ImageType,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reads a hero's fields and slides. Problems are returned in `errors` rather
+ * than logged, the homepage loader reports them once on the server.
+ */
+export function parseHeroParallax(metaobject: Metaobject) {
+  const {data: fields, error} = safeParseMetaobject(
+    metaobject,
+    HERO_PARALLAX_SCHEMA,
+  );
+  if (error) return {fields: null, slides: [], errors: [error.message]};
+
+  // Heroes set up before slides existed carry a single slide's fields
+  if (!fields.slides) {
+    if (!fields.heading) {
+      return {
+        fields,
+        slides: [],
+        errors: ['"heading" or "slides" is required'],
+      };
+    }
+
+    const slide: HeroSlide = {
+      id: metaobject.id,
+      media: getSlideMedia(fields.backgroundImage),
+      heading: fields.heading,
+      subheading: fields.subheading,
+      ctaText: fields.ctaText,
+      ctaUrl: fields.ctaUrl,
+    };
+    return {fields, slides: [slide], errors: []};
+  }
+
+  const errors: string[] = [];
+  const slides = fields.slides.flatMap((node): HeroSlide[] => {
+    if (!('fields' in node)) return [];
+
+    const {data: slide, error} = safeParseMetaobject(node, HERO_SLIDE_SCHEMA);
+    if (error) {
+      errors.push(error.message);
+      return [];
+    }
+
+    return [
+      {
+        id: node.id,
+        media: getSlideMedia(slide.media),
+        heading: slide.heading,
+        subheading: slide.subheading,
+        ctaText: slide.ctaText,
+        ctaUrl: slide.ctaUrl,
+      },
+    ];
+  });
+
+  return {fields, slides, errors};
+}
+
+// ===== FORMAT TEXT WITH LINE BREAKS =====
+const formatHeading = (heading: string) =>
+  heading.replace('WELCOME TO THE', 'WELCOME TO THE<br>');
+
+const formatSubheading = (subheading: string) =>
+  subheading.replace(
+    'Premium footwear for the modern athlete.',
+    'Premium footwear for the modern athlete.<br>',
+  );
+
+export function HeroParallax({metaobject}: HeroParallaxProps) {
   const [isMounted, setIsMounted] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [hasNavigated, setHasNavigated] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
 
   const sectionRef = useRef<HTMLDivElement>(null);
   const bgRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const rafRef = useRef<number | null>(null);
+  const videoRefs = useRef<(HTMLVideoElement | null)[]>([]);
 
-  // ===== FIELD EXTRACTORS (Memoized) =====
-  const getFieldValue = useCallback(
-    (key: string): string => {
-      return metaobject.fields?.find((f) => f?.key === key)?.value || '';
-    },
-    [metaobject.fields],
-  );
-
-  const getFieldReference = useCallback(
-    (key: string): any => {
-      return metaobject.fields?.find((f) => f?.key === key)?.reference;
-    },
-    [metaobject.fields],
-  );
-
-  // ===== EXTRACT FIELDS (Memoized) =====
-  const heading = useMemo(() => getFieldValue('heading'), [getFieldValue]);
-  const subheading = useMemo(() => getFieldValue('subheading'), [getFieldValue]);
-  const ctaText = useMemo(() => getFieldValue('cta_text'), [getFieldValue]);
-  const ctaUrl = useMemo(() => getFieldValue('cta_url_new'), [getFieldValue]);
-
-  // ===== EXTRACT AND TYPE BACKGROUND IMAGE (Fixed) =====
-  const backgroundImageReference = useMemo(
-    () => getFieldReference('background_image'),
-    [getFieldReference],
+  // ===== PARSE FIELDS & SLIDES (Memoized) =====
+  const {fields, slides} = useMemo(
+    () => parseHeroParallax(metaobject),
+    [metaobject],
   );
 
-  const backgroundImage: ImageType | null = useMemo(() => {
-    if (
-      backgroundImageReference &&
-      'image' in backgroundImageReference &&
-      backgroundImageReference.image
-    ) {
-      return {
-        url: backgroundImageReference.image.url,
-        altText: backgroundImageReference.image.altText || '',
-        width: backgroundImageReference.image.width,
-        height: backgroundImageReference.image.height,
-      } as ImageType;
-    }
-    return null;
-  }, [backgroundImageReference]);
+  const slideCount = slides.length;
+  const activeSlide = slides[activeIndex] ?? slides[0];
+  const autoplayInterval = (fields?.autoplayInterval ?? 6) * 1000;
 
-  // ===== FORMAT TEXT WITH LINE BREAKS (Memoized) =====
-  const formattedHeading = useMemo(
-    () => heading.replace('WELCOME TO THE', 'WELCOME TO THE<br>'),
-    [heading],
+  // ===== SLIDE NAVIGATION =====
+  const goToSlide = useCallback(
+    (index: number) => {
+      if (slideCount < 2) return;
+      setActiveIndex((index + slideCount) % slideCount);
+      setHasNavigated(true);
+    },
+    [slideCount],
   );
 
-  const formattedSubheading = useMemo(
-    () =>
-      subheading.replace(
-        'Premium footwear for the modern athlete.',
-        'Premium footwear for the modern athlete.<br>',
-      ),
-    [subheading],
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (event.key === 'ArrowRight') {
+        event.preventDefault();
+        goToSlide(activeIndex + 1);
+      } else if (event.key === 'ArrowLeft') {
+        event.preventDefault();
+        goToSlide(activeIndex - 1);
+      }
+    },
+    [activeIndex, goToSlide],
   );
 
   // ===== CLIENT-SIDE MOUNT =====
@@ -104,6 +222,49 @@ export function HeroParallax({ metaobject }: HeroParallaxProps) {
     };
   }, []);
 
+  // ===== REDUCED MOTION DETECTION =====
+  useEffect(() => {
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const handleChange = () => setPrefersReducedMotion(query.matches);
+
+    handleChange();
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  // ===== AUTOPLAY (Paused on Hover/Focus) =====
+  useEffect(() => {
+    if (slideCount < 2 || isPaused || prefersReducedMotion) return;
+
+    // Restarts whenever the slide changes, so manual navigation gets a full interval
+    const timeoutId = setTimeout(
+      () => goToSlide(activeIndex + 1),
+      autoplayInterval,
+    );
+    return () => clearTimeout(timeoutId);
+  }, [
+    activeIndex,
+    slideCount,
+    isPaused,
+    prefersReducedMotion,
+    autoplayInterval,
+    goToSlide,
+  ]);
+
+  // ===== PLAY ACTIVE VIDEO ONLY =====
+  useEffect(() => {
+    videoRefs.current.forEach((video, index) => {
+      if (!video) return;
+
+      if (index === activeIndex && !prefersReducedMotion) {
+        // Browsers may still block autoplay, the poster stays visible then
+        video.play().catch(() => {});
+      } else {
+        video.pause();
+      }
+    });
+  }, [activeIndex, prefersReducedMotion, slides]);
+
   // ===== PARALLAX SCROLL EFFECT (Optimized) =====
   useEffect(() => {
     if (isMobile) return;
@@ -119,18 +280,22 @@ export function HeroParallax({ metaobject }: HeroParallaxProps) {
         const scrolled = window.pageYOffset;
 
         if (bgRef.current) {
-          bgRef.current.style.transform = `translate3d(0, ${scrolled * 0.5}px, 0)`;
+          bgRef.current.style.transform = `translate3d(0, ${
+            scrolled * 0.5
+          }px, 0)`;
         }
 
         if (contentRef.current) {
-          contentRef.current.style.transform = `translate3d(0, ${scrolled * 0.2}px, 0)`;
+          contentRef.current.style.transform = `translate3d(0, ${
+            scrolled * 0.2
+          }px, 0)`;
         }
 
         ticking = false;
       });
     };
 
-    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('scroll', handleScroll, {passive: true});
     handleScroll(); // Initial call
 
     return () => {
@@ -141,58 +306,165 @@ export function HeroParallax({ metaobject }: HeroParallaxProps) {
     };
   }, [isMobile]);
 
+  if (!activeSlide) return null;
+
+  // Delayed intro animations on first load, a quick fade on slide changes
+  const textClass = (element: 'heading' | 'subheading' | 'cta') =>
+    hasNavigated
+      ? 'hero-slide-text-change-custom'
+      : isMounted
+      ? `hero-${element}-animate-custom`
+      : `hero-${element}-initial-custom`;
+
+  const isCarousel = slideCount > 1;
+
   return (
     <>
-      <section ref={sectionRef} className="hero-parallax-section-custom">
-        {/* Background Layer with Image */}
-        {backgroundImage && (
+      <section
+        ref={sectionRef}
+        className="hero-parallax-section-custom"
+        {...(isCarousel && {
+          role: 'region',
+          'aria-roledescription': 'carousel',
+          'aria-label': 'Featured',
+          tabIndex: 0,
+          onKeyDown: handleKeyDown,
+          onMouseEnter: () => setIsPaused(true),
+          onMouseLeave: () => setIsPaused(false),
+          onFocus: () => setIsPaused(true),
+          onBlur: () => setIsPaused(false),
+        })}
+      >
+        {/* Background Layer with Slide Media (parallax applies to all slides) */}
+        {slides.some((slide) => slide.media) && (
           <div
             ref={bgRef}
-            className={`parallax-bg-layer-custom ${isMounted ? 'bg-animate-custom' : 'bg-initial-custom'}`}
+            className={`parallax-bg-layer-custom ${
+              isMounted ? 'bg-animate-custom' : 'bg-initial-custom'
+            }`}
           >
-            <Image
-              data={backgroundImage}
-              sizes="100vw"
-              loading="eager"
-              className="hero-bg-image-custom"
-            />
+            {slides.map((slide, index) => (
+              <div
+                key={slide.id}
+                className={`hero-slide-bg-custom ${
+                  index === activeIndex ? 'hero-slide-bg-active-custom' : ''
+                }`}
+                aria-hidden={index !== activeIndex}
+              >
+                {slide.media?.type === 'image' && (
+                  <Image
+                    data={slide.media.image}
+                    sizes="100vw"
+                    loading={index === 0 ? 'eager' : 'lazy'}
+                    className="hero-bg-image-custom"
+                  />
+                )}
+                {slide.media?.type === 'video' && (
+                  <video
+                    ref={(video) => {
+                      videoRefs.current[index] = video;
+                    }}
+                    className="hero-bg-image-custom"
+                    poster={slide.media.poster ?? undefined}
+                    aria-label={slide.media.alt || undefined}
+                    preload={index === 0 ? 'auto' : 'metadata'}
+                    muted
+                    loop
+                    playsInline
+                  >
+                    {slide.media.sources.map((source) => (
+                      <source
+                        key={source.url}
+                        src={source.url}
+                        type={source.mimeType}
+                      />
+                    ))}
+                  </video>
+                )}
+              </div>
+            ))}
           </div>
         )}
 
         {/* Gradient Overlay */}
         <div
-          className={`gradient-overlay-custom ${isMounted ? 'overlay-animate-custom' : 'overlay-initial-custom'}`}
+          className={`gradient-overlay-custom ${
+            isMounted ? 'overlay-animate-custom' : 'overlay-initial-custom'
+          }`}
         />
 
         {/* Content Layer */}
         <div ref={contentRef} className="parallax-content-layer-custom">
-          {/* Heading */}
-          {heading && (
-            <h1
-              className={`hero-heading-custom ${isMounted ? 'hero-heading-animate-custom' : 'hero-heading-initial-custom'}`}
-              dangerouslySetInnerHTML={{ __html: formattedHeading }}
-            />
-          )}
-
-          {/* Subheading */}
-          {subheading && (
-            <p
-              className={`hero-subheading-custom ${isMounted ? 'hero-subheading-animate-custom' : 'hero-subheading-initial-custom'}`}
-              dangerouslySetInnerHTML={{ __html: formattedSubheading }}
-            />
-          )}
-
-          {/* CTA Button */}
-          {ctaText && ctaUrl && (
-            <div
-              className={`hero-cta-custom ${isMounted ? 'hero-cta-animate-custom' : 'hero-cta-initial-custom'}`}
-            >
-              <a href={ctaUrl} className="hero-cta-button-custom">
-                <span className="button-text-custom">{ctaText}</span>
-              </a>
-            </div>
-          )}
+          <div
+            key={activeSlide.id}
+            aria-live={isCarousel && isPaused ? 'polite' : 'off'}
+          >
+            {/* Heading */}
+            {activeSlide.heading && (
+              <h1
+                className={`hero-heading-custom ${textClass('heading')}`}
+                dangerouslySetInnerHTML={{
+                  __html: formatHeading(activeSlide.heading),
+                }}
+              />
+            )}
+
+            {/* Subheading */}
+            {activeSlide.subheading && (
+              <p
+                className={`hero-subheading-custom ${textClass('subheading')}`}
+                dangerouslySetInnerHTML={{
+                  __html: formatSubheading(activeSlide.subheading),
+                }}
+              />
+            )}
+
+            {/* CTA Button */}
+            {activeSlide.ctaText && activeSlide.ctaUrl && (
+              <div className={`hero-cta-custom ${textClass('cta')}`}>
+                <a href={activeSlide.ctaUrl} className="hero-cta-button-custom">
+                  <span className="button-text-custom">
+                    {activeSlide.ctaText}
+                  </span>
+                </a>
+              </div>
+            )}
+          </div>
         </div>
+
+        {/* Slide Controls */}
+        {isCarousel && (
+          <div className="hero-slide-controls-custom">
+            <button
+              type="button"
+              className="hero-slide-arrow-custom"
+              aria-label="Previous slide"
+              onClick={() => goToSlide(activeIndex - 1)}
+            >
+              ‹
+            </button>
+            {slides.map((slide, index) => (
+              <button
+                key={slide.id}
+                type="button"
+                className={`hero-slide-dot-custom ${
+                  index === activeIndex ? 'hero-slide-dot-active-custom' : ''
+                }`}
+                aria-label={`Go to slide ${index + 1} of ${slideCount}`}
+                aria-current={index === activeIndex}
+                onClick={() => goToSlide(index)}
+              />
+            ))}
+            <button
+              type="button"
+              className="hero-slide-arrow-custom"
+              aria-label="Next slide"
+              onClick={() => goToSlide(activeIndex + 1)}
+            >
+              ›
+            </button>
+          </div>
+        )}
       </section>
 
       {/* INLINE STYLES */}
@@ -257,6 +529,11 @@ export function HeroParallax({ metaobject }: HeroParallaxProps) {
           transform: scale(0.98) !important;
         }
 
+        /* ===== SLIDE CHANGE TEXT ANIMATION ===== */
+        .hero-slide-text-change-custom {
+          animation: smoothFadeInCustom 0.8s ease-out forwards !important;
+        }
+
         /* ===== SMOOTH FADE-IN TEXT ANIMATIONS ===== */
         .hero-heading-initial-custom {
           opacity: 0 !important;
@@ -343,7 +620,8 @@ export function HeroParallax({ metaobject }: HeroParallaxProps) {
         @media (prefers-reduced-motion: reduce) {
           .hero-heading-animate-custom,
           .hero-subheading-animate-custom,
-          .hero-cta-animate-custom {
+          .hero-cta-animate-custom,
+          .hero-slide-text-change-custom {
             animation: none !important;
             opacity: 1 !important;
           }
@@ -270,3 +270,24 @@ export function IconFilters(props: IconProps) {
     </Icon>
   );
 }
+
+export function IconHeart({
+  filled,
+  stroke = 'currentColor',
+  ...props
+}: IconProps & {filled?: boolean}) {
+  return (
+    <Icon
+      {...props}
+      fill={filled ? 'currentColor' : 'transparent'}
+      stroke={stroke}
+    >
+      <title>Wishlist</title>
+      <path
+        d="M10 16.5S3.5 12.6 3.5 7.9C3.5 5.8 5.1 4.25 7.05 4.25c1.25 0 2.3.65 2.95 1.65.65-1 1.7-1.65 2.95-1.65 1.95 0 3.55 1.55 3.55 3.65 0 4.7-6.5 8.6-6.5 8.6Z"
+        strokeWidth="1.25"
+        strokeLinejoin="round"
+      />
+    </Icon>
+  );
+}
@@ -1,5 +1,7 @@
-import { useRef, useEffect, useState } from 'react';
-import { Renderer, Program, Triangle, Mesh } from 'ogl';
+import {useRef, useEffect} from 'react';
+import {Renderer, Program, Triangle, Mesh} from 'ogl';
+
+import {useEffectsController} from '~/hooks/useEffectsController';
 
 export type RaysOrigin =
   | 'top-center'
@@ -11,7 +13,7 @@ export type RaysOrigin =
   | 'bottom-right'
   | 'bottom-left';
 
-interface LightRaysProps {
+export interface LightRaysProps {
   raysOrigin?: RaysOrigin;
   raysColor?: string;
   raysSpeed?: number;
@@ -31,32 +33,60 @@ const DEFAULT_COLOR = '#ffffff';
 
 const hexToRgb = (hex: string): [number, number, number] => {
   const m = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return m ? [parseInt(m[1], 16) / 255, parseInt(m[2], 16) / 255, parseInt(m[3], 16) / 255] : [1, 1, 1];
+  return m
+    ? [
+        parseInt(m[1], 16) / 255,
+        parseInt(m[2], 16) / 255,
+        parseInt(m[3], 16) / 255,
+      ]
+    : [1, 1, 1];
 };
 
 const getAnchorAndDir = (
   origin: RaysOrigin,
   w: number,
-  h: number
-): { anchor: [number, number]; dir: [number, number] } => {
+  h: number,
+): {anchor: [number, number]; dir: [number, number]} => {
   const outside = 0.2;
   switch (origin) {
     case 'top-left':
-      return { anchor: [0, -outside * h], dir: [0, 1] };
+      return {anchor: [0, -outside * h], dir: [0, 1]};
     case 'top-right':
-      return { anchor: [w, -outside * h], dir: [0, 1] };
+      return {anchor: [w, -outside * h], dir: [0, 1]};
     case 'left':
-      return { anchor: [-outside * w, 0.5 * h], dir: [1, 0] };
+      return {anchor: [-outside * w, 0.5 * h], dir: [1, 0]};
     case 'right':
-      return { anchor: [(1 + outside) * w, 0.5 * h], dir: [-1, 0] };
+      return {anchor: [(1 + outside) * w, 0.5 * h], dir: [-1, 0]};
     case 'bottom-left':
-      return { anchor: [0, (1 + outside) * h], dir: [0, -1] };
+      return {anchor: [0, (1 + outside) * h], dir: [0, -1]};
     case 'bottom-center':
-      return { anchor: [0.5 * w, (1 + outside) * h], dir: [0, -1] };
+      return {anchor: [0.5 * w, (1 + outside) * h], dir: [0, -1]};
     case 'bottom-right':
-      return { anchor: [w, (1 + outside) * h], dir: [0, -1] };
+      return {anchor: [w, (1 + outside) * h], dir: [0, -1]};
     default: // "top-center"
-      return { anchor: [0.5 * w, -outside * h], dir: [0, 1] };
+      return {anchor: [0.5 * w, -outside * h], dir: [0, 1]};
+  }
+};
+
+/** Where the static gradient shown instead of the rays is anchored */
+const getFallbackPosition = (origin: RaysOrigin) => {
+  switch (origin) {
+    case 'top-left':
+      return '0% 0%';
+    case 'top-right':
+      return '100% 0%';
+    case 'left':
+      return '0% 50%';
+    case 'right':
+      return '100% 50%';
+    case 'bottom-left':
+      return '0% 100%';
+    case 'bottom-center':
+      return '50% 100%';
+    case 'bottom-right':
+      return '100% 100%';
+    default: // "top-center"
+      return '50% 0%';
   }
 };
 
@@ -64,21 +94,21 @@ type Vec2 = [number, number];
 type Vec3 = [number, number, number];
 
 interface Uniforms {
-  iTime: { value: number };
-  iResolution: { value: Vec2 };
-  rayPos: { value: Vec2 };
-  rayDir: { value: Vec2 };
-  raysColor: { value: Vec3 };
-  raysSpeed: { value: number };
-  lightSpread: { value: number };
-  rayLength: { value: number };
-  pulsating: { value: number };
-  fadeDistance: { value: number };
-  saturation: { value: number };
-  mousePos: { value: Vec2 };
-  mouseInfluence: { value: number };
-  noiseAmount: { value: number };
-  distortion: { value: number };
+  iTime: {value: number};
+  iResolution: {value: Vec2};
+  rayPos: {value: Vec2};
+  rayDir: {value: Vec2};
+  raysColor: {value: Vec3};
+  raysSpeed: {value: number};
+  lightSpread: {value: number};
+  rayLength: {value: number};
+  pulsating: {value: number};
+  fadeDistance: {value: number};
+  saturation: {value: number};
+  mousePos: {value: Vec2};
+  mouseInfluence: {value: number};
+  noiseAmount: {value: number};
+  distortion: {value: number};
 }
 
 const LightRays: React.FC<LightRaysProps> = ({
@@ -94,42 +124,20 @@ const LightRays: React.FC<LightRaysProps> = ({
   mouseInfluence = 0.1,
   noiseAmount = 0.0,
   distortion = 0.0,
-  className = ''
+  className = '',
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const uniformsRef = useRef<Uniforms | null>(null);
   const rendererRef = useRef<Renderer | null>(null);
-  const mouseRef = useRef({ x: 0.5, y: 0.5 });
-  const smoothMouseRef = useRef({ x: 0.5, y: 0.5 });
-  const animationIdRef = useRef<number | null>(null);
+  const mouseRef = useRef({x: 0.5, y: 0.5});
+  const smoothMouseRef = useRef({x: 0.5, y: 0.5});
   const meshRef = useRef<Mesh | null>(null);
   const cleanupFunctionRef = useRef<(() => void) | null>(null);
-  const [isVisible, setIsVisible] = useState(false);
-  const observerRef = useRef<IntersectionObserver | null>(null);
+  const {showFallback, startLoop, reportFailure, watchContextLoss} =
+    useEffectsController(containerRef);
 
   useEffect(() => {
-    if (!containerRef.current) return;
-
-    observerRef.current = new IntersectionObserver(
-      entries => {
-        const entry = entries[0];
-        setIsVisible(entry.isIntersecting);
-      },
-      { threshold: 0.1 }
-    );
-
-    observerRef.current.observe(containerRef.current);
-
-    return () => {
-      if (observerRef.current) {
-        observerRef.current.disconnect();
-        observerRef.current = null;
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    if (!isVisible || !containerRef.current) return;
+    if (showFallback || !containerRef.current) return;
 
     if (cleanupFunctionRef.current) {
       cleanupFunctionRef.current();
@@ -139,14 +147,26 @@ const LightRays: React.FC<LightRaysProps> = ({
     const initializeWebGL = async () => {
       if (!containerRef.current) return;
 
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await new Promise((resolve) => setTimeout(resolve, 10));
 
       if (!containerRef.current) return;
 
-      const renderer = new Renderer({
-        dpr: Math.min(window.devicePixelRatio, 2),
-        alpha: true
-      });
+      let renderer: Renderer;
+      try {
+        renderer = new Renderer({
+          dpr: Math.min(window.devicePixelRatio, 2),
+          alpha: true,
+        });
+      } catch (error) {
+        reportFailure(error);
+        return;
+      }
+
+      // ogl logs instead of throwing when the context can't be created
+      if (!renderer.gl) {
+        reportFailure();
+        return;
+      }
       rendererRef.current = renderer;
 
       const gl = renderer.gl;
@@ -261,23 +281,23 @@ void main() {
 }`;
 
       const uniforms: Uniforms = {
-        iTime: { value: 0 },
-        iResolution: { value: [1, 1] },
-
-        rayPos: { value: [0, 0] },
-        rayDir: { value: [0, 1] },
-
-        raysColor: { value: hexToRgb(raysColor) },
-        raysSpeed: { value: raysSpeed },
-        lightSpread: { value: lightSpread },
-        rayLength: { value: rayLength },
-        pulsating: { value: pulsating ? 1.0 : 0.0 },
-        fadeDistance: { value: fadeDistance },
-        saturation: { value: saturation },
-        mousePos: { value: [0.5, 0.5] },
-        mouseInfluence: { value: mouseInfluence },
-        noiseAmount: { value: noiseAmount },
-        distortion: { value: distortion }
+        iTime: {value: 0},
+        iResolution: {value: [1, 1]},
+
+        rayPos: {value: [0, 0]},
+        rayDir: {value: [0, 1]},
+
+        raysColor: {value: hexToRgb(raysColor)},
+        raysSpeed: {value: raysSpeed},
+        lightSpread: {value: lightSpread},
+        rayLength: {value: rayLength},
+        pulsating: {value: pulsating ? 1.0 : 0.0},
+        fadeDistance: {value: fadeDistance},
+        saturation: {value: saturation},
+        mousePos: {value: [0.5, 0.5]},
+        mouseInfluence: {value: mouseInfluence},
+        noiseAmount: {value: noiseAmount},
+        distortion: {value: distortion},
       };
       uniformsRef.current = uniforms;
 
@@ -285,9 +305,9 @@ void main() {
       const program = new Program(gl, {
         vertex: vert,
         fragment: frag,
-        uniforms
+        uniforms,
       });
-      const mesh = new Mesh(gl, { geometry, program });
+      const mesh = new Mesh(gl, {geometry, program});
       meshRef.current = mesh;
 
       const updatePlacement = () => {
@@ -295,7 +315,7 @@ void main() {
 
         renderer.dpr = Math.min(window.devicePixelRatio, 2);
 
-        const { clientWidth: wCSS, clientHeight: hCSS } = containerRef.current;
+        const {clientWidth: wCSS, clientHeight: hCSS} = containerRef.current;
         renderer.setSize(wCSS, hCSS);
 
         const dpr = renderer.dpr;
@@ -304,12 +324,12 @@ void main() {
 
         uniforms.iResolution.value = [w, h];
 
-        const { anchor, dir } = getAnchorAndDir(raysOrigin, w, h);
+        const {anchor, dir} = getAnchorAndDir(raysOrigin, w, h);
         uniforms.rayPos.value = anchor;
         uniforms.rayDir.value = dir;
       };
 
-      const loop = (t: number) => {
+      const render = (t: number) => {
         if (!rendererRef.current || !uniformsRef.current || !meshRef.current) {
           return;
         }
@@ -319,37 +339,42 @@ void main() {
         if (followMouse && mouseInfluence > 0.0) {
           const smoothing = 0.92;
 
-          smoothMouseRef.current.x = smoothMouseRef.current.x * smoothing + mouseRef.current.x * (1 - smoothing);
-          smoothMouseRef.current.y = smoothMouseRef.current.y * smoothing + mouseRef.current.y * (1 - smoothing);
-
-          uniforms.mousePos.value = [smoothMouseRef.current.x, smoothMouseRef.current.y];
+          smoothMouseRef.current.x =
+            smoothMouseRef.current.x * smoothing +
+            mouseRef.current.x * (1 - smoothing);
+          smoothMouseRef.current.y =
+            smoothMouseRef.current.y * smoothing +
+            mouseRef.current.y * (1 - smoothing);
+
+          uniforms.mousePos.value = [
+            smoothMouseRef.current.x,
+            smoothMouseRef.current.y,
+          ];
         }
 
         try {
-          renderer.render({ scene: mesh });
-          animationIdRef.current = requestAnimationFrame(loop);
+          renderer.render({scene: mesh});
         } catch (error) {
-          console.warn('WebGL rendering error:', error);
-          return;
+          reportFailure(error);
         }
       };
 
       window.addEventListener('resize', updatePlacement);
       updatePlacement();
-      animationIdRef.current = requestAnimationFrame(loop);
+      const unwatchContextLoss = watchContextLoss(gl.canvas);
+      // Renders only while on screen, see useEffectsController
+      const stopLoop = startLoop(render);
 
       cleanupFunctionRef.current = () => {
-        if (animationIdRef.current) {
-          cancelAnimationFrame(animationIdRef.current);
-          animationIdRef.current = null;
-        }
-
+        stopLoop();
+        unwatchContextLoss();
         window.removeEventListener('resize', updatePlacement);
 
         if (renderer) {
           try {
             const canvas = renderer.gl.canvas;
-            const loseContextExt = renderer.gl.getExtension('WEBGL_lose_context');
+            const loseContextExt =
+              renderer.gl.getExtension('WEBGL_lose_context');
             if (loseContextExt) {
               loseContextExt.loseContext();
             }
@@ -377,7 +402,10 @@ void main() {
       }
     };
   }, [
-    isVisible,
+    showFallback,
+    startLoop,
+    reportFailure,
+    watchContextLoss,
     raysOrigin,
     raysColor,
     raysSpeed,
@@ -389,11 +417,12 @@ void main() {
     followMouse,
     mouseInfluence,
     noiseAmount,
-    distortion
+    distortion,
   ]);
 
   useEffect(() => {
-    if (!uniformsRef.current || !containerRef.current || !rendererRef.current) return;
+    if (!uniformsRef.current || !containerRef.current || !rendererRef.current)
+      return;
 
     const u = uniformsRef.current;
     const renderer = rendererRef.current;
@@ -409,9 +438,9 @@ void main() {
     u.noiseAmount.value = noiseAmount;
     u.distortion.value = distortion;
 
-    const { clientWidth: wCSS, clientHeight: hCSS } = containerRef.current;
+    const {clientWidth: wCSS, clientHeight: hCSS} = containerRef.current;
     const dpr = renderer.dpr;
-    const { anchor, dir } = getAnchorAndDir(raysOrigin, wCSS * dpr, hCSS * dpr);
+    const {anchor, dir} = getAnchorAndDir(raysOrigin, wCSS * dpr, hCSS * dpr);
     u.rayPos.value = anchor;
     u.rayDir.value = dir;
   }, [
@@ -425,7 +454,7 @@ void main() {
     saturation,
     mouseInfluence,
     noiseAmount,
-    distortion
+    distortion,
   ]);
 
   useEffect(() => {
@@ -434,7 +463,7 @@ void main() {
       const rect = containerRef.current.getBoundingClientRect();
       const x = (e.clientX - rect.left) / rect.width;
       const y = (e.clientY - rect.top) / rect.height;
-      mouseRef.current = { x, y };
+      mouseRef.current = {x, y};
     };
 
     if (followMouse) {
@@ -447,7 +476,18 @@ void main() {
     <div
       ref={containerRef}
       className={`w-full h-full pointer-events-none z-[3] overflow-hidden relative ${className}`.trim()}
-    />
+    >
+      {showFallback && (
+        <div
+          className="absolute inset-0 opacity-30"
+          style={{
+            background: `radial-gradient(ellipse at ${getFallbackPosition(
+              raysOrigin,
+            )}, ${raysColor}, transparent 70%)`,
+          }}
+        />
+      )}
+    </div>
   );
 };
 
@@ -1,12 +1,17 @@
+import clsx from 'clsx';
+
 import {IconClose} from '~/components/Icon';
 import {Link} from '~/components/Link';
 
 export function Modal({
   children,
   cancelLink,
+  wide,
 }: {
   children: React.ReactNode;
   cancelLink: string;
+  /** Fits a two column layout, e.g. the product quick view */
+  wide?: boolean;
 }) {
   return (
     <div
@@ -20,7 +25,10 @@ export function Modal({
       <div className="fixed inset-0 z-50 overflow-y-auto">
         <div className="flex items-center justify-center min-h-full p-4 text-center sm:p-0">
           <div
-            className="relative flex-1 px-4 pt-5 pb-4 overflow-hidden text-left transition-all transform rounded shadow-xl bg-contrast sm:my-12 sm:flex-none sm:w-full sm:max-w-sm sm:p-6"
+            className={clsx(
+              'relative flex-1 px-4 pt-5 pb-4 overflow-hidden text-left transition-all transform rounded shadow-xl bg-contrast sm:my-12 sm:flex-none sm:w-full sm:p-6',
+              wide ? 'sm:max-w-4xl' : 'sm:max-w-sm',
+            )}
             role="button"
             onClick={(e) => {
               e.stopPropagation();
@@ -1,30 +1,36 @@
-import { useParams, Form, Await, useRouteLoaderData } from '@remix-run/react';
+import {
+  useParams,
+  Await,
+  useRouteLoaderData,
+  useSearchParams,
+} from '@remix-run/react';
 import useWindowScroll from 'react-use/esm/useWindowScroll';
-import { Suspense, useEffect, useMemo, useState } from 'react';
-import { motion } from 'framer-motion';
-import { CartForm } from '@shopify/hydrogen';
-
-import { type LayoutQuery } from 'storefrontapi.generated';
-import { Text, Heading } from '~/components/Text';
-import { Link } from '~/components/Link';
-import { Cart } from '~/components/Cart';
-import { CartLoading } from '~/components/CartLoading';
-import { Input } from '~/components/Input';
-import { Drawer, useDrawer } from '~/components/Drawer';
+import {Suspense, useEffect, useMemo, useState} from 'react';
+import {motion} from 'framer-motion';
+import {CartForm} from '@shopify/hydrogen';
+
+import {type LayoutQuery} from 'storefrontapi.generated';
+import {Text, Heading} from '~/components/Text';
+import {Link} from '~/components/Link';
+import {Cart} from '~/components/Cart';
+import {CartLoading} from '~/components/CartLoading';
+import {Drawer, useDrawer} from '~/components/Drawer';
+import {QuickView} from '~/components/QuickView';
+import {FlashMessage} from '~/components/FlashMessage';
+import {PredictiveSearch} from '~/components/PredictiveSearch';
 import {
   IconMenu,
   IconLogin,
   IconAccount,
   IconBag,
+  IconHeart,
   IconSearch,
 } from '~/components/Icon';
-import {
-  type EnhancedMenu,
-  useIsHomePath,
-} from '~/lib/utils';
-import { useIsHydrated } from '~/hooks/useIsHydrated';
-import { useCartFetchers } from '~/hooks/useCartFetchers';
-import type { RootLoader } from '~/root';
+import {type EnhancedMenu, useIsHomePath} from '~/lib/utils';
+import {useIsHydrated} from '~/hooks/useIsHydrated';
+import {useCartFetchers} from '~/hooks/useCartFetchers';
+import {CART_DRAWER_PARAM} from '~/lib/cart';
+import type {RootLoader} from '~/root';
 
 type LayoutProps = {
   children: React.ReactNode;
@@ -34,8 +40,8 @@ type LayoutProps = {
   };
 };
 
-export function PageLayout({ children, layout }: LayoutProps) {
-  const { headerMenu } = layout || {};
+export function PageLayout({children, layout}: LayoutProps) {
+  const {headerMenu} = layout || {};
   return (
     <div className="flex flex-col min-h-screen">
       <a href="#mainContent" className="sr-only">
@@ -47,13 +53,15 @@ export function PageLayout({ children, layout }: LayoutProps) {
       <main role="main" id="mainContent" className="flex-grow">
         {children}
       </main>
+      <QuickView />
+      <FlashMessage />
     </div>
   );
 }
 
-function Header({ title, menu }: { title: string; menu?: EnhancedMenu }) {
+function Header({title, menu}: {title: string; menu?: EnhancedMenu}) {
   const isHome = useIsHomePath();
-  const { y } = useWindowScroll();
+  const {y} = useWindowScroll();
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
 
   const {
@@ -76,6 +84,21 @@ function Header({ title, menu }: { title: string; menu?: EnhancedMenu }) {
     openCart();
   }, [addToCartFetchers, isCartOpen, openCart]);
 
+  // open the cart drawer when landing from a cart permalink, e.g. `/?cart=open`
+  const [searchParams, setSearchParams] = useSearchParams();
+  const shouldOpenCart = searchParams.get(CART_DRAWER_PARAM) === 'open';
+  useEffect(() => {
+    if (!shouldOpenCart) return;
+    openCart();
+    setSearchParams(
+      (params) => {
+        params.delete(CART_DRAWER_PARAM);
+        return params;
+      },
+      {replace: true, preventScrollReset: true},
+    );
+  }, [shouldOpenCart, openCart, setSearchParams]);
+
   // Determine if header should have glass effect
   const isScrolled = y > 20;
 
@@ -92,15 +115,15 @@ function Header({ title, menu }: { title: string; menu?: EnhancedMenu }) {
         className={`
           fixed top-0 left-0 right-0 z-50 
           transition-all duration-500 ease-in-out
-          ${isScrolled
-            ? 'bg-white/95 dark:bg-gray-900/95 backdrop-blur-xl shadow-lg'
-            : 'bg-white/80 dark:bg-gray-900/80 backdrop-blur-md'
+          ${
+            isScrolled
+              ? 'bg-white/95 dark:bg-gray-900/95 backdrop-blur-xl shadow-lg'
+              : 'bg-white/80 dark:bg-gray-900/80 backdrop-blur-md'
           }
         `}
       >
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-20">
-
             {/* Mobile Menu Button */}
             <button
               onClick={openMenu}
@@ -125,7 +148,7 @@ function Header({ title, menu }: { title: string; menu?: EnhancedMenu }) {
                     <span
                       key={i}
                       className="text-white"
-                      style={{ WebkitTextStroke: '1px white' }}
+                      style={{WebkitTextStroke: '1px white'}}
                     >
                       {word}
                     </span>
@@ -139,28 +162,38 @@ function Header({ title, menu }: { title: string; menu?: EnhancedMenu }) {
               className="hidden lg:flex items-center space-x-1"
               onMouseLeave={() => setHoveredIndex(null)}
             >
-              {(menu?.items || []).filter((item) => item.title !== 'Contact').map((item, index) => (
-                <Link
-                  key={item.id}
-                  to={item.to}
-                  target={item.target}
-                  prefetch="intent"
-                  onMouseEnter={() => setHoveredIndex(index)}
-                  className={`
+              {(menu?.items || [])
+                .filter((item) => item.title !== 'Contact')
+                .map((item, index) => (
+                  <Link
+                    key={item.id}
+                    to={item.to}
+                    target={item.target}
+                    prefetch="intent"
+                    onMouseEnter={() => setHoveredIndex(index)}
+                    className={`
                     relative px-4 py-2 rounded-lg text-lg font-medium transition-colors duration-200
-                    ${hoveredIndex === index ? 'text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-400'}
+                    ${
+                      hoveredIndex === index
+                        ? 'text-gray-900 dark:text-white'
+                        : 'text-gray-600 dark:text-gray-400'
+                    }
                   `}
-                >
-                  <span className="relative z-10">{item.title}</span>
-                  {hoveredIndex === index && (
-                    <motion.div
-                      layoutId="pill-nav"
-                      className="absolute inset-0 bg-blue-50 dark:bg-blue-900/20 rounded-lg z-0"
-                      transition={{ type: 'spring', stiffness: 300, damping: 30 }}
-                    />
-                  )}
-                </Link>
-              ))}
+                  >
+                    <span className="relative z-10">{item.title}</span>
+                    {hoveredIndex === index && (
+                      <motion.div
+                        layoutId="pill-nav"
+                        className="absolute inset-0 bg-blue-50 dark:bg-blue-900/20 rounded-lg z-0"
+                        transition={{
+                          type: 'spring',
+                          stiffness: 300,
+                          damping: 30,
+                        }}
+                      />
+                    )}
+                  </Link>
+                ))}
             </nav>
 
             {/* Right Actions */}
@@ -168,6 +201,15 @@ function Header({ title, menu }: { title: string; menu?: EnhancedMenu }) {
               {/* Search - Desktop */}
               <SearchButton />
 
+              {/* Wishlist, guests' included */}
+              <Link
+                to="/account/wishlist"
+                className="relative flex items-center justify-center w-10 h-10 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-200 group"
+                aria-label="Wishlist"
+              >
+                <IconHeart className="w-6 h-6 transition-transform duration-200 group-hover:scale-110" />
+              </Link>
+
               {/* Account Link */}
               <AccountLink />
 
@@ -204,7 +246,10 @@ function SearchButton() {
           className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm"
           onClick={() => setIsOpen(false)}
         >
-          <div className="max-w-2xl mx-auto mt-20 px-4" onClick={(e) => e.stopPropagation()}>
+          <div
+            className="max-w-2xl mx-auto mt-20 px-4"
+            onClick={(e) => e.stopPropagation()}
+          >
             <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl p-6">
               <div className="flex items-center justify-between mb-4">
                 <Heading size="lead">Search Products</Heading>
@@ -213,30 +258,25 @@ function SearchButton() {
                   className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
                   aria-label="Close search"
                 >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
                   </svg>
                 </button>
               </div>
-              <Form
-                method="get"
+              <PredictiveSearch
                 action={params.locale ? `/${params.locale}/search` : '/search'}
-                className="flex gap-2"
-              >
-                <Input
-                  type="search"
-                  placeholder="Find Your Drip"
-                  name="q"
-                  className="flex-1 px-6 py-4 rounded-full bg-white text-black placeholder:text-gray-500 text-lg border-0 focus:ring-0 shadow-lg"
-                  autoFocus
-                />
-                <button
-                  type="submit"
-                  className="px-6 py-3 bg-black text-white rounded-xl font-medium hover:opacity-90 transition-all duration-200 hover:scale-105"
-                >
-                  Search
-                </button>
-              </Form>
+                onNavigate={() => setIsOpen(false)}
+              />
             </div>
           </div>
         </div>
@@ -245,12 +285,17 @@ function SearchButton() {
   );
 }
 
-function CartDrawer({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+function CartDrawer({isOpen, onClose}: {isOpen: boolean; onClose: () => void}) {
   const rootData = useRouteLoaderData<RootLoader>('root');
   if (!rootData) return null;
 
   return (
-    <Drawer open={isOpen} onClose={onClose} heading="Shopping Cart" openFrom="right">
+    <Drawer
+      open={isOpen}
+      onClose={onClose}
+      heading="Shopping Cart"
+      openFrom="right"
+    >
       <div className="grid">
         <Suspense fallback={<CartLoading />}>
           <Await resolve={rootData?.cart}>
@@ -274,23 +319,26 @@ function MenuDrawer({
   return (
     <Drawer open={isOpen} onClose={onClose} openFrom="left" heading="Menu">
       <nav className="grid gap-2 p-6">
-        {(menu?.items || []).filter((item) => item.title !== 'Contact').map((item) => (
-          <Link
-            key={item.id}
-            to={item.to}
-            target={item.target}
-            onClick={onClose}
-            className={({ isActive }) =>
-              `px-4 py-3 rounded-xl text-base font-medium transition-all duration-200
-              ${isActive
-                ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20'
-                : 'text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+        {(menu?.items || [])
+          .filter((item) => item.title !== 'Contact')
+          .map((item) => (
+            <Link
+              key={item.id}
+              to={item.to}
+              target={item.target}
+              onClick={onClose}
+              className={({isActive}) =>
+                `px-4 py-3 rounded-xl text-base font-medium transition-all duration-200
+              ${
+                isActive
+                  ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20'
+                  : 'text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-800'
               }`
-            }
-          >
-            {item.title}
-          </Link>
-        ))}
+              }
+            >
+              {item.title}
+            </Link>
+          ))}
       </nav>
     </Drawer>
   );
@@ -301,18 +349,40 @@ function AccountLink() {
   const isLoggedIn = rootData?.isLoggedIn;
 
   return (
-    <Suspense fallback={<Link to="/account/login" className="relative flex items-center justify-center w-10 h-10 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-200 group" aria-label="Account"><IconLogin className="w-6 h-6" /></Link>}>
-      <Await resolve={isLoggedIn} errorElement={<Link to="/account/login" className="relative flex items-center justify-center w-10 h-10 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-200 group" aria-label="Account"><IconLogin className="w-6 h-6" /></Link>}>
+    <Suspense
+      fallback={
+        <Link
+          to="/account/login"
+          className="relative flex items-center justify-center w-10 h-10 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-200 group"
+          aria-label="Account"
+        >
+          <IconLogin className="w-6 h-6" />
+        </Link>
+      }
+    >
+      <Await
+        resolve={isLoggedIn}
+        errorElement={
+          <Link
+            to="/account/login"
+            className="relative flex items-center justify-center w-10 h-10 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-200 group"
+            aria-label="Account"
+          >
+            <IconLogin className="w-6 h-6" />
+          </Link>
+        }
+      >
         {(isLoggedIn) => (
           <Link
-            to={isLoggedIn ? "/account" : "/account/login"}
+            to={isLoggedIn ? '/account' : '/account/login'}
             className="relative flex items-center justify-center w-10 h-10 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-200 group"
-            aria-label={isLoggedIn ? "Account" : "Login"}
+            aria-label={isLoggedIn ? 'Account' : 'Login'}
           >
-            {isLoggedIn
-              ? <IconAccount className="w-6 h-6 transition-transform duration-200 group-hover:scale-110" />
-              : <IconLogin className="w-6 h-6 transition-transform duration-200 group-hover:scale-110" />
-            }
+            {isLoggedIn ? (
+              <IconAccount className="w-6 h-6 transition-transform duration-200 group-hover:scale-110" />
+            ) : (
+              <IconLogin className="w-6 h-6 transition-transform duration-200 group-hover:scale-110" />
+            )}
           </Link>
         )}
       </Await>
@@ -320,7 +390,7 @@ function AccountLink() {
   );
 }
 
-function CartCount({ openCart }: { openCart: () => void }) {
+function CartCount({openCart}: {openCart: () => void}) {
   const rootData = useRouteLoaderData<RootLoader>('root');
   if (!rootData) return null;
 
@@ -328,23 +398,14 @@ function CartCount({ openCart }: { openCart: () => void }) {
     <Suspense fallback={<Badge count={0} openCart={openCart} />}>
       <Await resolve={rootData?.cart}>
         {(cart) => (
-          <Badge
-            openCart={openCart}
-            count={cart?.totalQuantity || 0}
-          />
+          <Badge openCart={openCart} count={cart?.totalQuantity || 0} />
         )}
       </Await>
     </Suspense>
   );
 }
 
-function Badge({
-  openCart,
-  count,
-}: {
-  count: number;
-  openCart: () => void;
-}) {
+function Badge({openCart, count}: {count: number; openCart: () => void}) {
   const isHydrated = useIsHydrated();
 
   const BadgeCounter = useMemo(
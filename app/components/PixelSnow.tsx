@@ -11,9 +11,11 @@ import {
   Color,
 } from 'three';
 
+import {useEffectsController} from '~/hooks/useEffectsController';
+
 import './PixelSnow.css';
 
-interface PixelSnowProps {
+export interface PixelSnowProps {
   color?: string;
   flakeSize?: number;
   minFlakeSize?: number;
@@ -205,11 +207,11 @@ export default function PixelSnow({
   style = {},
 }: PixelSnowProps) {
   const containerRef = useRef<HTMLDivElement | null>(null);
-  const animationRef = useRef<number>(0);
-  const isVisibleRef = useRef<boolean>(true);
   const rendererRef = useRef<WebGLRenderer | null>(null);
   const materialRef = useRef<ShaderMaterial | null>(null);
   const resizeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const {showFallback, startLoop, reportFailure, watchContextLoss} =
+    useEffectsController(containerRef);
 
   // Memoize shader variant value
   const variantValue = useMemo(() => {
@@ -240,37 +242,28 @@ export default function PixelSnow({
     }, 100);
   }, []);
 
-  // Visibility observer
-  useEffect(() => {
-    const container = containerRef.current;
-    if (!container) return;
-
-    const observer = new IntersectionObserver(
-      ([entry]) => {
-        isVisibleRef.current = entry.isIntersecting;
-      },
-      {threshold: 0},
-    );
-
-    observer.observe(container);
-    return () => observer.disconnect();
-  }, []);
-
   // Main Three.js setup - only runs once
   useEffect(() => {
     const container = containerRef.current;
-    if (!container) return;
+    if (!container || showFallback) return;
 
     const scene = new Scene();
     const camera = new OrthographicCamera(-1, 1, 1, -1, 0, 1);
-    const renderer = new WebGLRenderer({
-      antialias: false,
-      alpha: true,
-      premultipliedAlpha: false,
-      powerPreference: 'high-performance',
-      stencil: false,
-      depth: false,
-    });
+    let renderer: WebGLRenderer;
+    try {
+      renderer = new WebGLRenderer({
+        antialias: false,
+        alpha: true,
+        premultipliedAlpha: false,
+        powerPreference: 'high-performance',
+        stencil: false,
+        depth: false,
+      });
+    } catch (error) {
+      // WebGL unavailable, e.g. disabled or blocklisted GPU
+      reportFailure(error);
+      return;
+    }
 
     renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
     renderer.setSize(container.offsetWidth, container.offsetHeight);
@@ -283,7 +276,9 @@ export default function PixelSnow({
       fragmentShader,
       uniforms: {
         uTime: {value: 0},
-        uResolution: {value: new Vector2(container.offsetWidth, container.offsetHeight)},
+        uResolution: {
+          value: new Vector2(container.offsetWidth, container.offsetHeight),
+        },
         uFlakeSize: {value: flakeSize},
         uMinFlakeSize: {value: minFlakeSize},
         uPixelResolution: {value: pixelResolution},
@@ -305,21 +300,18 @@ export default function PixelSnow({
     scene.add(new Mesh(geometry, material));
 
     window.addEventListener('resize', handleResize);
+    const unwatchContextLoss = watchContextLoss(renderer.domElement);
 
+    // Renders only while on screen, see useEffectsController
     const startTime = performance.now();
-    const animate = () => {
-      animationRef.current = requestAnimationFrame(animate);
-
-      // Only render if visible
-      if (isVisibleRef.current) {
-        material.uniforms.uTime.value = (performance.now() - startTime) * 0.001;
-        renderer.render(scene, camera);
-      }
-    };
-    animate();
+    const stopLoop = startLoop(() => {
+      material.uniforms.uTime.value = (performance.now() - startTime) * 0.001;
+      renderer.render(scene, camera);
+    });
 
     return () => {
-      cancelAnimationFrame(animationRef.current);
+      stopLoop();
+      unwatchContextLoss();
       window.removeEventListener('resize', handleResize);
       if (resizeTimeoutRef.current) {
         clearTimeout(resizeTimeoutRef.current);
@@ -333,7 +325,7 @@ export default function PixelSnow({
       rendererRef.current = null;
       materialRef.current = null;
     };
-  }, [handleResize]); // Only recreate scene when handleResize changes
+  }, [handleResize, showFallback, startLoop, reportFailure, watchContextLoss]);
 
   // Update material uniforms when props change
   useEffect(() => {
@@ -372,6 +364,8 @@ export default function PixelSnow({
       ref={containerRef}
       className={`pixel-snow-container ${className}`}
       style={style}
-    />
+    >
+      {showFallback && <div className="pixel-snow-fallback" style={{color}} />}
+    </div>
   );
 }
@@ -0,0 +1,312 @@
+import clsx from 'clsx';
+import {useEffect, useId, useState} from 'react';
+import {Form, useFetcher} from '@remix-run/react';
+import {Image, Money} from '@shopify/hydrogen';
+
+import {Text} from '~/components/Text';
+import {Link} from '~/components/Link';
+import {
+  usePublishSearchEvent,
+  useSearchResultClick,
+} from '~/components/SearchAnalytics';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+import type {
+  PredictiveSearchItem,
+  PredictiveSearchResults,
+} from '~/routes/($locale).api.predictive-search';
+
+const MIN_TERM_LENGTH = 2;
+const DEBOUNCE_MS = 250;
+
+type Option = {
+  id: string;
+  url: string;
+  title: string;
+  item?: PredictiveSearchItem;
+};
+
+type OptionGroup = {
+  label: string;
+  options: Option[];
+};
+
+/**
+ * Search form with instant results under the input. The arrow keys move
+ * through the results, enter opens the highlighted one or submits the search.
+ */
+export function PredictiveSearch({
+  action,
+  onNavigate,
+}: {
+  /** The full search page */
+  action: string;
+  /** Called when a result or the full results page is opened */
+  onNavigate?: () => void;
+}) {
+  const id = useId();
+  const {load, data} = useFetcher<PredictiveSearchResults>();
+  const predictiveSearchApiPath = usePrefixPathWithLocale(
+    '/api/predictive-search',
+  );
+  const [term, setTerm] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const trimmedTerm = term.trim();
+
+  useEffect(() => {
+    if (trimmedTerm.length < MIN_TERM_LENGTH) return;
+
+    const timeout = setTimeout(() => {
+      load(`${predictiveSearchApiPath}?q=${encodeURIComponent(trimmedTerm)}`);
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [load, predictiveSearchApiPath, trimmedTerm]);
+
+  const results =
+    trimmedTerm.length >= MIN_TERM_LENGTH && data?.term ? data : null;
+  const groups = results ? getOptionGroups(results) : [];
+  const options = groups.flatMap((group) => group.options);
+  const isExpanded = isOpen && Boolean(results);
+
+  usePublishSearchEvent(results?.searchEvent);
+  const onResultClick = useSearchResultClick(results?.searchEvent);
+
+  const getOptionId = (index: number) => `${id}-option-${index}`;
+
+  function onKeyDown(event: React.KeyboardEvent<HTMLInputElement>) {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        if (!options.length) return;
+        event.preventDefault();
+        setIsOpen(true);
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(
+          (index) => (index + step + options.length + 1) % (options.length + 1),
+        );
+        break;
+      }
+      case 'Enter': {
+        if (!isExpanded || activeIndex < 0) return;
+        event.preventDefault();
+        // Links add the locale prefix, so open the result through its link
+        document.getElementById(getOptionId(activeIndex))?.click();
+        break;
+      }
+      case 'Escape': {
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+      }
+    }
+  }
+
+  let optionIndex = -1;
+
+  return (
+    <Form
+      method="get"
+      action={action}
+      className="relative"
+      onSubmit={() => onNavigate?.()}
+    >
+      <div className="flex gap-2">
+        <input
+          type="search"
+          name="q"
+          placeholder="Find Your Drip"
+          autoComplete="off"
+          role="combobox"
+          aria-label="Search"
+          aria-autocomplete="list"
+          aria-expanded={isExpanded}
+          aria-controls={`${id}-listbox`}
+          aria-activedescendant={
+            isExpanded && activeIndex >= 0
+              ? getOptionId(activeIndex)
+              : undefined
+          }
+          value={term}
+          onChange={(event) => {
+            setTerm(event.target.value);
+            setIsOpen(true);
+            setActiveIndex(-1);
+          }}
+          onKeyDown={onKeyDown}
+          className="flex-1 px-6 py-4 rounded-full bg-white text-black placeholder:text-gray-500 text-lg border-0 focus:ring-0 shadow-lg"
+          // The search opens in an overlay, so focus goes straight to the input
+          // eslint-disable-next-line jsx-a11y/no-autofocus
+          autoFocus
+        />
+        <button
+          type="submit"
+          className="px-6 py-3 bg-black text-white rounded-xl font-medium hover:opacity-90 transition-all duration-200 hover:scale-105"
+        >
+          Search
+        </button>
+      </div>
+      {isExpanded && results && (
+        <div className="grid gap-4 mt-4">
+          {options.length ? (
+            <ul id={`${id}-listbox`} role="listbox" className="grid gap-4">
+              {groups.map((group) => (
+                <li key={group.label} role="presentation">
+                  <Text
+                    as="p"
+                    size="fine"
+                    color="subtle"
+                    className="mb-2 uppercase"
+                  >
+                    {group.label}
+                  </Text>
+                  <ul role="presentation" className="grid gap-1">
+                    {group.options.map((option) => {
+                      optionIndex += 1;
+                      const index = optionIndex;
+
+                      return (
+                        <li key={option.id} role="presentation">
+                          <PredictiveSearchOption
+                            id={getOptionId(index)}
+                            option={option}
+                            term={results.term}
+                            isActive={index === activeIndex}
+                            onNavigate={() => {
+                              onResultClick(index + 1, option.url);
+                              onNavigate?.();
+                            }}
+                          />
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <Text as="p" color="subtle">
+              No results for &ldquo;{results.term}&rdquo;
+            </Text>
+          )}
+          <Link
+            id={getOptionId(options.length)}
+            to={`/search?q=${encodeURIComponent(results.term)}`}
+            onClick={onNavigate}
+            className={clsx(
+              'font-medium border-b border-primary/10 justify-self-start',
+              activeIndex === options.length && 'border-primary',
+            )}
+          >
+            See all results for &ldquo;{results.term}&rdquo;
+          </Link>
+        </div>
+      )}
+    </Form>
+  );
+}
+
+function PredictiveSearchOption({
+  id,
+  option,
+  term,
+  isActive,
+  onNavigate,
+}: {
+  id: string;
+  option: Option;
+  term: string;
+  isActive: boolean;
+  onNavigate?: () => void;
+}) {
+  const {item} = option;
+
+  return (
+    <Link
+      id={id}
+      to={option.url}
+      role="option"
+      aria-selected={isActive}
+      onClick={onNavigate}
+      className={clsx(
+        'flex items-center gap-3 p-2 rounded-lg',
+        isActive ? 'bg-gray-100 dark:bg-gray-800' : 'hover:bg-gray-50',
+      )}
+    >
+      {item?.image && (
+        <Image
+          data={item.image}
+          width={40}
+          height={40}
+          className="object-cover w-10 h-10 rounded"
+          alt={item.image.altText ?? ''}
+        />
+      )}
+      <span className="flex-grow">
+        <HighlightedText text={option.title} term={term} />
+      </span>
+      {item?.price && (
+        <Text size="fine" color="subtle">
+          <Money as="span" withoutTrailingZeros data={item.price} />
+        </Text>
+      )}
+    </Link>
+  );
+}
+
+/** Marks the parts of `text` matching the words of the search term */
+function HighlightedText({text, term}: {text: string; term: string}) {
+  const words = term
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  if (!words.length) return <>{text}</>;
+
+  const pattern = new RegExp(`(${words.join('|')})`, 'gi');
+  let offset = 0;
+
+  return (
+    <>
+      {text.split(pattern).map((part, index) => {
+        const start = offset;
+        offset += part.length;
+
+        // Odd parts are the captured matches
+        return index % 2 ? (
+          <mark key={start} className="font-bold bg-transparent text-inherit">
+            {part}
+          </mark>
+        ) : (
+          part
+        );
+      })}
+    </>
+  );
+}
+
+function getOptionGroups(results: PredictiveSearchResults): OptionGroup[] {
+  const toOptions = (items: PredictiveSearchItem[]) =>
+    items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      item,
+    }));
+
+  return [
+    {
+      label: 'Suggestions',
+      options: results.queries.map(({text, url}) => ({
+        id: `query-${text}`,
+        url,
+        title: text,
+      })),
+    },
+    {label: 'Products', options: toOptions(results.products)},
+    {label: 'Collections', options: toOptions(results.collections)},
+    {label: 'Pages', options: toOptions(results.pages)},
+    {label: 'Articles', options: toOptions(results.articles)},
+  ].filter((group) => group.options.length);
+}
@@ -7,7 +7,11 @@ import {Text} from '~/components/Text';
 import {Link} from '~/components/Link';
 import {Button} from '~/components/Button';
 import {AddToCartButton} from '~/components/AddToCartButton';
+import {StarRating} from '~/components/StarRating';
+import {useQuickViewLink} from '~/components/QuickView';
+import {WishlistButton} from '~/components/WishlistButton';
 import {isDiscounted, isNewArrival} from '~/lib/utils';
+import {parseRatingMetafields} from '~/lib/reviews';
 import {getProductPlaceholder} from '~/lib/placeholders';
 
 export function ProductCard({
@@ -17,6 +21,7 @@ export function ProductCard({
   loading,
   onClick,
   quickAdd,
+  quickView,
 }: {
   product: ProductCardFragment;
   label?: string;
@@ -24,8 +29,10 @@ export function ProductCard({
   loading?: HTMLImageElement['loading'];
   onClick?: () => void;
   quickAdd?: boolean;
+  quickView?: boolean;
 }) {
   let cardLabel;
+  const quickViewLink = useQuickViewLink(product.handle);
 
   const cardProduct: Product = product?.variants
     ? (product as Product)
@@ -36,6 +43,7 @@ export function ProductCard({
 
   if (!firstVariant) return null;
   const {image, price, compareAtPrice} = firstVariant;
+  const rating = parseRatingMetafields(product.rating, product.ratingCount);
 
   if (label) {
     cardLabel = label;
@@ -46,7 +54,11 @@ export function ProductCard({
   }
 
   return (
-    <div className="flex flex-col gap-2">
+    <div className="relative flex flex-col gap-2">
+      <WishlistButton
+        productId={product.id}
+        className="absolute top-2 left-2 z-10"
+      />
       <Link
         onClick={onClick}
         to={`/products/${product.handle}`}
@@ -79,6 +91,9 @@ export function ProductCard({
             >
               {product.title}
             </Text>
+            {rating && (
+              <StarRating rating={rating.average} count={rating.count} />
+            )}
             <div className="flex gap-4">
               <Text className="flex gap-4">
                 <Money withoutTrailingZeros data={price!} />
@@ -109,6 +124,16 @@ export function ProductCard({
           </Text>
         </AddToCartButton>
       )}
+      {quickView && (
+        <Button
+          to={quickViewLink}
+          variant="inline"
+          className="self-start"
+          preventScrollReset
+        >
+          Quick view
+        </Button>
+      )}
       {quickAdd && !firstVariant.availableForSale && (
         <Button variant="secondary" className="mt-2" disabled>
           <Text as="span" className="flex items-center justify-center gap-2">
@@ -1,10 +1,17 @@
-import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import { Image, Money } from '@shopify/hydrogen';
+import {useEffect, useRef, useState, useCallback, useMemo} from 'react';
+import {useFetcher} from '@remix-run/react';
+import {CartForm, Image, Money} from '@shopify/hydrogen';
 import type {
   Metaobject,
   MoneyV2,
+  Product as ProductType,
 } from '@shopify/hydrogen/storefront-api-types';
-import LightRays from './LightRays';
+
+import {safeParseEffectConfig, type EffectConfig} from '~/lib/effects';
+import {defineMetaobjectSchema, safeParseMetaobject} from '~/lib/metaobject';
+import {isDiscounted, usePrefixPathWithLocale} from '~/lib/utils';
+
+import {SectionEffect} from './SectionEffect';
 
 interface Product {
   id: string;
@@ -19,6 +26,11 @@ interface Product {
     height?: number;
   } | null;
   handle: string;
+  /** First available variant, added to the cart by quick-add */
+  variantId: string | null;
+  availableForSale: boolean;
+  price: MoneyV2;
+  compareAtPrice: MoneyV2 | null;
 }
 
 interface VisibleProduct extends Product {
@@ -28,118 +40,177 @@ interface VisibleProduct extends Product {
 
 interface ProductCarouselProps {
   metaobject?: Metaobject | null;
+  /** `ProductShowcaseData` when the showcase references a collection */
+  data?: unknown;
+}
+
+/** Products of the referenced collection, loaded by `loadProductShowcase` */
+export type ProductShowcaseData = {
+  products: ProductType[];
+};
+
+function isProductShowcaseData(data: unknown): data is ProductShowcaseData {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    Array.isArray((data as ProductShowcaseData).products)
+  );
+}
+
+type AvailabilityData = {
+  products: Pick<
+    ProductType,
+    'id' | 'availableForSale' | 'selectedOrFirstAvailableVariant'
+  >[];
+};
+
+const PRODUCT_SHOWCASE_SCHEMA = defineMetaobjectSchema({
+  heading: {type: 'string', default: 'Our Featured Products'},
+  products: {type: 'references'},
+  collection: {type: 'reference'},
+  hideSoldOut: {type: 'boolean', key: 'hide_sold_out', default: false},
+  effect: {type: 'reference'},
+});
+
+/** Setup problems are explained to developers, shoppers see nothing */
+const SHOW_SETUP_ERRORS = process.env.NODE_ENV === 'development';
+
+/** Used while the section doesn't reference an `effect_config` */
+const DEFAULT_EFFECT: EffectConfig = {
+  effect: 'light_rays',
+  enabled: true,
+  startsAt: null,
+  endsAt: null,
+  props: {
+    raysOrigin: 'top-center',
+    raysColor: '#ffffff',
+    raysSpeed: 1.5,
+    lightSpread: 0.9,
+    rayLength: 1.8,
+    followMouse: true,
+    mouseInfluence: 0.1,
+    noiseAmount: 0.1,
+    distortion: 0.05,
+  },
+};
+
+function toCarouselProduct(
+  node: ProductType,
+  live?: AvailabilityData['products'][number],
+): Product {
+  const {featuredImage} = node;
+  const variant =
+    live?.selectedOrFirstAvailableVariant ??
+    node.selectedOrFirstAvailableVariant;
+
+  return {
+    id: node.id,
+    title: node.title,
+    priceRange: {
+      minVariantPrice: {
+        amount: node.priceRange.minVariantPrice.amount,
+        currencyCode: node.priceRange.minVariantPrice.currencyCode,
+      } as MoneyV2,
+    },
+    featuredImage: featuredImage
+      ? {
+          url: featuredImage.url,
+          altText: featuredImage.altText ?? undefined,
+          width: featuredImage.width ?? undefined,
+          height: featuredImage.height ?? undefined,
+        }
+      : null,
+    handle: node.handle,
+    variantId: variant?.availableForSale ? variant.id : null,
+    availableForSale: live?.availableForSale ?? node.availableForSale ?? true,
+    price: variant?.price ?? node.priceRange.minVariantPrice,
+    compareAtPrice:
+      variant?.compareAtPrice &&
+      isDiscounted(variant.price, variant.compareAtPrice)
+        ? variant.compareAtPrice
+        : null,
+  };
 }
 
-export function ProductCarousel({ metaobject }: ProductCarouselProps) {
+/**
+ * Reads a product showcase's fields and effect. Problems are returned in
+ * `errors` rather than logged, the homepage loader reports them once on the
+ * server.
+ */
+export function parseProductShowcase(metaobject: Metaobject) {
+  const {data: fields, error} = safeParseMetaobject(
+    metaobject,
+    PRODUCT_SHOWCASE_SCHEMA,
+  );
+  if (error) {
+    return {fields, error, effect: DEFAULT_EFFECT, errors: [error.message]};
+  }
+  if (!fields.effect) {
+    return {fields, error, effect: DEFAULT_EFFECT, errors: []};
+  }
+
+  const effect = safeParseEffectConfig(fields.effect);
+  return {
+    fields,
+    error,
+    effect: effect.data,
+    errors: effect.error ? [effect.error.message] : [],
+  };
+}
+
+export function ProductCarousel({metaobject, data}: ProductCarouselProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [scrollDirection, setScrollDirection] = useState<'down' | 'up'>('down');
-  const [isMounted, setIsMounted] = useState(false);
   const [prevIndex, setPrevIndex] = useState(0);
 
   const sectionRef = useRef<HTMLDivElement>(null);
+  const {load: loadAvailability, data: availabilityData} =
+    useFetcher<AvailabilityData>();
+  const availabilityPath = usePrefixPathWithLocale('/api/availability');
   const lastScrollY = useRef(0);
   const scrollTimeout = useRef<NodeJS.Timeout>();
 
-  // ===== CLIENT-SIDE MOUNT =====
-  useEffect(() => {
-    setIsMounted(true);
-  }, []);
+  // ===== PARSE FIELDS & EFFECT (Memoized) =====
+  const {fields, error, effect} = useMemo(
+    () =>
+      metaobject?.fields
+        ? parseProductShowcase(metaobject)
+        : {fields: null, error: null, effect: DEFAULT_EFFECT, errors: []},
+    [metaobject],
+  );
 
-  // ===== ERROR HANDLING: Missing Metaobject =====
-  if (!metaobject?.fields) {
-    return (
-      <div className="product-carousel-error">
-        <div className="error-content">
-          <h1 className="error-title">⚠️ Metaobject Not Found</h1>
-          <p className="error-description">
-            Could not load product showcase data
-          </p>
-          <div className="error-instructions">
-            <h3>Required Steps:</h3>
-            <ol>
-              <li>
-                Go to{' '}
-                <strong>
-                  Shopify Admin → Settings → Custom Data → Metaobjects
-                </strong>
-              </li>
-              <li>
-                Find <strong>"Section Product Showcase"</strong>
-              </li>
-              <li>
-                <strong style={{ color: '#ffa500' }}>
-                  Enable "Storefront access" ✅
-                </strong>
-              </li>
-              <li>
-                Create entry with handle:{' '}
-                <code className="error-code">our-products</code>
-              </li>
-              <li>Add heading and select products</li>
-              <li>Save and refresh</li>
-            </ol>
-          </div>
-        </div>
-      </div>
-    );
-  }
+  const heading = fields?.heading ?? '';
 
-  // ===== FIELD EXTRACTORS (Memoized) =====
-  const getFieldValue = useCallback(
-    (key: string): string => {
-      return metaobject.fields?.find((f) => f?.key === key)?.value || '';
-    },
-    [metaobject.fields],
-  );
+  // ===== SOURCE PRODUCTS (Collection or Hand-picked) =====
+  const sourceProducts: ProductType[] = useMemo(() => {
+    if (isProductShowcaseData(data)) return data.products;
 
-  const getFieldReferences = useCallback(
-    (key: string): any[] => {
-      const field = metaobject.fields?.find((f) => f?.key === key);
-      return field?.references?.nodes || [];
-    },
-    [metaobject.fields],
-  );
+    return (fields?.products ?? []).flatMap((node) =>
+      'priceRange' in node && node.id && node.title ? [node] : [],
+    );
+  }, [data, fields]);
 
-  // ===== EXTRACT DATA =====
-  const heading = useMemo(
-    () => getFieldValue('heading') || 'Our Featured Products',
-    [getFieldValue],
-  );
+  // ===== LIVE AVAILABILITY (Pages are cached, stock is not) =====
+  useEffect(() => {
+    if (!sourceProducts.length) return;
 
-  const productNodes = useMemo(
-    () => getFieldReferences('products'),
-    [getFieldReferences],
-  );
+    const ids = sourceProducts.map((product) => product.id).join(',');
+    loadAvailability(`${availabilityPath}?ids=${encodeURIComponent(ids)}`);
+  }, [sourceProducts, availabilityPath, loadAvailability]);
 
   // ===== PROCESS PRODUCTS (Memoized) =====
   const products: Product[] = useMemo(() => {
-    return productNodes
-      .filter((node: any) => node?.id && node?.title && node?.priceRange)
-      .map((product: any) => ({
-        id: product.id,
-        title: product.title,
-        priceRange: {
-          minVariantPrice: {
-            amount: product.priceRange.minVariantPrice.amount,
-            currencyCode: product.priceRange.minVariantPrice.currencyCode,
-          } as MoneyV2,
-        },
-        featuredImage: product.featuredImage || null,
-        handle: product.handle,
-      }));
-  }, [productNodes]);
-
-  // ===== ERROR HANDLING: No Products =====
-  if (products.length === 0) {
-    return (
-      <div className="product-carousel-empty">
-        <h1 className="empty-title">⚠️ No Products Selected</h1>
-        <p className="empty-description">
-          Metaobject "{metaobject.handle}" has no products
-        </p>
-      </div>
+    const live = new Map(
+      (availabilityData?.products ?? []).map((product) => [
+        product.id,
+        product,
+      ]),
     );
-  }
+
+    return sourceProducts
+      .map((node) => toCarouselProduct(node, live.get(node.id)))
+      .filter((product) => product.availableForSale || !fields?.hideSoldOut);
+  }, [sourceProducts, availabilityData, fields]);
 
   // ===== SMOOTH SCROLL-BASED PRODUCT SWITCHING =====
   useEffect(() => {
@@ -176,7 +247,7 @@ export function ProductCarousel({ metaobject }: ProductCarouselProps) {
       }
     };
 
-    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('scroll', handleScroll, {passive: true});
     return () => {
       window.removeEventListener('scroll', handleScroll);
       if (scrollTimeout.current) {
@@ -196,11 +267,16 @@ export function ProductCarousel({ metaobject }: ProductCarouselProps) {
     setCurrentIndex((prev) => (prev + 1) % products.length);
   }, [currentIndex, products.length]);
 
+  // Hiding sold out products can shorten the list under the current index
+  const activeIndex = products.length ? currentIndex % products.length : 0;
+
   // ===== GET VISIBLE PRODUCTS (5 items for carousel) =====
   const visibleProducts: VisibleProduct[] = useMemo(() => {
+    if (products.length === 0) return [];
+
     const visible: VisibleProduct[] = [];
     for (let i = -2; i <= 2; i++) {
-      const index = (currentIndex + i + products.length) % products.length;
+      const index = (activeIndex + i + products.length) % products.length;
       visible.push({
         ...products[index],
         offset: i,
@@ -208,9 +284,82 @@ export function ProductCarousel({ metaobject }: ProductCarouselProps) {
       });
     }
     return visible;
-  }, [currentIndex, products]);
+  }, [activeIndex, products]);
 
-  const centerProduct = products[currentIndex];
+  const centerProduct = products[activeIndex];
+
+  // ===== ERROR HANDLING: Missing Metaobject =====
+  if (!metaobject?.fields) {
+    if (!SHOW_SETUP_ERRORS) return null;
+
+    return (
+      <div className="product-carousel-error">
+        <div className="error-content">
+          <h1 className="error-title">⚠️ Metaobject Not Found</h1>
+          <p className="error-description">
+            Could not load product showcase data
+          </p>
+          <div className="error-instructions">
+            <h3>Required Steps:</h3>
+            <ol>
+              <li>
+                Go to{' '}
+                <strong>
+                  Shopify Admin → Settings → Custom Data → Metaobjects
+                </strong>
+              </li>
+              <li>
+                Find <strong>"Section Product Showcase"</strong>
+              </li>
+              <li>
+                <strong style={{color: '#ffa500'}}>
+                  Enable "Storefront access" ✅
+                </strong>
+              </li>
+              <li>
+                Create entry with handle:{' '}
+                <code className="error-code">our-products</code>
+              </li>
+              <li>Add heading and select products</li>
+              <li>Save and refresh</li>
+            </ol>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // ===== ERROR HANDLING: Invalid Fields =====
+  if (error) {
+    if (!SHOW_SETUP_ERRORS) return null;
+
+    return (
+      <div className="product-carousel-empty">
+        <h1 className="empty-title">⚠️ Invalid Product Showcase</h1>
+        {error.issues.map((issue) => (
+          <p key={issue.key} className="empty-description">
+            {issue.message}
+          </p>
+        ))}
+      </div>
+    );
+  }
+
+  // ===== ERROR HANDLING: No Products =====
+  if (products.length === 0) {
+    if (!SHOW_SETUP_ERRORS) return null;
+
+    return (
+      <div className="product-carousel-empty">
+        <h1 className="empty-title">⚠️ No Products Selected</h1>
+        <p className="empty-description">
+          Metaobject "{metaobject.handle}" has no products
+          {fields?.hideSoldOut ? ' in stock' : ''}, select products or a
+          collection
+        </p>
+      </div>
+    );
+  }
 
   return (
     <>
@@ -218,22 +367,10 @@ export function ProductCarousel({ metaobject }: ProductCarouselProps) {
         {/* Grid Background */}
         <div className="grid-background" />
 
-        {/* LightRays Effect */}
-        {isMounted && (
-          <div className="lightrays-container">
-            <LightRays
-              raysOrigin="top-center"
-              raysColor="#ffffff"
-              raysSpeed={1.5}
-              lightSpread={0.9}
-              rayLength={1.8}
-              followMouse={true}
-              mouseInfluence={0.1}
-              noiseAmount={0.1}
-              distortion={0.05}
-            />
-          </div>
-        )}
+        {/* Section Effect (light rays by default) */}
+        <div className="lightrays-container">
+          <SectionEffect config={effect} />
+        </div>
 
         <div className="carousel-content">
           {/* Section Heading */}
@@ -246,15 +383,15 @@ export function ProductCarousel({ metaobject }: ProductCarouselProps) {
 
               return (
                 <div
-                  key={`${product.id}-${idx}-${currentIndex}`}
-                  className={`product-item-infinite ${product.isActive ? 'active fade-in-center center-pulse' : ''}`}
+                  key={`${product.id}-${idx}-${activeIndex}`}
+                  className={`product-item-infinite ${
+                    product.isActive ? 'active fade-in-center center-pulse' : ''
+                  } ${product.availableForSale ? '' : 'product-sold-out'}`}
                   style={{
-                    transform: `translateX(${product.offset * 320}px) scale(${product.isActive ? 1 : 0.7})`,
-                    opacity: product.isActive
-                      ? 1
-                      : absOffset === 1
-                        ? 0.5
-                        : 0.3,
+                    transform: `translateX(${product.offset * 320}px) scale(${
+                      product.isActive ? 1 : 0.7
+                    })`,
+                    opacity: product.isActive ? 1 : absOffset === 1 ? 0.5 : 0.3,
                     zIndex: 5 - absOffset,
                   }}
                 >
@@ -305,16 +442,52 @@ export function ProductCarousel({ metaobject }: ProductCarouselProps) {
               <div className="product-info-card">
                 <h2 className="product-title-card">{centerProduct.title}</h2>
                 <div className="product-price-card">
-                  <Money data={centerProduct.priceRange.minVariantPrice} />
+                  <Money data={centerProduct.price} />
+                  {centerProduct.compareAtPrice && (
+                    <Money
+                      data={centerProduct.compareAtPrice}
+                      className="product-compare-at-card"
+                    />
+                  )}
+                  {!centerProduct.availableForSale && (
+                    <span className="product-sold-out-badge">Sold out</span>
+                  )}
+                </div>
+                <div className="product-actions-card">
+                  <a
+                    href={`/products/${centerProduct.handle}`}
+                    className="explore-link"
+                  >
+                    <button className="explore-button-card">
+                      <span className="button-text">Explore</span>
+                    </button>
+                  </a>
+                  {centerProduct.variantId && (
+                    <CartForm
+                      route="/cart"
+                      action={CartForm.ACTIONS.LinesAdd}
+                      inputs={{
+                        lines: [
+                          {merchandiseId: centerProduct.variantId, quantity: 1},
+                        ],
+                      }}
+                    >
+                      {(fetcher) => (
+                        <button
+                          type="submit"
+                          className="explore-button-card quick-add-button-card"
+                          disabled={fetcher.state !== 'idle'}
+                        >
+                          <span className="button-text">
+                            {fetcher.state !== 'idle'
+                              ? 'Adding...'
+                              : 'Quick add'}
+                          </span>
+                        </button>
+                      )}
+                    </CartForm>
+                  )}
                 </div>
-                <a
-                  href={`/products/${centerProduct.handle}`}
-                  className="explore-link"
-                >
-                  <button className="explore-button-card">
-                    <span className="button-text">Explore</span>
-                  </button>
-                </a>
               </div>
 
               {/* Right Arrow */}
@@ -581,6 +754,40 @@ export function ProductCarousel({ metaobject }: ProductCarouselProps) {
           display: block;
         }
 
+        /* ===== AVAILABILITY & QUICK ADD ===== */
+        .product-compare-at-card {
+          margin-left: 0.5rem;
+          opacity: 0.5;
+          text-decoration: line-through;
+          font-size: 0.875em;
+        }
+
+        .product-sold-out-badge {
+          margin-left: 0.5rem;
+          padding: 0.15rem 0.5rem;
+          border: 1px solid rgba(255, 255, 255, 0.4);
+          border-radius: 4px;
+          font-size: 0.75rem;
+          text-transform: uppercase;
+          letter-spacing: 1px;
+        }
+
+        .product-sold-out .product-image-carousel {
+          filter: grayscale(1);
+        }
+
+        .product-actions-card {
+          display: grid;
+          grid-auto-flow: column;
+          grid-auto-columns: 1fr;
+          gap: 0.75rem;
+        }
+
+        .quick-add-button-card:disabled {
+          cursor: wait;
+          opacity: 0.7;
+        }
+
         /* ===== EXPLORE BUTTON ===== */
         .explore-button-card {
           position: relative;
@@ -0,0 +1,294 @@
+import {useRef, useState} from 'react';
+import {Listbox} from '@headlessui/react';
+import {
+  Money,
+  ShopPayButton,
+  type MappedProductOptions,
+} from '@shopify/hydrogen';
+import clsx from 'clsx';
+import type {
+  Maybe,
+  ProductOptionValueSwatch,
+} from '@shopify/hydrogen/storefront-api-types';
+
+import type {
+  ProductVariantFragment,
+  SellingPlanGroupFragment,
+} from 'storefrontapi.generated';
+import {Heading, Text} from '~/components/Text';
+import {Link} from '~/components/Link';
+import {Button} from '~/components/Button';
+import {AddToCartButton} from '~/components/AddToCartButton';
+import {BackInStockForm} from '~/components/BackInStockForm';
+import {IconCaret, IconCheck} from '~/components/Icon';
+import {
+  getSellingPlanAllocation,
+  SellingPlanSelector,
+} from '~/components/SellingPlanSelector';
+
+export function ProductForm({
+  productOptions,
+  selectedVariant,
+  sellingPlanGroups = [],
+  requiresSellingPlan = false,
+  storeDomain,
+  getVariantUrl = (handle, variantUriQuery) =>
+    `/products/${handle}?${variantUriQuery}`,
+}: {
+  productOptions: MappedProductOptions[];
+  selectedVariant: Maybe<ProductVariantFragment> | undefined;
+  /** Subscription options, a one-time purchase is offered alongside them */
+  sellingPlanGroups?: SellingPlanGroupFragment[];
+  requiresSellingPlan?: boolean;
+  storeDomain: string;
+  /** Where option links point to, the product page by default */
+  getVariantUrl?: (handle: string, variantUriQuery: string) => string;
+}) {
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const [selectedSellingPlanId, setSelectedSellingPlanId] = useState(
+    requiresSellingPlan
+      ? sellingPlanGroups[0]?.sellingPlans.nodes[0]?.id ?? null
+      : null,
+  );
+
+  const isOutOfStock = !selectedVariant?.availableForSale;
+
+  // Plans may not be offered for every variant. Without the selected plan,
+  // the variant is bought one-time, or with its first plan when one is required
+  const sellingPlanAllocation =
+    getSellingPlanAllocation(
+      selectedVariant ?? undefined,
+      selectedSellingPlanId,
+    ) ??
+    (requiresSellingPlan
+      ? selectedVariant?.sellingPlanAllocations.nodes[0] ?? null
+      : null);
+  const price =
+    sellingPlanAllocation?.priceAdjustments[0]?.price ?? selectedVariant?.price;
+  const compareAtPrice = sellingPlanAllocation
+    ? sellingPlanAllocation.priceAdjustments[0]?.compareAtPrice
+    : selectedVariant?.compareAtPrice;
+
+  const isOnSale =
+    price?.amount &&
+    compareAtPrice?.amount &&
+    Number(price.amount) < Number(compareAtPrice.amount);
+
+  return (
+    <div className="grid gap-10">
+      <div className="grid gap-4">
+        {productOptions.map((option, optionIndex) => (
+          <div
+            key={option.name}
+            className="product-options flex flex-col flex-wrap mb-4 gap-y-2 last:mb-0"
+          >
+            <Heading as="legend" size="lead" className="min-w-[4rem]">
+              {option.name}
+            </Heading>
+            <div className="flex flex-wrap items-baseline gap-4">
+              {option.optionValues.length > 7 ? (
+                <div className="relative w-full">
+                  <Listbox>
+                    {({open}) => (
+                      <>
+                        <Listbox.Button
+                          ref={closeRef}
+                          className={clsx(
+                            'flex items-center justify-between w-full py-3 px-4 border border-primary',
+                            open
+                              ? 'rounded-b md:rounded-t md:rounded-b-none'
+                              : 'rounded',
+                          )}
+                        >
+                          <span>
+                            {
+                              selectedVariant?.selectedOptions[optionIndex]
+                                .value
+                            }
+                          </span>
+                          <IconCaret direction={open ? 'up' : 'down'} />
+                        </Listbox.Button>
+                        <Listbox.Options
+                          className={clsx(
+                            'border-primary bg-contrast absolute bottom-12 z-30 grid h-48 w-full overflow-y-scroll rounded-t border px-2 py-2 transition-[max-height] duration-150 sm:bottom-auto md:rounded-b md:rounded-t-none md:border-t-0 md:border-b',
+                            open ? 'max-h-48' : 'max-h-0',
+                          )}
+                        >
+                          {option.optionValues
+                            .filter((value) => value.available)
+                            .map(
+                              ({
+                                isDifferentProduct,
+                                name,
+                                variantUriQuery,
+                                handle,
+                                selected,
+                              }) => (
+                                <Listbox.Option
+                                  key={`option-${option.name}-${name}`}
+                                  value={name}
+                                >
+                                  <Link
+                                    {...(!isDifferentProduct
+                                      ? {rel: 'nofollow'}
+                                      : {})}
+                                    to={getVariantUrl(handle, variantUriQuery)}
+                                    preventScrollReset
+                                    className={clsx(
+                                      'text-primary w-full p-2 transition rounded flex justify-start items-center text-left cursor-pointer',
+                                      selected && 'bg-primary/10',
+                                    )}
+                                    onClick={() => {
+                                      if (!closeRef?.current) return;
+                                      closeRef.current.click();
+                                    }}
+                                  >
+                                    {name}
+                                    {selected && (
+                                      <span className="ml-2">
+                                        <IconCheck />
+                                      </span>
+                                    )}
+                                  </Link>
+                                </Listbox.Option>
+                              ),
+                            )}
+                        </Listbox.Options>
+                      </>
+                    )}
+                  </Listbox>
+                </div>
+              ) : (
+                option.optionValues.map(
+                  ({
+                    isDifferentProduct,
+                    name,
+                    variantUriQuery,
+                    handle,
+                    selected,
+                    available,
+                    swatch,
+                  }) => (
+                    <Link
+                      key={option.name + name}
+                      {...(!isDifferentProduct ? {rel: 'nofollow'} : {})}
+                      to={getVariantUrl(handle, variantUriQuery)}
+                      preventScrollReset
+                      prefetch="intent"
+                      replace
+                      className={clsx(
+                        'leading-none py-1 border-b-[1.5px] cursor-pointer transition-all duration-200',
+                        selected ? 'border-primary/50' : 'border-primary/0',
+                        available ? 'opacity-100' : 'opacity-50',
+                      )}
+                    >
+                      <ProductOptionSwatch swatch={swatch} name={name} />
+                    </Link>
+                  ),
+                )
+              )}
+            </div>
+          </div>
+        ))}
+        {selectedVariant && sellingPlanGroups.length > 0 && (
+          <SellingPlanSelector
+            sellingPlanGroups={sellingPlanGroups}
+            selectedVariant={selectedVariant}
+            selectedSellingPlanId={
+              sellingPlanAllocation?.sellingPlan.id ?? null
+            }
+            requiresSellingPlan={requiresSellingPlan}
+            onChange={setSelectedSellingPlanId}
+          />
+        )}
+        {selectedVariant && (
+          <div className="grid items-stretch gap-4">
+            {isOutOfStock ? (
+              <>
+                <Button variant="secondary" disabled>
+                  <Text>Sold out</Text>
+                </Button>
+                <BackInStockForm
+                  key={selectedVariant.id}
+                  variantId={selectedVariant.id!}
+                />
+              </>
+            ) : requiresSellingPlan && !sellingPlanAllocation ? (
+              <Button variant="secondary" disabled>
+                <Text>Choose a subscription</Text>
+              </Button>
+            ) : (
+              <AddToCartButton
+                lines={[
+                  {
+                    merchandiseId: selectedVariant.id!,
+                    quantity: 1,
+                    sellingPlanId: sellingPlanAllocation?.sellingPlan.id,
+                  },
+                ]}
+                variant="primary"
+                data-test="add-to-cart"
+              >
+                <Text
+                  as="span"
+                  className="flex items-center justify-center gap-2"
+                >
+                  <span>Add to Cart</span> <span>·</span>{' '}
+                  <Money
+                    withoutTrailingZeros
+                    data={price!}
+                    as="span"
+                    data-test="price"
+                  />
+                  {isOnSale && (
+                    <Money
+                      withoutTrailingZeros
+                      data={compareAtPrice!}
+                      as="span"
+                      className="opacity-50 strike"
+                    />
+                  )}
+                </Text>
+              </AddToCartButton>
+            )}
+            {/* Shop Pay buttons can't buy subscriptions */}
+            {!isOutOfStock &&
+              !requiresSellingPlan &&
+              !sellingPlanAllocation && (
+                <ShopPayButton
+                  width="100%"
+                  variantIds={[selectedVariant?.id!]}
+                  storeDomain={storeDomain}
+                />
+              )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ProductOptionSwatch({
+  swatch,
+  name,
+}: {
+  swatch?: Maybe<ProductOptionValueSwatch> | undefined;
+  name: string;
+}) {
+  const image = swatch?.image?.previewImage?.url;
+  const color = swatch?.color;
+
+  if (!image && !color) return name;
+
+  return (
+    <div
+      aria-label={name}
+      className="w-8 h-8"
+      style={{
+        backgroundColor: color || 'transparent',
+      }}
+    >
+      {!!image && <img src={image} alt={name} />}
+    </div>
+  );
+}
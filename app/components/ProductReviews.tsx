@@ -0,0 +1,252 @@
+import clsx from 'clsx';
+import {useFetcher, useLocation, useSearchParams} from '@remix-run/react';
+
+import {Heading, Section, Text} from '~/components/Text';
+import {Link} from '~/components/Link';
+import {Button} from '~/components/Button';
+import {StarRating} from '~/components/StarRating';
+import {getInputStyleClasses, usePrefixPathWithLocale} from '~/lib/utils';
+import type {ReviewActionData} from '~/routes/($locale).products.$productHandle_.reviews';
+import {
+  REVIEW_SORTS,
+  REVIEWS_PAGE_PARAM,
+  REVIEWS_SORT_PARAM,
+  type ProductReviewsPage,
+  type RatingSummary,
+} from '~/lib/reviews';
+
+export function ProductReviews({
+  data,
+  productHandle,
+}: {
+  data: ProductReviewsPage | null;
+  productHandle: string;
+}) {
+  const [params] = useSearchParams();
+  const {pathname} = useLocation();
+
+  if (!data?.summary.count) {
+    return (
+      <Section id="reviews" heading="Reviews" padding="all">
+        <Text color="subtle">No reviews yet.</Text>
+        <ReviewForm productHandle={productHandle} />
+      </Section>
+    );
+  }
+
+  const {summary, reviews, page, pageCount, sort} = data;
+
+  const getLink = (changes: Record<string, string | number>) => {
+    const nextParams = new URLSearchParams(params);
+    for (const [key, value] of Object.entries(changes)) {
+      nextParams.set(key, String(value));
+    }
+    return `${pathname}?${nextParams.toString()}#reviews`;
+  };
+
+  return (
+    <Section id="reviews" heading="Reviews" padding="all">
+      <div className="grid gap-8 md:grid-cols-3">
+        <RatingBreakdown summary={summary} />
+        <div className="grid gap-6 md:col-span-2 content-start">
+          <nav className="flex flex-wrap gap-4">
+            <Text size="fine" color="subtle">
+              Sort by:
+            </Text>
+            {REVIEW_SORTS.map((item) => (
+              <Link
+                key={item.key}
+                to={getLink({
+                  [REVIEWS_SORT_PARAM]: item.key,
+                  [REVIEWS_PAGE_PARAM]: 1,
+                })}
+                preventScrollReset
+                replace
+                className={clsx(
+                  'text-fine',
+                  sort === item.key ? 'font-bold' : 'font-normal',
+                )}
+              >
+                {item.label}
+              </Link>
+            ))}
+          </nav>
+          <ul className="grid gap-6">
+            {reviews.map((review) => (
+              <li
+                key={review.id}
+                className="grid gap-2 pb-6 border-b border-primary/10"
+              >
+                <StarRating rating={review.rating} />
+                {review.title && (
+                  <Heading as="h3" size="copy">
+                    {review.title}
+                  </Heading>
+                )}
+                <Text as="p">{review.body}</Text>
+                <Text size="fine" color="subtle">
+                  {review.author} ·{' '}
+                  {new Date(review.createdAt).toLocaleDateString()}
+                  {review.verifiedBuyer && (
+                    <span className="ml-2 text-notice">✓ Verified buyer</span>
+                  )}
+                </Text>
+              </li>
+            ))}
+          </ul>
+          {pageCount > 1 && (
+            <nav className="flex items-center justify-between">
+              {page > 1 ? (
+                <Link
+                  to={getLink({[REVIEWS_PAGE_PARAM]: page - 1})}
+                  preventScrollReset
+                  replace
+                >
+                  ← Previous
+                </Link>
+              ) : (
+                <span />
+              )}
+              <Text size="fine" color="subtle">
+                Page {page} of {pageCount}
+              </Text>
+              {page < pageCount ? (
+                <Link
+                  to={getLink({[REVIEWS_PAGE_PARAM]: page + 1})}
+                  preventScrollReset
+                  replace
+                >
+                  Next →
+                </Link>
+              ) : (
+                <span />
+              )}
+            </nav>
+          )}
+          <ReviewForm productHandle={productHandle} />
+        </div>
+      </div>
+    </Section>
+  );
+}
+
+function ReviewForm({productHandle}: {productHandle: string}) {
+  const fetcher = useFetcher<ReviewActionData>();
+  const action = usePrefixPathWithLocale(`/products/${productHandle}/reviews`);
+  const {fieldErrors, formError, success} = fetcher.data ?? {};
+
+  if (success) {
+    return (
+      <Text as="p" color="subtle">
+        Thanks! Your review will appear once it has been approved.
+      </Text>
+    );
+  }
+
+  return (
+    <fetcher.Form
+      method="post"
+      action={action}
+      encType="multipart/form-data"
+      className="grid gap-4 pt-6 border-t border-primary/10"
+    >
+      <Heading as="h3" size="lead">
+        Write a review
+      </Heading>
+      {formError && (
+        <Text as="p" className="text-red-500" size="fine">
+          {formError}
+        </Text>
+      )}
+      <fieldset className="grid gap-2">
+        <legend className="mb-2">Rating</legend>
+        <div className="flex gap-4">
+          {[5, 4, 3, 2, 1].map((rating) => (
+            <label key={rating} className="flex items-center gap-1">
+              <input type="radio" name="rating" value={rating} required />
+              {rating}★
+            </label>
+          ))}
+        </div>
+        {fieldErrors?.rating && (
+          <Text size="fine" className="text-red-500">
+            {fieldErrors.rating}
+          </Text>
+        )}
+      </fieldset>
+      <input
+        className={getInputStyleClasses(fieldErrors?.title)}
+        name="title"
+        placeholder="Title (optional)"
+        aria-label="Title"
+        maxLength={100}
+      />
+      {fieldErrors?.title && (
+        <Text size="fine" className="text-red-500">
+          {fieldErrors.title}
+        </Text>
+      )}
+      <textarea
+        className={getInputStyleClasses(fieldErrors?.body)}
+        name="body"
+        placeholder="What did you think?"
+        aria-label="Review"
+        rows={4}
+        required
+      />
+      {fieldErrors?.body && (
+        <Text size="fine" className="text-red-500">
+          {fieldErrors.body}
+        </Text>
+      )}
+      <label className="grid gap-1">
+        <Text size="fine" color="subtle">
+          Photo (optional)
+        </Text>
+        <input type="file" name="photo" accept="image/*" />
+      </label>
+      {fieldErrors?.photo && (
+        <Text size="fine" className="text-red-500">
+          {fieldErrors.photo}
+        </Text>
+      )}
+      <Button type="submit" disabled={fetcher.state !== 'idle'}>
+        {fetcher.state !== 'idle' ? 'Submitting...' : 'Submit review'}
+      </Button>
+    </fetcher.Form>
+  );
+}
+
+function RatingBreakdown({summary}: {summary: RatingSummary}) {
+  return (
+    <div className="grid gap-4 content-start">
+      <div className="grid gap-1">
+        <Heading as="p" size="display">
+          {summary.average.toFixed(1)}
+        </Heading>
+        <StarRating rating={summary.average} />
+        <Text size="fine" color="subtle">
+          Based on {summary.count} {summary.count === 1 ? 'review' : 'reviews'}
+        </Text>
+      </div>
+      <ul className="grid gap-2">
+        {summary.distribution.map(({rating, count}) => (
+          <li key={rating} className="flex items-center gap-2">
+            <Text size="fine" className="w-6">
+              {rating}★
+            </Text>
+            <span className="flex-1 h-2 rounded bg-primary/10">
+              <span
+                className="block h-2 rounded bg-primary"
+                style={{width: `${(count / summary.count) * 100}%`}}
+              />
+            </span>
+            <Text size="fine" color="subtle" className="w-8 text-right">
+              {count}
+            </Text>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
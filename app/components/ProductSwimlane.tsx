@@ -25,6 +25,7 @@ export function ProductSwimlane({
             product={product}
             key={product.id}
             className="snap-start w-80"
+            quickView
           />
         ))}
       </div>
@@ -0,0 +1,158 @@
+import {useEffect} from 'react';
+import {useFetcher, useLocation, useSearchParams} from '@remix-run/react';
+import {
+  getAdjacentAndFirstAvailableVariants,
+  getProductOptions,
+  useOptimisticVariant,
+} from '@shopify/hydrogen';
+
+import type {QuickViewProductQuery} from 'storefrontapi.generated';
+import {Heading, Text} from '~/components/Text';
+import {Link} from '~/components/Link';
+import {Modal} from '~/components/Modal';
+import {ProductForm} from '~/components/ProductForm';
+import {ProductGallery} from '~/components/ProductGallery';
+import {Skeleton} from '~/components/Skeleton';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+import type {loader as quickViewLoader} from '~/routes/($locale).api.quick-view.$productHandle';
+
+export const QUICK_VIEW_PARAM = 'quick_view';
+const QUICK_VIEW_VARIANT_PARAM = 'quick_view_variant';
+
+/**
+ * Returns a link to the current page with the quick view of a product open,
+ * so the modal can be shared or reopened with the back button.
+ */
+export function useQuickViewLink(productHandle: string) {
+  const [params] = useSearchParams();
+  const {pathname} = useLocation();
+
+  const nextParams = new URLSearchParams(params);
+  nextParams.set(QUICK_VIEW_PARAM, productHandle);
+  nextParams.delete(QUICK_VIEW_VARIANT_PARAM);
+
+  return `${pathname}?${nextParams.toString()}`;
+}
+
+/**
+ * Product modal opened by the `quick_view` search param, rendered once by the
+ * page layout so every product grid can link to it.
+ */
+export function QuickView() {
+  const [params] = useSearchParams();
+  const {pathname} = useLocation();
+  const fetcher = useFetcher<typeof quickViewLoader>();
+
+  const productHandle = params.get(QUICK_VIEW_PARAM);
+  const variantQuery = params.get(QUICK_VIEW_VARIANT_PARAM) ?? '';
+  const apiPath = usePrefixPathWithLocale(`/api/quick-view/${productHandle}`);
+
+  useEffect(() => {
+    if (!productHandle) return;
+    fetcher.load(`${apiPath}?${variantQuery}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [productHandle, variantQuery, apiPath]);
+
+  if (!productHandle) return null;
+
+  const getLink = (changes: Record<string, string | null>) => {
+    const nextParams = new URLSearchParams(params);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) nextParams.delete(key);
+      else nextParams.set(key, value);
+    }
+    return `${pathname}?${nextParams.toString()}`;
+  };
+
+  const product = fetcher.data?.product;
+
+  return (
+    <Modal
+      cancelLink={getLink({
+        [QUICK_VIEW_PARAM]: null,
+        [QUICK_VIEW_VARIANT_PARAM]: null,
+      })}
+      wide
+    >
+      {product?.handle === productHandle ? (
+        <QuickViewProduct
+          product={product}
+          storeDomain={fetcher.data!.storeDomain}
+          variantQuery={variantQuery}
+          getVariantUrl={(handle, variantUriQuery) =>
+            getLink({
+              [QUICK_VIEW_PARAM]: handle,
+              [QUICK_VIEW_VARIANT_PARAM]: variantUriQuery,
+            })
+          }
+        />
+      ) : fetcher.state === 'idle' && fetcher.data?.product === null ? (
+        <div className="grid gap-2">
+          <Heading as="h2" id="modal-title" className="whitespace-normal">
+            We’ve lost this product
+          </Heading>
+          <Text as="p">
+            It may have sold out for good or been removed from the store.
+          </Text>
+        </div>
+      ) : fetcher.state === 'idle' && fetcher.data === undefined ? null : (
+        <div className="grid gap-6 md:grid-cols-2">
+          <Skeleton className="aspect-[4/5]" />
+          <Skeleton className="h-32" />
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+function QuickViewProduct({
+  product,
+  storeDomain,
+  variantQuery,
+  getVariantUrl,
+}: {
+  product: NonNullable<QuickViewProductQuery['product']>;
+  storeDomain: string;
+  variantQuery: string;
+  getVariantUrl: (handle: string, variantUriQuery: string) => string;
+}) {
+  const selectedVariant = useOptimisticVariant(
+    product.selectedOrFirstAvailableVariant,
+    getAdjacentAndFirstAvailableVariants(product),
+  );
+
+  const productOptions = getProductOptions({
+    ...product,
+    selectedOrFirstAvailableVariant: selectedVariant,
+  });
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <ProductGallery media={product.media.nodes} className="w-full" />
+      <div className="grid gap-6 content-start">
+        <div className="grid gap-2">
+          <Heading as="h2" id="modal-title" className="whitespace-normal">
+            {product.title}
+          </Heading>
+          {product.vendor && (
+            <Text className="opacity-50 font-medium">{product.vendor}</Text>
+          )}
+        </div>
+        <ProductForm
+          productOptions={productOptions}
+          selectedVariant={selectedVariant}
+          sellingPlanGroups={product.sellingPlanGroups.nodes}
+          requiresSellingPlan={product.requiresSellingPlan}
+          storeDomain={storeDomain}
+          getVariantUrl={getVariantUrl}
+        />
+        <Link
+          to={`/products/${product.handle}?${variantQuery}`}
+          className="pb-px border-b border-primary/30 text-primary/50 justify-self-start"
+        >
+          View full details
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 import {useState, useCallback, useMemo} from 'react';
 import {Image} from '@shopify/hydrogen';
 import type {Metaobject} from '@shopify/hydrogen/storefront-api-types';
-import PixelSnow from './PixelSnow';
+
+import {safeParseEffectConfig, type EffectConfig} from '~/lib/effects';
+import {defineMetaobjectSchema, safeParseMetaobject} from '~/lib/metaobject';
+
+import {SectionEffect} from './SectionEffect';
 
 interface Review {
   id: string;
@@ -10,86 +14,110 @@ interface Review {
   customerImage: string;
   rating: number;
   reviewText: string;
+  verifiedBuyer: boolean;
 }
 
 interface ReviewsSectionProps {
   metaobject?: Metaobject | null;
 }
 
-export function ReviewsSection({metaobject}: ReviewsSectionProps) {
-  const [hoveredColumn, setHoveredColumn] = useState<number | null>(null);
+const REVIEWS_SECTION_SCHEMA = defineMetaobjectSchema({
+  heading: {type: 'string', default: 'What Our Customers Say'},
+  reviews: {type: 'references', required: true},
+  effect: {type: 'reference'},
+});
+
+/** Used while the section doesn't reference an `effect_config` */
+const DEFAULT_EFFECT: EffectConfig = {
+  effect: 'pixel_snow',
+  enabled: true,
+  startsAt: null,
+  endsAt: null,
+  props: {
+    color: '#ffffff',
+    flakeSize: 0.01,
+    minFlakeSize: 1.25,
+    pixelResolution: 200,
+    speed: 1.25,
+    density: 0.3,
+    direction: 125,
+    brightness: 1,
+  },
+};
+
+const REVIEW_SCHEMA = defineMetaobjectSchema({
+  customerName: {type: 'string', key: 'customer_name', required: true},
+  customerRole: {type: 'string', key: 'customer_role', default: ''},
+  customerImage: {type: 'reference', key: 'customer_img'},
+  rating: {type: 'number', default: 5},
+  reviewText: {type: 'string', key: 'review_text', required: true},
+  verifiedBuyer: {type: 'boolean', key: 'verified_buyer', default: false},
+});
+
+/**
+ * Reads a reviews section's heading, effect and reviews. Problems are
+ * returned in `errors` rather than logged, the homepage loader reports them
+ * once on the server.
+ */
+export function parseReviewsSection(metaobject: Metaobject) {
+  const errors: string[] = [];
+
+  const {data: fields, error} = safeParseMetaobject(
+    metaobject,
+    REVIEWS_SECTION_SCHEMA,
+  );
+  if (error) errors.push(error.message);
 
-  // ===== ERROR HANDLING =====
-  if (!metaobject?.fields) {
-    console.error('[ReviewsSection] metaobject is null or has no fields');
-    return null;
+  let effect: EffectConfig | null = DEFAULT_EFFECT;
+  if (fields?.effect) {
+    const parsed = safeParseEffectConfig(fields.effect);
+    if (parsed.error) errors.push(parsed.error.message);
+    effect = parsed.data;
   }
 
-  // ===== FIELD EXTRACTORS (Memoized) =====
-  const getFieldValue = useCallback(
-    (key: string): string => {
-      return metaobject.fields?.find((f) => f?.key === key)?.value || '';
-    },
-    [metaobject.fields],
-  );
+  const reviews = (fields?.reviews ?? []).flatMap((node): Review[] => {
+    if (!('fields' in node)) return [];
 
-  const getFieldReferences = useCallback(
-    (key: string): any[] => {
-      const field = metaobject.fields?.find((f) => f?.key === key);
-      return field?.references?.nodes || [];
-    },
-    [metaobject.fields],
-  );
+    const {data: review, error} = safeParseMetaobject(node, REVIEW_SCHEMA);
+    if (error) {
+      errors.push(error.message);
+      return [];
+    }
 
-  // ===== EXTRACT DATA (Memoized) =====
-  const heading = useMemo(
-    () => getFieldValue('heading') || 'What Our Customers Say',
-    [getFieldValue],
-  );
+    const {customerName, customerImage} = review;
 
-  const reviewNodes = useMemo(() => getFieldReferences('reviews'), [getFieldReferences]);
-
-  // ===== PROCESS REVIEWS (Memoized) =====
-  const reviews: Review[] = useMemo(() => {
-    return reviewNodes
-      .filter((node: any) => node && node.fields)
-      .map((review: any) => {
-        const getReviewField = (key: string) => {
-          const field = review.fields?.find((f: any) => f?.key === key);
-          return field?.value || '';
-        };
-
-        const getReviewImageField = (key: string) => {
-          const field = review.fields?.find((f: any) => f?.key === key);
-          if (field?.reference && field.reference.image) {
-            return field.reference.image.url;
-          }
-          return '';
-        };
-
-        const customerName = getReviewField('customer_name');
-        const customerRole = getReviewField('customer_role');
-        const customerImage = getReviewImageField('customer_img');
-        const rating = parseFloat(getReviewField('rating') || '5');
-        const reviewText = getReviewField('review_text');
-
-        return {
-          id: review.id,
-          customerName,
-          customerRole,
-          customerImage:
-            customerImage ||
-            `https://ui-avatars.com/api/?name=${encodeURIComponent(customerName)}&background=667eea&color=fff&size=100&bold=true`,
-          rating,
-          reviewText,
-        };
-      });
-  }, [reviewNodes]);
+    return [
+      {
+        id: node.id,
+        customerName,
+        customerRole: review.customerRole,
+        customerImage:
+          customerImage && 'image' in customerImage && customerImage.image
+            ? customerImage.image.url
+            : `https://ui-avatars.com/api/?name=${encodeURIComponent(
+                customerName,
+              )}&background=667eea&color=fff&size=100&bold=true`,
+        rating: review.rating,
+        reviewText: review.reviewText,
+        verifiedBuyer: review.verifiedBuyer,
+      },
+    ];
+  });
 
-  // ===== ERROR HANDLING: No Reviews =====
-  if (reviews.length === 0) {
-    return null;
-  }
+  return {heading: fields?.heading ?? '', effect, reviews, errors};
+}
+
+export function ReviewsSection({metaobject}: ReviewsSectionProps) {
+  const [hoveredColumn, setHoveredColumn] = useState<number | null>(null);
+
+  // ===== PARSE FIELDS & REVIEWS (Memoized) =====
+  const {heading, effect, reviews} = useMemo(
+    () =>
+      metaobject?.fields
+        ? parseReviewsSection(metaobject)
+        : {heading: '', effect: DEFAULT_EFFECT, reviews: [], errors: []},
+    [metaobject],
+  );
 
   // ===== SPLIT REVIEWS INTO COLUMNS (Memoized) =====
   const [col1, col2, col3] = useMemo(() => {
@@ -114,7 +142,10 @@ export function ReviewsSection({metaobject}: ReviewsSectionProps) {
   // ===== RENDER STARS (Memoized) =====
   const renderStars = useCallback((rating: number) => {
     return Array.from({length: 5}, (_, i) => (
-      <span key={i} className={`star ${i < Math.floor(rating) ? 'filled' : ''}`}>
+      <span
+        key={i}
+        className={`star ${i < Math.floor(rating) ? 'filled' : ''}`}
+      >
         ★
       </span>
     ));
@@ -134,12 +165,17 @@ export function ReviewsSection({metaobject}: ReviewsSectionProps) {
             height={50}
             onError={(e) => {
               const target = e.target as HTMLImageElement;
-              target.src = `https://ui-avatars.com/api/?name=${encodeURIComponent(review.customerName)}&background=667eea&color=fff&size=100&bold=true`;
+              target.src = `https://ui-avatars.com/api/?name=${encodeURIComponent(
+                review.customerName,
+              )}&background=667eea&color=fff&size=100&bold=true`;
             }}
           />
           <div className="customer-info">
             <h3 className="customer-name">{review.customerName}</h3>
             <p className="customer-role">{review.customerRole}</p>
+            {review.verifiedBuyer && (
+              <span className="verified-badge">✓ Verified buyer</span>
+            )}
           </div>
         </div>
 
@@ -160,21 +196,17 @@ export function ReviewsSection({metaobject}: ReviewsSectionProps) {
     setHoveredColumn(null);
   }, []);
 
+  // ===== ERROR HANDLING: No Reviews =====
+  if (reviews.length === 0) {
+    return null;
+  }
+
   return (
     <>
       <section className="reviews-section">
-        {/* PixelSnow Background */}
+        {/* Section Effect Background (pixel snow by default) */}
         <div className="pixel-snow-background">
-          <PixelSnow
-            color="#ffffff"
-            flakeSize={0.01}
-            minFlakeSize={1.25}
-            pixelResolution={200}
-            speed={1.25}
-            density={0.3}
-            direction={125}
-            brightness={1}
-          />
+          <SectionEffect config={effect} />
         </div>
 
         <div className="reviews-container">
@@ -188,7 +220,9 @@ export function ReviewsSection({metaobject}: ReviewsSectionProps) {
               onMouseLeave={handleColumnLeave}
             >
               <div
-                className={`review-column-inner column-inner-1 ${hoveredColumn === 0 ? 'paused' : ''}`}
+                className={`review-column-inner column-inner-1 ${
+                  hoveredColumn === 0 ? 'paused' : ''
+                }`}
               >
                 {col1.map((review, index) => renderReviewCard(review, index))}
               </div>
@@ -201,7 +235,9 @@ export function ReviewsSection({metaobject}: ReviewsSectionProps) {
               onMouseLeave={handleColumnLeave}
             >
               <div
-                className={`review-column-inner column-inner-2 ${hoveredColumn === 1 ? 'paused' : ''}`}
+                className={`review-column-inner column-inner-2 ${
+                  hoveredColumn === 1 ? 'paused' : ''
+                }`}
               >
                 {col2.map((review, index) => renderReviewCard(review, index))}
               </div>
@@ -214,7 +250,9 @@ export function ReviewsSection({metaobject}: ReviewsSectionProps) {
               onMouseLeave={handleColumnLeave}
             >
               <div
-                className={`review-column-inner column-inner-3 ${hoveredColumn === 2 ? 'paused' : ''}`}
+                className={`review-column-inner column-inner-3 ${
+                  hoveredColumn === 2 ? 'paused' : ''
+                }`}
               >
                 {col3.map((review, index) => renderReviewCard(review, index))}
               </div>
@@ -393,6 +431,14 @@ export function ReviewsSection({metaobject}: ReviewsSectionProps) {
           margin: 0;
         }
 
+        .verified-badge {
+          display: inline-block;
+          margin-top: 0.25rem;
+          font-size: 0.75rem;
+          font-weight: 600;
+          color: #4ade80;
+        }
+
         /* Rating */
         .review-rating {
           display: flex;
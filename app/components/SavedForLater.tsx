@@ -0,0 +1,124 @@
+import {useEffect} from 'react';
+import {useFetcher} from '@remix-run/react';
+import {CartForm, Image, Money} from '@shopify/hydrogen';
+
+import {Heading, Text} from '~/components/Text';
+import {Link} from '~/components/Link';
+import {MOVE_TO_CART_ACTION} from '~/lib/cart';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+import type {loader as savedForLaterLoader} from '~/routes/($locale).api.saved-for-later';
+
+/**
+ * Lines the shopper moved out of the cart with "Save for later". The list is
+ * reloaded after every cart action, e.g. when a line is saved or moved back.
+ */
+export function SavedForLater() {
+  const {load, data} = useFetcher<typeof savedForLaterLoader>();
+  const savedForLaterApiPath = usePrefixPathWithLocale('/api/saved-for-later');
+
+  useEffect(() => {
+    load(savedForLaterApiPath);
+  }, [load, savedForLaterApiPath]);
+
+  if (!data?.lines.length) return null;
+
+  return (
+    <section aria-labelledby="saved-for-later" className="grid gap-4 mt-8">
+      <Heading id="saved-for-later" size="copy" as="h2">
+        Saved for later ({data.lines.length})
+      </Heading>
+      <ul className="grid gap-6">
+        {data.lines.map((line) => (
+          <SavedLine
+            key={line.merchandiseId}
+            line={line}
+            removeAction={savedForLaterApiPath}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+type SavedLineData = NonNullable<
+  ReturnType<typeof useFetcher<typeof savedForLaterLoader>>['data']
+>['lines'][number];
+
+function SavedLine({
+  line,
+  removeAction,
+}: {
+  line: SavedLineData;
+  removeAction: string;
+}) {
+  const removeFetcher = useFetcher();
+  const {merchandise} = line;
+
+  // Hide the line while it's being removed
+  if (removeFetcher.state !== 'idle') return null;
+
+  return (
+    <li className="flex gap-4">
+      <div className="flex-shrink">
+        {merchandise.image && (
+          <Image
+            width={80}
+            height={80}
+            data={merchandise.image}
+            className="object-cover object-center w-16 h-16 border rounded md:w-20 md:h-20"
+            alt={merchandise.title}
+          />
+        )}
+      </div>
+      <div className="grid flex-grow gap-1 content-start">
+        <Link to={`/products/${merchandise.product.handle}`}>
+          <Text>{merchandise.product.title}</Text>
+        </Link>
+        {merchandise.selectedOptions
+          .filter((option) => option.value !== 'Default Title')
+          .map((option) => (
+            <Text color="subtle" size="fine" key={option.name}>
+              {option.name}: {option.value}
+            </Text>
+          ))}
+        <Text size="fine">
+          {line.quantity > 1 && `${line.quantity} × `}
+          <Money as="span" withoutTrailingZeros data={merchandise.price} />
+        </Text>
+        <div className="flex items-center gap-4 mt-1">
+          {merchandise.availableForSale ? (
+            <CartForm
+              route="/cart"
+              action={MOVE_TO_CART_ACTION}
+              inputs={{merchandiseId: line.merchandiseId}}
+            >
+              {(fetcher) => (
+                <button
+                  type="submit"
+                  className="font-medium text-fine border-b border-primary/10 leading-none pb-1"
+                  disabled={fetcher.state !== 'idle'}
+                >
+                  Move to cart
+                </button>
+              )}
+            </CartForm>
+          ) : (
+            <Text size="fine" color="subtle">
+              Sold out
+            </Text>
+          )}
+          <removeFetcher.Form method="post" action={removeAction}>
+            <input
+              type="hidden"
+              name="merchandiseId"
+              value={line.merchandiseId}
+            />
+            <button type="submit" className="text-fine text-primary/50">
+              Remove
+            </button>
+          </removeFetcher.Form>
+        </div>
+      </div>
+    </li>
+  );
+}
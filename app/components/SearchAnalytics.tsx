@@ -0,0 +1,89 @@
+import {useCallback, useEffect} from 'react';
+import {useAnalytics} from '@shopify/hydrogen';
+
+import {
+  parseSearchEvent,
+  SEARCH_ANALYTICS_EVENTS,
+  type SearchEvent,
+} from '~/lib/search-analytics';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+
+/**
+ * Sends the search events published on the `Analytics` bus to the search
+ * event sink, once the shopper consented to tracking. Rendered once, inside
+ * `Analytics.Provider`.
+ */
+export function SearchAnalytics() {
+  const {subscribe, register, canTrack} = useAnalytics();
+  const {ready} = register('SearchAnalytics');
+  const searchEventsApiPath = usePrefixPathWithLocale('/api/search-events');
+
+  useEffect(() => {
+    const send = (payload: unknown) => {
+      if (!canTrack()) return;
+
+      // Only send the search fields, the bus may add the shop and cart
+      const event = parseSearchEvent(payload);
+      if (!event) return;
+
+      const body = JSON.stringify([event]);
+      // A beacon is still sent when a click navigates away from the page
+      const isQueued = navigator.sendBeacon?.(
+        searchEventsApiPath,
+        new Blob([body], {type: 'application/json'}),
+      );
+      if (isQueued) return;
+
+      fetch(searchEventsApiPath, {
+        method: 'POST',
+        body,
+        headers: {'Content-Type': 'application/json'},
+        keepalive: true,
+      }).catch(() => {});
+    };
+
+    subscribe(SEARCH_ANALYTICS_EVENTS.SEARCHED, send);
+    subscribe(SEARCH_ANALYTICS_EVENTS.RESULT_CLICKED, send);
+    ready();
+  }, [canTrack, ready, searchEventsApiPath, subscribe]);
+
+  return null;
+}
+
+/**
+ * Publishes the search event returned by a loader, once per search. The
+ * same search loaded again, e.g. the next page of results, isn't counted.
+ */
+export function usePublishSearchEvent(event: SearchEvent | null | undefined) {
+  const {publish} = useAnalytics();
+  const eventKey = event ? JSON.stringify(event) : null;
+
+  useEffect(() => {
+    if (!eventKey) return;
+    publish(
+      SEARCH_ANALYTICS_EVENTS.SEARCHED,
+      JSON.parse(eventKey) as SearchEvent,
+    );
+  }, [eventKey, publish]);
+}
+
+/**
+ * Returns a handler publishing a click on the result at `position`, the
+ * first result is 1.
+ */
+export function useSearchResultClick(event: SearchEvent | null | undefined) {
+  const {publish} = useAnalytics();
+
+  return useCallback(
+    (position: number, url: string) => {
+      if (!event) return;
+      publish(SEARCH_ANALYTICS_EVENTS.RESULT_CLICKED, {
+        ...event,
+        type: 'click',
+        position,
+        url,
+      } satisfies SearchEvent);
+    },
+    [event, publish],
+  );
+}
@@ -0,0 +1,28 @@
+import {useEffect, useState} from 'react';
+
+import {isEffectActive, type EffectConfig} from '~/lib/effects';
+
+import LightRays from './LightRays';
+import PixelSnow from './PixelSnow';
+
+/**
+ * Renders the visual effect configured for a section. Effects are client only,
+ * which also lets the schedule be checked against the visitor's clock without
+ * a hydration mismatch.
+ */
+export function SectionEffect({config}: {config: EffectConfig | null}) {
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  if (!config || !isMounted || !isEffectActive(config)) return null;
+
+  switch (config.effect) {
+    case 'pixel_snow':
+      return <PixelSnow {...config.props} />;
+    case 'light_rays':
+      return <LightRays {...config.props} />;
+  }
+}
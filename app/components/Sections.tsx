@@ -0,0 +1,75 @@
+import type {ComponentType} from 'react';
+import type {Metaobject} from '@shopify/hydrogen/storefront-api-types';
+
+import {HERO_PARALLAX_FRAGMENT} from '~/graphql/hero.query';
+import {PRODUCT_SHOWCASE_FRAGMENT} from '~/graphql/product.query';
+import {REVIEWS_SECTION_FRAGMENT} from '~/graphql/reviews.query';
+
+import {HeroParallax, parseHeroParallax} from './HeroParallax';
+import {ProductCarousel, parseProductShowcase} from './ProductCarousel';
+import {ReviewsSection, parseReviewsSection} from './ReviewSection';
+
+export type SectionDefinition = {
+  /** `data` is whatever the section's loader returned, narrow it before use */
+  component: ComponentType<{metaobject: Metaobject; data?: unknown}>;
+  /** Name of the fragment declared in `fragment`, spread into the section query */
+  fragmentName: string;
+  fragment: string;
+  /** Setup problems of the metaobject, logged once by the homepage loader */
+  getErrors: (metaobject: Metaobject) => string[];
+};
+
+export type HomepageSection = {
+  id: string;
+  type: string;
+  handle: string;
+  metaobject: Metaobject;
+  /** Result of the section's server loader, see `SECTION_LOADERS` */
+  data?: unknown;
+};
+
+/**
+ * Maps a section metaobject `type` to the component that renders it and the
+ * fragment it needs. Register new section types here to make them available
+ * to merchandisers in the homepage metaobject.
+ */
+export const SECTION_REGISTRY: Record<string, SectionDefinition> = {
+  section_hero_parallax: {
+    component: HeroParallax,
+    fragmentName: 'HeroParallaxFields',
+    fragment: HERO_PARALLAX_FRAGMENT,
+    getErrors: (metaobject) => parseHeroParallax(metaobject).errors,
+  },
+  section_product_showcase: {
+    component: ProductCarousel,
+    fragmentName: 'ProductShowcaseFields',
+    fragment: PRODUCT_SHOWCASE_FRAGMENT,
+    getErrors: (metaobject) => parseProductShowcase(metaobject).errors,
+  },
+  section_reviews: {
+    component: ReviewsSection,
+    fragmentName: 'ReviewsSectionFields',
+    fragment: REVIEWS_SECTION_FRAGMENT,
+    getErrors: (metaobject) => parseReviewsSection(metaobject).errors,
+  },
+};
+
+export function Sections({sections}: {sections: HomepageSection[]}) {
+  return (
+    <>
+      {sections.map((section) => {
+        const definition = SECTION_REGISTRY[section.type];
+        if (!definition) return null;
+
+        const {component: Component} = definition;
+        return (
+          <Component
+            key={section.id}
+            metaobject={section.metaobject}
+            data={section.data}
+          />
+        );
+      })}
+    </>
+  );
+}
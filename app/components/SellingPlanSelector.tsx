@@ -0,0 +1,157 @@
+import clsx from 'clsx';
+import {Money} from '@shopify/hydrogen';
+
+import type {
+  ProductVariantFragment,
+  SellingPlanGroupFragment,
+} from 'storefrontapi.generated';
+import {Heading, Text} from '~/components/Text';
+
+type SellingPlan = SellingPlanGroupFragment['sellingPlans']['nodes'][number];
+
+/**
+ * The variant's price on a selling plan, `null` when the plan isn't offered
+ * for the variant.
+ */
+export function getSellingPlanAllocation(
+  variant: Pick<ProductVariantFragment, 'sellingPlanAllocations'> | undefined,
+  sellingPlanId: string | null,
+) {
+  if (!sellingPlanId) return null;
+
+  return (
+    variant?.sellingPlanAllocations.nodes.find(
+      (allocation) => allocation.sellingPlan.id === sellingPlanId,
+    ) ?? null
+  );
+}
+
+/**
+ * Picks between a one-time purchase and the product's subscriptions. Prices
+ * are the selected variant's, with the plan's adjustment applied.
+ */
+export function SellingPlanSelector({
+  sellingPlanGroups,
+  selectedVariant,
+  selectedSellingPlanId,
+  requiresSellingPlan,
+  onChange,
+}: {
+  sellingPlanGroups: SellingPlanGroupFragment[];
+  selectedVariant: ProductVariantFragment;
+  selectedSellingPlanId: string | null;
+  requiresSellingPlan: boolean;
+  onChange: (sellingPlanId: string | null) => void;
+}) {
+  return (
+    <fieldset className="grid gap-3">
+      <Heading as="legend" size="lead" className="mb-2">
+        Purchase options
+      </Heading>
+      {!requiresSellingPlan && (
+        <SellingPlanOption
+          label="One-time purchase"
+          price={<Money withoutTrailingZeros data={selectedVariant.price} />}
+          checked={!selectedSellingPlanId}
+          onChange={() => onChange(null)}
+        />
+      )}
+      {sellingPlanGroups.map((group) => (
+        <div key={group.name} className="grid gap-3">
+          {sellingPlanGroups.length > 1 && (
+            <Text size="fine" color="subtle">
+              {group.name}
+            </Text>
+          )}
+          {group.sellingPlans.nodes.map((sellingPlan) => {
+            const allocation = getSellingPlanAllocation(
+              selectedVariant,
+              sellingPlan.id,
+            );
+            const price = allocation?.priceAdjustments[0]?.price;
+
+            return (
+              <SellingPlanOption
+                key={sellingPlan.id}
+                label={sellingPlan.name}
+                description={getPriceAdjustmentLabel(sellingPlan)}
+                price={price && <Money withoutTrailingZeros data={price} />}
+                checked={selectedSellingPlanId === sellingPlan.id}
+                disabled={!allocation}
+                onChange={() => onChange(sellingPlan.id)}
+              />
+            );
+          })}
+        </div>
+      ))}
+    </fieldset>
+  );
+}
+
+function SellingPlanOption({
+  label,
+  description,
+  price,
+  checked,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  description?: React.ReactNode;
+  price?: React.ReactNode;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: () => void;
+}) {
+  return (
+    <label
+      className={clsx(
+        'flex items-center gap-3 p-3 border rounded cursor-pointer',
+        checked ? 'border-primary' : 'border-primary/10',
+        disabled && 'opacity-50 cursor-not-allowed',
+      )}
+    >
+      <input
+        type="radio"
+        name="selling-plan"
+        checked={checked}
+        disabled={disabled}
+        onChange={onChange}
+      />
+      <span className="grid flex-grow">
+        <Text>{label}</Text>
+        {description && (
+          <Text size="fine" color="subtle">
+            {description}
+          </Text>
+        )}
+      </span>
+      {price && <Text>{price}</Text>}
+    </label>
+  );
+}
+
+/** e.g. "Save 10%", from the plan's first price adjustment */
+function getPriceAdjustmentLabel(sellingPlan: SellingPlan) {
+  const adjustment = sellingPlan.priceAdjustments[0]?.adjustmentValue;
+
+  switch (adjustment?.__typename) {
+    case 'SellingPlanPercentagePriceAdjustment':
+      return adjustment.adjustmentPercentage
+        ? `Save ${adjustment.adjustmentPercentage}%`
+        : null;
+    case 'SellingPlanFixedAmountPriceAdjustment':
+      return (
+        <>
+          Save{' '}
+          <Money
+            as="span"
+            withoutTrailingZeros
+            data={adjustment.adjustmentAmount}
+          />
+        </>
+      );
+    default:
+      return sellingPlan.description;
+  }
+}
@@ -27,13 +27,16 @@ export type SortParam =
   | 'price-high-low'
   | 'best-selling'
   | 'newest'
-  | 'featured';
+  | 'featured'
+  | 'relevance';
 
 type Props = {
   filters: Filter[];
   appliedFilters?: AppliedFilter[];
   children: React.ReactNode;
   collections?: Array<{handle: string; title: string}>;
+  /** Sort options to offer, in order, the first one is the default */
+  sortKeys?: SortParam[];
 };
 export const FILTER_URL_PREFIX = 'filter.';
 
@@ -42,6 +45,7 @@ export function SortFilter({
   appliedFilters = [],
   children,
   collections = [],
+  sortKeys,
 }: Props) {
   const [isOpen, setIsOpen] = useState(false);
   return (
@@ -55,8 +59,13 @@ export function SortFilter({
         >
           <IconFilters />
         </button>
-        <SortMenu />
+        <SortMenu sortKeys={sortKeys} />
       </div>
+      {!isOpen && appliedFilters.length > 0 ? (
+        <div className="pt-4">
+          <AppliedFilterChips filters={appliedFilters} />
+        </div>
+      ) : null}
       <div className="flex flex-col flex-wrap md:flex-row">
         <div
           className={`transition-all duration-200 ${
@@ -101,6 +110,9 @@ export function FiltersDrawer({
             to={to}
           >
             {option.label}
+            {option.count ? (
+              <span className="ml-1 opacity-50">({option.count})</span>
+            ) : null}
           </Link>
         );
     }
@@ -149,33 +161,39 @@ export function FiltersDrawer({
 }
 
 function AppliedFilters({filters = []}: {filters: AppliedFilter[]}) {
-  const [params] = useSearchParams();
-  const location = useLocation();
   return (
     <>
       <Heading as="h4" size="lead" className="pb-4">
         Applied filters
       </Heading>
-      <div className="flex flex-wrap gap-2">
-        {filters.map((filter: AppliedFilter) => {
-          return (
-            <Link
-              to={getAppliedFilterLink(filter, params, location)}
-              className="flex px-2 border rounded-full gap"
-              key={`${filter.label}-${JSON.stringify(filter.filter)}`}
-            >
-              <span className="flex-grow">{filter.label}</span>
-              <span>
-                <IconXMark />
-              </span>
-            </Link>
-          );
-        })}
-      </div>
+      <AppliedFilterChips filters={filters} />
     </>
   );
 }
 
+function AppliedFilterChips({filters = []}: {filters: AppliedFilter[]}) {
+  const [params] = useSearchParams();
+  const location = useLocation();
+  return (
+    <div className="flex flex-wrap gap-2">
+      {filters.map((filter: AppliedFilter) => {
+        return (
+          <Link
+            to={getAppliedFilterLink(filter, params, location)}
+            className="flex px-2 border rounded-full gap"
+            key={`${filter.label}-${JSON.stringify(filter.filter)}`}
+          >
+            <span className="flex-grow">{filter.label}</span>
+            <span>
+              <IconXMark />
+            </span>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
+
 function getAppliedFilterLink(
   filter: AppliedFilter,
   params: URLSearchParams,
@@ -314,26 +332,43 @@ function filterInputToParams(
   return params;
 }
 
-export default function SortMenu() {
-  const items: {label: string; key: SortParam}[] = [
-    {label: 'Featured', key: 'featured'},
-    {
-      label: 'Price: Low - High',
-      key: 'price-low-high',
-    },
-    {
-      label: 'Price: High - Low',
-      key: 'price-high-low',
-    },
-    {
-      label: 'Best Selling',
-      key: 'best-selling',
-    },
-    {
-      label: 'Newest',
-      key: 'newest',
-    },
-  ];
+const SORT_ITEMS: {label: string; key: SortParam}[] = [
+  {label: 'Featured', key: 'featured'},
+  {label: 'Relevance', key: 'relevance'},
+  {
+    label: 'Price: Low - High',
+    key: 'price-low-high',
+  },
+  {
+    label: 'Price: High - Low',
+    key: 'price-high-low',
+  },
+  {
+    label: 'Best Selling',
+    key: 'best-selling',
+  },
+  {
+    label: 'Newest',
+    key: 'newest',
+  },
+];
+
+const DEFAULT_SORT_KEYS: SortParam[] = [
+  'featured',
+  'price-low-high',
+  'price-high-low',
+  'best-selling',
+  'newest',
+];
+
+export default function SortMenu({
+  sortKeys = DEFAULT_SORT_KEYS,
+}: {
+  sortKeys?: SortParam[];
+}) {
+  const items = sortKeys.flatMap(
+    (key) => SORT_ITEMS.find((item) => item.key === key) ?? [],
+  );
   const [params] = useSearchParams();
   const location = useLocation();
   const activeItem = items.find((item) => item.key === params.get('sort'));
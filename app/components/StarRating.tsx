@@ -0,0 +1,41 @@
+import clsx from 'clsx';
+
+import {Text} from '~/components/Text';
+
+export function StarRating({
+  rating,
+  count,
+  className,
+}: {
+  rating: number;
+  count?: number;
+  className?: string;
+}) {
+  const percentage = (Math.min(5, Math.max(0, rating)) / 5) * 100;
+
+  return (
+    <div
+      className={clsx('flex items-center gap-2', className)}
+      aria-label={`Rated ${rating} out of 5`}
+      role="img"
+    >
+      <span className="relative inline-block leading-none tracking-wider">
+        <span className="text-primary/20" aria-hidden>
+          ★★★★★
+        </span>
+        <span
+          className="absolute inset-0 overflow-hidden text-primary whitespace-nowrap"
+          style={{width: `${percentage}%`}}
+          aria-hidden
+        >
+          ★★★★★
+        </span>
+      </span>
+      {count !== undefined && (
+        <Text size="fine" color="subtle">
+          ({count})
+        </Text>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import clsx from 'clsx';
+import {Suspense} from 'react';
+import {Await, useFetcher, useRouteLoaderData} from '@remix-run/react';
+
+import {IconHeart} from '~/components/Icon';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+import type {RootLoader} from '~/root';
+
+/**
+ * Heart toggle adding a product to the shopper's wishlist. The state comes
+ * from the root loader, which revalidates once the toggle is saved.
+ */
+export function WishlistButton({
+  productId,
+  className,
+}: {
+  productId: string;
+  className?: string;
+}) {
+  const rootData = useRouteLoaderData<RootLoader>('root');
+  const fallback = (
+    <WishlistToggle
+      productId={productId}
+      isListed={false}
+      className={className}
+    />
+  );
+
+  return (
+    <Suspense fallback={fallback}>
+      <Await resolve={rootData?.wishlist} errorElement={fallback}>
+        {(wishlist) => (
+          <WishlistToggle
+            productId={productId}
+            isListed={Boolean(wishlist?.includes(productId))}
+            className={className}
+          />
+        )}
+      </Await>
+    </Suspense>
+  );
+}
+
+function WishlistToggle({
+  productId,
+  isListed,
+  className,
+}: {
+  productId: string;
+  isListed: boolean;
+  className?: string;
+}) {
+  const fetcher = useFetcher();
+  const wishlistApiPath = usePrefixPathWithLocale('/api/wishlist');
+
+  const pendingIntent = fetcher.formData?.get('intent');
+  const listed = pendingIntent ? pendingIntent === 'add' : isListed;
+
+  return (
+    <fetcher.Form method="post" action={wishlistApiPath} className={className}>
+      <input type="hidden" name="productId" value={productId} />
+      <button
+        type="submit"
+        name="intent"
+        value={listed ? 'remove' : 'add'}
+        aria-pressed={listed}
+        aria-label={listed ? 'Remove from wishlist' : 'Add to wishlist'}
+        className={clsx(
+          'flex items-center justify-center w-9 h-9 rounded-full bg-contrast/80 transition hover:text-notice',
+          listed ? 'text-notice' : 'text-primary',
+        )}
+      >
+        <IconHeart filled={listed} />
+      </button>
+    </fetcher.Form>
+  );
+}
@@ -44,6 +44,12 @@ export const PRODUCT_CARD_FRAGMENT = `#graphql
     publishedAt
     handle
     vendor
+    rating: metafield(namespace: "reviews", key: "rating") {
+      value
+    }
+    ratingCount: metafield(namespace: "reviews", key: "rating_count") {
+      value
+    }
     variants(first: 1) {
       nodes {
         id
@@ -88,3 +94,235 @@ export const FEATURED_COLLECTION_FRAGMENT = `#graphql
     }
   }
 `;
+
+export const PRODUCT_VARIANT_FRAGMENT = `#graphql
+  fragment ProductVariant on ProductVariant {
+    id
+    availableForSale
+    selectedOptions {
+      name
+      value
+    }
+    image {
+      id
+      url
+      altText
+      width
+      height
+    }
+    price {
+      amount
+      currencyCode
+    }
+    compareAtPrice {
+      amount
+      currencyCode
+    }
+    sku
+    title
+    unitPrice {
+      amount
+      currencyCode
+    }
+    product {
+      title
+      handle
+    }
+    sellingPlanAllocations(first: 10) {
+      nodes {
+        sellingPlan {
+          id
+        }
+        priceAdjustments {
+          price {
+            amount
+            currencyCode
+          }
+          compareAtPrice {
+            amount
+            currencyCode
+          }
+          perDeliveryPrice {
+            amount
+            currencyCode
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Subscription options of a product. The price of each plan depends on the
+ * variant, see `sellingPlanAllocations` in `PRODUCT_VARIANT_FRAGMENT`.
+ */
+export const SELLING_PLAN_GROUP_FRAGMENT = `#graphql
+  fragment SellingPlanGroup on SellingPlanGroup {
+    name
+    sellingPlans(first: 10) {
+      nodes {
+        id
+        name
+        description
+        recurringDeliveries
+        priceAdjustments {
+          orderCount
+          adjustmentValue {
+            __typename
+            ... on SellingPlanPercentagePriceAdjustment {
+              adjustmentPercentage
+            }
+            ... on SellingPlanFixedAmountPriceAdjustment {
+              adjustmentAmount {
+                amount
+                currencyCode
+              }
+            }
+            ... on SellingPlanFixedPriceAdjustment {
+              price {
+                amount
+                currencyCode
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Hydrogen's default cart query, extended with the gift cards applied to the
+ * cart and the selling plans of its lines. Passed to `createCartHandler` in
+ * `server.ts`.
+ */
+export const CART_QUERY_FRAGMENT = `#graphql
+  fragment CartApiQuery on Cart {
+    updatedAt
+    id
+    checkoutUrl
+    totalQuantity
+    buyerIdentity {
+      countryCode
+      customer {
+        id
+        email
+        firstName
+        lastName
+        displayName
+      }
+      email
+      phone
+    }
+    lines(first: $numCartLines) {
+      edges {
+        node {
+          id
+          quantity
+          attributes {
+            key
+            value
+          }
+          sellingPlanAllocation {
+            sellingPlan {
+              id
+              name
+            }
+            priceAdjustments {
+              perDeliveryPrice {
+                ...CartApiMoney
+              }
+            }
+          }
+          cost {
+            totalAmount {
+              amount
+              currencyCode
+            }
+            amountPerQuantity {
+              amount
+              currencyCode
+            }
+            compareAtAmountPerQuantity {
+              amount
+              currencyCode
+            }
+          }
+          merchandise {
+            ... on ProductVariant {
+              id
+              availableForSale
+              compareAtPrice {
+                ...CartApiMoney
+              }
+              price {
+                ...CartApiMoney
+              }
+              requiresShipping
+              title
+              image {
+                ...CartApiImage
+              }
+              product {
+                handle
+                title
+                id
+                vendor
+              }
+              selectedOptions {
+                name
+                value
+              }
+            }
+          }
+        }
+      }
+    }
+    cost {
+      subtotalAmount {
+        ...CartApiMoney
+      }
+      totalAmount {
+        ...CartApiMoney
+      }
+      totalDutyAmount {
+        ...CartApiMoney
+      }
+      totalTaxAmount {
+        ...CartApiMoney
+      }
+    }
+    note
+    attributes {
+      key
+      value
+    }
+    discountCodes {
+      applicable
+      code
+    }
+    appliedGiftCards {
+      id
+      lastCharacters
+      balance {
+        ...CartApiMoney
+      }
+      presentmentAmountUsed {
+        ...CartApiMoney
+      }
+    }
+  }
+
+  fragment CartApiMoney on MoneyV2 {
+    currencyCode
+    amount
+  }
+
+  fragment CartApiImage on Image {
+    id
+    url
+    altText
+    width
+    height
+  }
+`;
@@ -0,0 +1,11 @@
+// NOTE: https://shopify.dev/docs/api/customer/latest/queries/customer
+export const CUSTOMER_EMAIL_QUERY = `#graphql
+  query CustomerEmail {
+    customer {
+      id
+      emailAddress {
+        emailAddress
+      }
+    }
+  }
+` as const;
@@ -0,0 +1,23 @@
+// NOTE: https://shopify.dev/docs/api/customer/latest/objects/Customer#field-metafield
+export const CUSTOMER_LIST_QUERY = `#graphql
+  query CustomerList($key: String!) {
+    customer {
+      id
+      list: metafield(namespace: "custom", key: $key) {
+        value
+      }
+    }
+  }
+` as const;
+
+// NOTE: https://shopify.dev/docs/api/customer/latest/mutations/metafieldsSet
+export const CUSTOMER_LIST_UPDATE_MUTATION = `#graphql
+  mutation CustomerListUpdate($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+` as const;
@@ -17,6 +17,7 @@ export const CUSTOMER_ORDER_QUERY = `#graphql
   }
   fragment OrderLineItemFull on LineItem {
     id
+    productId
     title
     quantity
     price {
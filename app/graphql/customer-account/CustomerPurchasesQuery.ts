@@ -0,0 +1,15 @@
+// NOTE: https://shopify.dev/docs/api/customer/latest/queries/customer
+export const CUSTOMER_PURCHASES_QUERY = `#graphql
+  query CustomerPurchases {
+    customer {
+      id
+      firstName
+      lastName
+      orders(first: 20, sortKey: PROCESSED_AT, reverse: true) {
+        nodes {
+          id
+        }
+      }
+    }
+  }
+` as const;
@@ -0,0 +1,12 @@
+export const EFFECT_CONFIG_FRAGMENT = `#graphql
+  fragment EffectConfigFields on Metaobject {
+    id
+    type
+    handle
+    fields {
+      key
+      value
+      type
+    }
+  }
+` as const;
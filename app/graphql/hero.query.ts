@@ -1,4 +1,15 @@
+import {MEDIA_FRAGMENT} from '~/data/fragments';
+
 export const HERO_PARALLAX_FRAGMENT = `#graphql
+  fragment HeroSlideMedia on Media {
+    ...Media
+    ... on MediaImage {
+      image {
+        altText
+      }
+    }
+  }
+
   fragment HeroParallaxFields on Metaobject {
     id
     type
@@ -8,18 +19,28 @@ export const HERO_PARALLAX_FRAGMENT = `#graphql
       value
       type
       reference {
-        ... on MediaImage {
-          image {
+        ...HeroSlideMedia
+      }
+      references(first: 10) {
+        nodes {
+          ... on Metaobject {
             id
-            url
-            altText
-            width
-            height
+            type
+            handle
+            fields {
+              key
+              value
+              type
+              reference {
+                ...HeroSlideMedia
+              }
+            }
           }
         }
       }
     }
   }
+  ${MEDIA_FRAGMENT}
 ` as const;
 
 export const HERO_PARALLAX_QUERY = `#graphql
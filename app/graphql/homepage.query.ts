@@ -0,0 +1,19 @@
+export const HOMEPAGE_SECTIONS_QUERY = `#graphql
+  query GetHomepageSections($handle: String!) {
+    metaobject(handle: {type: "homepage", handle: $handle}) {
+      id
+      handle
+      sections: field(key: "sections") {
+        references(first: 25) {
+          nodes {
+            ... on Metaobject {
+              id
+              type
+              handle
+            }
+          }
+        }
+      }
+    }
+  }
+` as const;
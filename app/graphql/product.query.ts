@@ -1,3 +1,39 @@
+import {EFFECT_CONFIG_FRAGMENT} from './effect.query';
+
+export const SHOWCASE_PRODUCT_FRAGMENT = `#graphql
+  fragment ShowcaseProduct on Product {
+    id
+    title
+    handle
+    availableForSale
+    priceRange {
+      minVariantPrice {
+        amount
+        currencyCode
+      }
+    }
+    featuredImage {
+      id
+      url
+      altText
+      width
+      height
+    }
+    selectedOrFirstAvailableVariant {
+      id
+      availableForSale
+      price {
+        amount
+        currencyCode
+      }
+      compareAtPrice {
+        amount
+        currencyCode
+      }
+    }
+  }
+` as const;
+
 export const PRODUCT_SHOWCASE_FRAGMENT = `#graphql
   fragment ProductShowcaseFields on Metaobject {
     id
@@ -7,30 +43,23 @@ export const PRODUCT_SHOWCASE_FRAGMENT = `#graphql
       key
       value
       type
+      reference {
+        ... on Metaobject {
+          ...EffectConfigFields
+        }
+        ... on Collection {
+          handle
+        }
+      }
       references(first: 20) {
         nodes {
-          ... on Product {
-            id
-            title
-            handle
-            priceRange {
-              minVariantPrice {
-                amount
-                currencyCode
-              }
-            }
-            featuredImage {
-              id
-              url
-              altText
-              width
-              height
-            }
-          }
+          ...ShowcaseProduct
         }
       }
     }
   }
+  ${EFFECT_CONFIG_FRAGMENT}
+  ${SHOWCASE_PRODUCT_FRAGMENT}
 ` as const;
 
 export const PRODUCT_SHOWCASE_QUERY = `#graphql
@@ -41,3 +70,49 @@ export const PRODUCT_SHOWCASE_QUERY = `#graphql
   }
   ${PRODUCT_SHOWCASE_FRAGMENT}
 ` as const;
+
+export const SHOWCASE_COLLECTION_QUERY = `#graphql
+  query GetShowcaseCollection(
+    $handle: String!
+    $sortKey: ProductCollectionSortKeys!
+    $reverse: Boolean
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    collection(handle: $handle) {
+      products(first: 20, sortKey: $sortKey, reverse: $reverse) {
+        nodes {
+          ...ShowcaseProduct
+        }
+      }
+    }
+  }
+  ${SHOWCASE_PRODUCT_FRAGMENT}
+` as const;
+
+export const SHOWCASE_AVAILABILITY_QUERY = `#graphql
+  query GetShowcaseAvailability(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        availableForSale
+        selectedOrFirstAvailableVariant {
+          id
+          availableForSale
+          price {
+            amount
+            currencyCode
+          }
+          compareAtPrice {
+            amount
+            currencyCode
+          }
+        }
+      }
+    }
+  }
+` as const;
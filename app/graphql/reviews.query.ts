@@ -1,33 +1,73 @@
+import {EFFECT_CONFIG_FRAGMENT} from './effect.query';
+
+export const REVIEWS_SECTION_FRAGMENT = `#graphql
+  fragment ReviewsSectionFields on Metaobject {
+    id
+    type
+    handle
+    fields {
+      key
+      value
+      type
+      reference {
+        ... on Metaobject {
+          ...EffectConfigFields
+        }
+      }
+      references(first: 50) {
+        nodes {
+          ... on Metaobject {
+            id
+            type
+            handle
+            fields {
+              key
+              value
+              type
+              reference {
+                ... on MediaImage {
+                  image {
+                    url
+                    altText
+                    width
+                    height
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  ${EFFECT_CONFIG_FRAGMENT}
+` as const;
+
 export const REVIEWS_SECTION_QUERY = `#graphql
   query GetReviewsSection($handle: String!) {
     metaobject(handle: {type: "section_reviews", handle: $handle}) {
+      ...ReviewsSectionFields
+    }
+  }
+  ${REVIEWS_SECTION_FRAGMENT}
+` as const;
+
+export const PRODUCT_REVIEWS_QUERY = `#graphql
+  query GetProductReviews($handle: String!) {
+    product(handle: $handle) {
       id
-      type
-      handle
-      fields {
-        key
-        value
-        type
-        references(first: 50) {
+      reviews: metafield(namespace: "custom", key: "product_reviews") {
+        references(first: 250) {
           nodes {
             ... on Metaobject {
               id
               type
               handle
+              updatedAt
               fields {
                 key
                 value
                 type
-                reference {
-                  ... on MediaImage {
-                    image {
-                      url
-                      altText
-                      width
-                      height
-                    }
-                  }
-                }
               }
             }
           }
@@ -0,0 +1,34 @@
+import {useEffect} from 'react';
+import {useFetcher} from '@remix-run/react';
+
+import type {ProductCardFragment} from 'storefrontapi.generated';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+
+const RECOMMENDATIONS_COUNT = 20;
+
+/**
+ * Cross-sells then upsells for the products in the cart, loaded once for the
+ * whole cart and shared by the parts of it that suggest products. Reloads
+ * when the cart's products change.
+ */
+export function useCartRecommendations(productIds: string[]) {
+  const {load, data, state} = useFetcher<{products: ProductCardFragment[]}>();
+  const query = [
+    ...productIds.map((id) => `productId=${encodeURIComponent(id)}`),
+    'intent=COMPLEMENTARY',
+    'intent=RELATED',
+    `count=${RECOMMENDATIONS_COUNT}`,
+  ].join('&');
+  const recommendationsApiPath = usePrefixPathWithLocale(
+    `/api/recommendations?${query}`,
+  );
+  const hasProducts = productIds.length > 0;
+
+  useEffect(() => {
+    if (hasProducts) load(recommendationsApiPath);
+  }, [hasProducts, load, recommendationsApiPath]);
+
+  return {products: data?.products ?? null, state};
+}
+
+export type CartRecommendationsData = ReturnType<typeof useCartRecommendations>;
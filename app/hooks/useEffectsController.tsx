@@ -0,0 +1,124 @@
+import {useCallback, useEffect, useRef, useState, type RefObject} from 'react';
+
+/** Frame budget on low-end devices, ~30fps */
+const LOW_END_FRAME_INTERVAL = 1000 / 30;
+
+type RenderFrame = (time: number) => void;
+
+function isLowEndDevice() {
+  const nav = navigator as Navigator & {
+    deviceMemory?: number;
+    connection?: {saveData?: boolean};
+  };
+
+  return (
+    (nav.hardwareConcurrency ?? 8) <= 4 ||
+    (nav.deviceMemory ?? 8) <= 4 ||
+    Boolean(nav.connection?.saveData)
+  );
+}
+
+/**
+ * Shared render loop for the WebGL background effects. Frames only run while
+ * the container is on screen and the tab is visible, are capped on low-end
+ * devices, and stop entirely when the visitor prefers reduced motion or the
+ * WebGL context can't be created or gets lost. In the last two cases
+ * `showFallback` is set so the effect can render a static gradient instead.
+ */
+export function useEffectsController(containerRef: RefObject<HTMLElement>) {
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
+  const [isOnscreen, setIsOnscreen] = useState(false);
+  const [isPageVisible, setIsPageVisible] = useState(true);
+  const [hasFailed, setHasFailed] = useState(false);
+  const [hasRenderer, setHasRenderer] = useState(false);
+  const renderRef = useRef<RenderFrame | null>(null);
+
+  useEffect(() => {
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const handleChange = () => setPrefersReducedMotion(query.matches);
+
+    handleChange();
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setIsPageVisible(!document.hidden);
+
+    handleChange();
+    document.addEventListener('visibilitychange', handleChange);
+    return () => document.removeEventListener('visibilitychange', handleChange);
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsOnscreen(entry.isIntersecting),
+      {threshold: 0},
+    );
+
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  const showFallback = prefersReducedMotion || hasFailed;
+  const isActive = isOnscreen && isPageVisible && hasRenderer && !showFallback;
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const frameInterval = isLowEndDevice() ? LOW_END_FRAME_INTERVAL : 0;
+    let lastFrame = -Infinity;
+    let frameId = requestAnimationFrame(function loop(time) {
+      frameId = requestAnimationFrame(loop);
+      if (time - lastFrame < frameInterval) return;
+
+      lastFrame = time;
+      renderRef.current?.(time);
+    });
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isActive]);
+
+  /**
+   * Registers the function drawing a frame. Returns a cleanup that stops it.
+   */
+  const startLoop = useCallback((render: RenderFrame) => {
+    renderRef.current = render;
+    setHasRenderer(true);
+
+    return () => {
+      if (renderRef.current !== render) return;
+      renderRef.current = null;
+      setHasRenderer(false);
+    };
+  }, []);
+
+  const reportFailure = useCallback((error?: unknown) => {
+    // eslint-disable-next-line no-console
+    if (error) console.warn('WebGL effect disabled:', error);
+    setHasFailed(true);
+  }, []);
+
+  /**
+   * Switches to the fallback when the browser drops the WebGL context, e.g.
+   * when too many contexts are open or the GPU is reset.
+   */
+  const watchContextLoss = useCallback(
+    (canvas: HTMLCanvasElement) => {
+      const handleContextLost = (event: Event) => {
+        event.preventDefault();
+        reportFailure();
+      };
+
+      canvas.addEventListener('webglcontextlost', handleContextLost);
+      return () =>
+        canvas.removeEventListener('webglcontextlost', handleContextLost);
+    },
+    [reportFailure],
+  );
+
+  return {showFallback, startLoop, reportFailure, watchContextLoss};
+}
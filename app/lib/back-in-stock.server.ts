@@ -0,0 +1,98 @@
+export type BackInStockSubscription = {
+  id: string;
+  variantId: string;
+  /** Lowercased, so a shopper is only subscribed once per variant */
+  email: string;
+  customerId: string | null;
+  createdAt: string;
+};
+
+/**
+ * Stores back-in-stock sign-ups, added to the Remix load context in
+ * `server.ts`. Swap the implementation to hand sign-ups to the service that
+ * sends the notifications, e.g. an email marketing platform.
+ */
+export interface BackInStockAdapter {
+  /**
+   * Returns `false` when the email was already subscribed to the variant,
+   * the existing subscription is kept.
+   */
+  subscribe(subscription: BackInStockSubscription): Promise<boolean>;
+}
+
+/**
+ * Posts each sign-up as JSON to the service sending the notifications. The
+ * service answers `409 Conflict` when the email is already subscribed to
+ * the variant.
+ */
+export function createWebhookBackInStockAdapter({
+  url,
+  token,
+}: {
+  url: string;
+  token?: string;
+}): BackInStockAdapter {
+  return {
+    async subscribe(subscription) {
+      const response = await fetch(url, {
+        method: 'POST',
+        body: JSON.stringify(subscription),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? {Authorization: `Bearer ${token}`} : {}),
+        },
+      });
+
+      if (response.status === 409) return false;
+      if (!response.ok) {
+        throw new Error(
+          `Back-in-stock webhook responded with ${response.status}`,
+        );
+      }
+
+      return true;
+    },
+  };
+}
+
+/**
+ * Keeps sign-ups in memory. Only suitable for local development and tests,
+ * since the list is lost whenever the worker restarts.
+ */
+export function createMemoryBackInStockAdapter() {
+  const subscriptions: BackInStockSubscription[] = [];
+
+  return {
+    subscriptions,
+    async subscribe(subscription) {
+      const isSubscribed = subscriptions.some(
+        ({variantId, email}) =>
+          variantId === subscription.variantId && email === subscription.email,
+      );
+      if (isSubscribed) return false;
+
+      subscriptions.push(subscription);
+      return true;
+    },
+  } satisfies BackInStockAdapter & {
+    subscriptions: BackInStockSubscription[];
+  };
+}
+
+/**
+ * The adapter configured in `env`, the memory adapter in development. `null`
+ * in production without a webhook, so sign-ups fail closed.
+ */
+export function getBackInStockAdapter(
+  env: Env,
+  memoryAdapter: BackInStockAdapter | null,
+) {
+  if (env.BACK_IN_STOCK_WEBHOOK_URL) {
+    return createWebhookBackInStockAdapter({
+      url: env.BACK_IN_STOCK_WEBHOOK_URL,
+      token: env.BACK_IN_STOCK_WEBHOOK_TOKEN,
+    });
+  }
+
+  return process.env.NODE_ENV === 'development' ? memoryAdapter : null;
+}
@@ -0,0 +1,264 @@
+import type {
+  AttributeInput,
+  CartLineInput,
+} from '@shopify/hydrogen/storefront-api-types';
+
+import {
+  CART_ATTRIBUTES,
+  CartInputError,
+  LINE_ATTRIBUTES,
+  validateAttributes,
+  validateCartNote,
+} from './cart';
+import type {Storefront} from './type';
+
+const VARIANT_GID_PREFIX = 'gid://shopify/ProductVariant/';
+const SELLING_PLAN_GID_PREFIX = 'gid://shopify/SellingPlan/';
+
+/** `properties[<line position>][<key>]`, positions start at 1 */
+const LINE_ATTRIBUTE_PARAM = /^properties\[(\d+)\]\[(.+)\]$/;
+/** `attributes[<key>]` */
+const CART_ATTRIBUTE_PARAM = /^attributes\[(.+)\]$/;
+
+export type CartPermalinkLine = {
+  /** The `<variant_id>:<quantity>[:<selling_plan_id>]` part of the path */
+  segment: string;
+  line: CartLineInput;
+};
+
+export type CartPermalink = {
+  lines: CartPermalinkLine[];
+  discountCodes: string[];
+  note?: string;
+  attributes: AttributeInput[];
+  /** Where the shopper lands once the cart is ready */
+  redirect: 'checkout' | 'cart';
+  /** `merge` adds the lines to the shopper's cart instead of a new one */
+  mode: 'create' | 'merge';
+};
+
+export type CartPermalinkError = {
+  /** Path segment of the line that failed, missing for cart-level errors */
+  segment?: string;
+  message: string;
+};
+
+function toCartPermalinkError(error: unknown, segment?: string) {
+  if (error instanceof CartInputError) {
+    return {segment, message: error.message};
+  }
+  throw error;
+}
+
+/**
+ * Reads a cart permalink, e.g.
+ * `/cart/41007289663544:1,41007289696312:2:1234?discount=A,B&note=Hi`
+ * Lines that can't be read are reported in `errors` and left out of the
+ * permalink, so the rest of the cart can still be built.
+ */
+export function parseCartPermalink(
+  linesParam: string,
+  searchParams: URLSearchParams,
+) {
+  const errors: CartPermalinkError[] = [];
+  const lineAttributes = new Map<number, AttributeInput[]>();
+  const cartAttributes: AttributeInput[] = [];
+
+  for (const [name, value] of searchParams) {
+    const lineMatch = name.match(LINE_ATTRIBUTE_PARAM);
+    if (lineMatch) {
+      const position = Number(lineMatch[1]);
+      lineAttributes.set(position, [
+        ...(lineAttributes.get(position) ?? []),
+        {key: lineMatch[2], value},
+      ]);
+      continue;
+    }
+
+    const cartMatch = name.match(CART_ATTRIBUTE_PARAM);
+    if (cartMatch) cartAttributes.push({key: cartMatch[1], value});
+  }
+
+  const lines = linesParam.split(',').flatMap((segment, index) => {
+    const [variantId, quantity, sellingPlanId, ...rest] = segment.split(':');
+    const isValid =
+      /^\d+$/.test(variantId) &&
+      /^\d+$/.test(quantity ?? '') &&
+      Number(quantity) > 0 &&
+      (sellingPlanId === undefined || /^\d+$/.test(sellingPlanId)) &&
+      !rest.length;
+
+    if (!isValid) {
+      errors.push({
+        segment,
+        message:
+          'Expected <variant_id>:<quantity>, optionally followed by :<selling_plan_id>',
+      });
+      return [];
+    }
+
+    try {
+      const line: CartLineInput = {
+        merchandiseId: `${VARIANT_GID_PREFIX}${variantId}`,
+        quantity: Number(quantity),
+        attributes: validateAttributes(
+          lineAttributes.get(index + 1),
+          LINE_ATTRIBUTES,
+        ),
+      };
+      if (sellingPlanId) {
+        line.sellingPlanId = `${SELLING_PLAN_GID_PREFIX}${sellingPlanId}`;
+      }
+      return [{segment, line}];
+    } catch (error) {
+      errors.push(toCartPermalinkError(error, segment));
+      return [];
+    }
+  });
+
+  let note: string | undefined;
+  try {
+    note = validateCartNote(searchParams.get('note')) || undefined;
+  } catch (error) {
+    errors.push(toCartPermalinkError(error));
+  }
+
+  let attributes: AttributeInput[] = [];
+  try {
+    attributes = validateAttributes(cartAttributes, CART_ATTRIBUTES);
+  } catch (error) {
+    errors.push(toCartPermalinkError(error));
+  }
+
+  const discountCodes = searchParams
+    .getAll('discount')
+    .flatMap((codes) => codes.split(','))
+    .map((code) => code.trim())
+    .filter(Boolean);
+
+  const permalink: CartPermalink = {
+    lines,
+    discountCodes: [...new Set(discountCodes)],
+    note,
+    attributes,
+    redirect: searchParams.get('redirect') === 'cart' ? 'cart' : 'checkout',
+    mode: searchParams.get('mode') === 'merge' ? 'merge' : 'create',
+  };
+
+  return {permalink, errors};
+}
+
+/**
+ * Builds the path of a permalink, the reverse of `parseCartPermalink`.
+ */
+export function getCartPermalinkPath(permalink: CartPermalink) {
+  const searchParams = new URLSearchParams();
+
+  const segments = permalink.lines.map(({line}, index) => {
+    for (const {key, value} of line.attributes ?? []) {
+      searchParams.append(`properties[${index + 1}][${key}]`, value);
+    }
+
+    return [
+      line.merchandiseId.replace(VARIANT_GID_PREFIX, ''),
+      line.quantity ?? 1,
+      ...(line.sellingPlanId
+        ? [line.sellingPlanId.replace(SELLING_PLAN_GID_PREFIX, '')]
+        : []),
+    ].join(':');
+  });
+
+  if (permalink.discountCodes.length) {
+    searchParams.set('discount', permalink.discountCodes.join(','));
+  }
+  if (permalink.note) searchParams.set('note', permalink.note);
+  for (const {key, value} of permalink.attributes) {
+    searchParams.append(`attributes[${key}]`, value);
+  }
+  if (permalink.redirect === 'cart') searchParams.set('redirect', 'cart');
+  if (permalink.mode === 'merge') searchParams.set('mode', 'merge');
+
+  const search = searchParams.toString();
+  return `/cart/${segments.join(',')}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Checks the variants of a permalink can still be bought, with the selling
+ * plan given in the link when there is one.
+ */
+export async function getUnavailablePermalinkLines(
+  storefront: Storefront,
+  lines: CartPermalinkLine[],
+) {
+  if (!lines.length) return [];
+
+  const {nodes} = await storefront.query(CART_PERMALINK_VARIANTS_QUERY, {
+    variables: {
+      ids: lines.map(({line}) => line.merchandiseId),
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheNone(),
+  });
+
+  return lines.flatMap(({segment, line}): CartPermalinkError[] => {
+    const variant = nodes.find(
+      (node) => node && 'id' in node && node.id === line.merchandiseId,
+    );
+
+    if (!variant || !('product' in variant)) {
+      return [{segment, message: 'This product is no longer available'}];
+    }
+
+    const {title} = variant.product;
+    if (!variant.availableForSale) {
+      return [{segment, message: `${title} is sold out`}];
+    }
+
+    if (!line.sellingPlanId && variant.product.requiresSellingPlan) {
+      return [
+        {segment, message: `${title} is only available as a subscription`},
+      ];
+    }
+
+    const hasSellingPlan = variant.sellingPlanAllocations.nodes.some(
+      (allocation) => allocation.sellingPlan.id === line.sellingPlanId,
+    );
+    if (line.sellingPlanId && !hasSellingPlan) {
+      return [
+        {
+          segment,
+          message: `This subscription option is no longer offered for ${title}`,
+        },
+      ];
+    }
+
+    return [];
+  });
+}
+
+const CART_PERMALINK_VARIANTS_QUERY = `#graphql
+  query CartPermalinkVariants(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        availableForSale
+        product {
+          title
+          requiresSellingPlan
+        }
+        sellingPlanAllocations(first: 25) {
+          nodes {
+            sellingPlan {
+              id
+            }
+          }
+        }
+      }
+    }
+  }
+` as const;
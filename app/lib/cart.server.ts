@@ -0,0 +1,99 @@
+import type {CartQueryDataReturn, HydrogenCart} from '@shopify/hydrogen';
+
+import type {Storefront} from '~/lib/type';
+
+/**
+ * Hydrogen's cart handler has no method to remove gift cards, this one is
+ * registered through `customMethods` in `server.ts`.
+ */
+export function cartGiftCardCodesRemove({
+  storefront,
+  getCartId,
+}: {
+  storefront: Storefront;
+  getCartId: () => string | undefined;
+}) {
+  return async (appliedGiftCardIds: string[]): Promise<CartQueryDataReturn> => {
+    const cartId = getCartId();
+    if (!cartId) throw new Error('There is no cart to remove gift cards from');
+
+    const {cartGiftCardCodesRemove, errors} = await storefront.mutate(
+      CART_GIFT_CARD_CODES_REMOVE_MUTATION,
+      {variables: {cartId, appliedGiftCardIds}},
+    );
+
+    return {
+      cart: cartGiftCardCodesRemove?.cart as CartQueryDataReturn['cart'],
+      userErrors: cartGiftCardCodesRemove?.userErrors,
+      warnings: cartGiftCardCodesRemove?.warnings,
+      errors,
+    };
+  };
+}
+
+/**
+ * Adds discount codes to the ones already on the cart, updating discount
+ * codes otherwise replaces them.
+ */
+export async function addDiscountCodes(
+  cart: Pick<HydrogenCart, 'get' | 'updateDiscountCodes'>,
+  codes: string[],
+) {
+  const current = await cart.get();
+  const existingCodes = current?.discountCodes.map(({code}) => code) ?? [];
+
+  return cart.updateDiscountCodes([...new Set([...existingCodes, ...codes])]);
+}
+
+/**
+ * Codes the cart holds but can't use yet, e.g. when its items don't qualify.
+ */
+export async function getInapplicableDiscountCodes(
+  cart: Pick<HydrogenCart, 'get'>,
+  codes: string[],
+) {
+  const current = await cart.get();
+
+  return codes.filter(
+    (code) =>
+      !current?.discountCodes.some(
+        (discount) =>
+          discount.applicable &&
+          discount.code.toLowerCase() === code.toLowerCase(),
+      ),
+  );
+}
+
+export type CartCustomMethods = {
+  removeGiftCardCodes: ReturnType<typeof cartGiftCardCodesRemove>;
+};
+
+const CART_GIFT_CARD_CODES_REMOVE_MUTATION = `#graphql
+  mutation cartGiftCardCodesRemove(
+    $cartId: ID!
+    $appliedGiftCardIds: [ID!]!
+    $country: CountryCode = ZZ
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    cartGiftCardCodesRemove(
+      cartId: $cartId
+      appliedGiftCardIds: $appliedGiftCardIds
+    ) {
+      cart {
+        id
+        totalQuantity
+        checkoutUrl
+      }
+      userErrors {
+        message
+        field
+        code
+      }
+      warnings {
+        code
+        message
+        target
+      }
+    }
+  }
+` as const;
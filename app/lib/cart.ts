@@ -0,0 +1,174 @@
+import type {
+  AppliedGiftCard,
+  AttributeInput,
+  MoneyV2,
+} from '@shopify/hydrogen/storefront-api-types';
+
+export type CartAttributeDefinition = {
+  /** Attribute key, shown as is at checkout and on the order */
+  key: string;
+  maxLength: number;
+  multiline?: boolean;
+};
+
+export const CART_NOTE_MAX_LENGTH = 500;
+
+/** Cart-level attributes the storefront lets customers set */
+export const CART_ATTRIBUTES: CartAttributeDefinition[] = [
+  {key: 'Gift recipient', maxLength: 60},
+  {key: 'Gift message', maxLength: 250, multiline: true},
+];
+
+/** Attributes customers can set per cart line, e.g. when personalising an item */
+export const LINE_ATTRIBUTES: CartAttributeDefinition[] = [
+  {key: 'Engraving', maxLength: 30},
+  {key: 'Gift message', maxLength: 250, multiline: true},
+];
+
+/** Custom `CartForm` action updating the attributes of a single line */
+export const LINE_ATTRIBUTES_UPDATE_ACTION = 'CustomLineAttributesUpdate';
+
+/** Prefix of the form fields holding attribute values, e.g. `attribute:Engraving` */
+export const ATTRIBUTE_FIELD_PREFIX = 'attribute:';
+
+export class CartInputError extends Error {
+  field: string[];
+
+  constructor(field: string[], message: string) {
+    super(message);
+    this.name = 'CartInputError';
+    this.field = field;
+  }
+}
+
+/**
+ * Trims the note and checks it fits `CART_NOTE_MAX_LENGTH`.
+ */
+export function validateCartNote(note: unknown) {
+  if (note != null && typeof note !== 'string') {
+    throw new CartInputError(['note'], 'Note must be text');
+  }
+
+  const value = (note ?? '').trim();
+  if (value.length > CART_NOTE_MAX_LENGTH) {
+    throw new CartInputError(
+      ['note'],
+      `Note must be ${CART_NOTE_MAX_LENGTH} characters or fewer`,
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Checks attributes against the allowed keys and their maximum length. Values
+ * are trimmed and empty attributes dropped, so clearing a field removes the
+ * attribute from the cart.
+ */
+export function validateAttributes(
+  attributes: AttributeInput[] | null | undefined,
+  definitions: CartAttributeDefinition[],
+) {
+  const validated: AttributeInput[] = [];
+
+  for (const {key, value} of attributes ?? []) {
+    const definition = definitions.find((definition) => definition.key === key);
+    if (!definition) {
+      throw new CartInputError(
+        ['attributes', key],
+        `"${key}" can't be set on the cart`,
+      );
+    }
+
+    if (typeof value !== 'string') {
+      throw new CartInputError(['attributes', key], `${key} must be text`);
+    }
+
+    const trimmed = value.trim();
+    if (trimmed.length > definition.maxLength) {
+      throw new CartInputError(
+        ['attributes', key],
+        `${key} must be ${definition.maxLength} characters or fewer`,
+      );
+    }
+
+    if (trimmed) validated.push({key, value: trimmed});
+  }
+
+  return validated;
+}
+
+/**
+ * Collects the `attribute:<key>` fields submitted with a `CartForm`.
+ */
+export function getAttributesFromFormInputs(inputs: Record<string, unknown>) {
+  return Object.entries(inputs)
+    .filter(([name]) => name.startsWith(ATTRIBUTE_FIELD_PREFIX))
+    .map(([name, value]) => ({
+      key: name.slice(ATTRIBUTE_FIELD_PREFIX.length),
+      value: value as string,
+    }));
+}
+
+/** Search param opening the cart drawer on load, e.g. `/?cart=open` */
+export const CART_DRAWER_PARAM = 'cart';
+
+/** Custom `CartForm` action removing an applied gift card */
+export const GIFT_CARD_REMOVE_ACTION = 'CustomGiftCardCodesRemove';
+
+/**
+ * Normalises a gift card code typed by a customer, which may contain spaces
+ * or dashes between groups of characters.
+ */
+export function validateGiftCardCode(code: unknown) {
+  const value = typeof code === 'string' ? code.replace(/[\s-]/g, '') : '';
+  if (!/^[a-z0-9]{8,20}$/i.test(value)) {
+    throw new CartInputError(['giftCardCode'], 'Enter a valid gift card code');
+  }
+
+  return value.toLowerCase();
+}
+
+/** Whether a code belongs to a gift card the cart only knows the end of */
+export function matchesGiftCard(
+  code: string,
+  giftCard: Pick<AppliedGiftCard, 'lastCharacters'>,
+) {
+  return (
+    code.slice(-giftCard.lastCharacters.length).toLowerCase() ===
+    giftCard.lastCharacters.toLowerCase()
+  );
+}
+
+export function maskGiftCardCode(lastCharacters: string) {
+  return `•••• ${lastCharacters.toUpperCase()}`;
+}
+
+/**
+ * What is left to pay once the applied gift cards are used, never below zero.
+ */
+export function getTotalAfterGiftCards(
+  totalAmount: MoneyV2,
+  appliedGiftCards: Pick<AppliedGiftCard, 'presentmentAmountUsed'>[],
+): MoneyV2 {
+  const toCents = (money: MoneyV2) => Math.round(Number(money.amount) * 100);
+  const usedCents = appliedGiftCards.reduce(
+    (sum, giftCard) => sum + toCents(giftCard.presentmentAmountUsed),
+    0,
+  );
+  const remainingCents = Math.max(0, toCents(totalAmount) - usedCents);
+
+  return {
+    amount: (remainingCents / 100).toFixed(2),
+    currencyCode: totalAmount.currencyCode,
+  };
+}
+
+/** Custom `CartForm` action moving a line to the saved for later list */
+export const SAVE_FOR_LATER_ACTION = 'CustomLineSaveForLater';
+
+/** Custom `CartForm` action moving a saved line back into the cart */
+export const MOVE_TO_CART_ACTION = 'CustomSavedLineMoveToCart';
+
+/** Custom `CartForm` action moving a line's product to the wishlist */
+export const MOVE_TO_WISHLIST_ACTION = 'CustomLineMoveToWishlist';
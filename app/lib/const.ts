@@ -1,6 +1,8 @@
 export const PAGINATION_SIZE = 8;
 export const DEFAULT_GRID_IMG_LOAD_EAGER_COUNT = 4;
 export const ATTR_LOADING_EAGER = 'eager';
+/** Blog listed at `/journal`, the only blog with article pages */
+export const JOURNAL_BLOG_HANDLE = 'journal';
 
 export function getImageLoadingPriority(
   index: number,
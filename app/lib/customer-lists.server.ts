@@ -0,0 +1,211 @@
+import type {AppLoadContext, SessionData} from '@shopify/remix-oxygen';
+
+import {
+  CUSTOMER_LIST_QUERY,
+  CUSTOMER_LIST_UPDATE_MUTATION,
+} from '~/graphql/customer-account/CustomerListQuery';
+
+type CustomerLists = {
+  savedForLater: SavedCartLine[];
+  wishlist: WishlistItem[];
+};
+
+export type CustomerListName = keyof CustomerLists;
+
+export type SavedCartLine = {
+  merchandiseId: string;
+  quantity: number;
+  attributes?: {key: string; value: string}[];
+  sellingPlanId?: string;
+  savedAt: string;
+};
+
+export type WishlistItem = {
+  productId: string;
+  addedAt: string;
+};
+
+export type ListDefinition<T> = {
+  /** Key of the `custom` customer metafield, a JSON metafield definition */
+  metafieldKey: string;
+  getKey: (item: T) => string;
+  /** Keeps the metafield value small, guest lists are capped by size */
+  maxItems: number;
+};
+
+/**
+ * Guest lists share the session cookie with the customer tokens, and browsers
+ * drop cookies over 4 KB. The oldest items are left out past this JSON size.
+ */
+const GUEST_LIST_MAX_BYTES = 800;
+
+function limitGuestList<T>(items: T[]) {
+  const limited = [...items];
+  while (
+    limited.length &&
+    new TextEncoder().encode(JSON.stringify(limited)).length >
+      GUEST_LIST_MAX_BYTES
+  ) {
+    limited.pop();
+  }
+  return limited;
+}
+
+const LISTS: {
+  [N in CustomerListName]: ListDefinition<CustomerLists[N][number]>;
+} = {
+  savedForLater: {
+    metafieldKey: 'saved_for_later',
+    getKey: (line) => line.merchandiseId,
+    maxItems: 25,
+  },
+  wishlist: {
+    metafieldKey: 'wishlist',
+    getKey: (item) => item.productId,
+    maxItems: 30,
+  },
+};
+
+type ListContext = Pick<AppLoadContext, 'session' | 'customerAccount'>;
+
+/**
+ * Concatenates lists keeping the first item of each key, up to the list's
+ * `maxItems`.
+ */
+export function mergeItems<T>(definition: ListDefinition<T>, ...lists: T[][]) {
+  const items = new Map<string, T>();
+  for (const item of lists.flat()) {
+    const key = definition.getKey(item);
+    if (!items.has(key)) items.set(key, item);
+  }
+  return [...items.values()].slice(0, definition.maxItems);
+}
+
+function parseList<T>(value: string | null | undefined): T[] {
+  if (!value) return [];
+  try {
+    const list: unknown = JSON.parse(value);
+    return Array.isArray(list) ? (list as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function getCustomerMetafieldList<T>(
+  customerAccount: ListContext['customerAccount'],
+  definition: ListDefinition<T>,
+) {
+  const {data, errors} = await customerAccount.query(CUSTOMER_LIST_QUERY, {
+    variables: {key: definition.metafieldKey},
+  });
+
+  if (errors?.length || !data?.customer) {
+    throw new Error(
+      `Failed to load the ${definition.metafieldKey} customer list`,
+    );
+  }
+
+  return {
+    customerId: data.customer.id as string,
+    items: parseList<T>(data.customer.list?.value),
+  };
+}
+
+async function setCustomerMetafieldList<T>(
+  customerAccount: ListContext['customerAccount'],
+  definition: ListDefinition<T>,
+  customerId: string,
+  items: T[],
+) {
+  const {data, errors} = await customerAccount.mutate(
+    CUSTOMER_LIST_UPDATE_MUTATION,
+    {
+      variables: {
+        metafields: [
+          {
+            ownerId: customerId,
+            namespace: 'custom',
+            key: definition.metafieldKey,
+            type: 'json',
+            value: JSON.stringify(items),
+          },
+        ],
+      },
+    },
+  );
+
+  const error = errors?.[0] ?? data?.metafieldsSet?.userErrors?.[0];
+  if (error) {
+    throw new Error(
+      `Failed to save the ${definition.metafieldKey} customer list: ${error.message}`,
+    );
+  }
+}
+
+async function loadList<N extends CustomerListName>(
+  {session, customerAccount}: ListContext,
+  name: N,
+) {
+  const definition = LISTS[name] as ListDefinition<CustomerLists[N][number]>;
+  const guestItems = (session.get(name) ?? []) as CustomerLists[N];
+
+  if (!(await customerAccount.isLoggedIn())) {
+    return {definition, customerId: null, items: guestItems};
+  }
+
+  const {customerId, items} = await getCustomerMetafieldList(
+    customerAccount,
+    definition,
+  );
+
+  return {
+    definition,
+    customerId,
+    items: mergeItems(definition, items, guestItems) as CustomerLists[N],
+  };
+}
+
+/**
+ * Reads a list kept for the shopper, e.g. the lines saved for later. Guests'
+ * lists live in the session, customers' in a `custom` metafield. After
+ * logging in, items still in the guest list are read along with the
+ * customer's; reading never writes, see `updateCustomerList`.
+ */
+export async function getCustomerList<N extends CustomerListName>(
+  context: ListContext,
+  name: N,
+): Promise<CustomerLists[N]> {
+  const {items} = await loadList(context, name);
+  return items;
+}
+
+/**
+ * Replaces a list with the result of `update`, applied to the current list.
+ * Items are deduplicated, the first occurrence wins. Guest lists are capped
+ * by size, see `GUEST_LIST_MAX_BYTES`. For customers this is where a guest
+ * list left in the session is saved to the metafield and cleared, so call it
+ * from actions only.
+ */
+export async function updateCustomerList<N extends CustomerListName>(
+  context: ListContext,
+  name: N,
+  update: (items: CustomerLists[N]) => CustomerLists[N],
+): Promise<CustomerLists[N]> {
+  const {definition, customerId, items} = await loadList(context, name);
+  const merged = mergeItems(definition, update(items));
+
+  if (customerId) {
+    await setCustomerMetafieldList(
+      context.customerAccount,
+      definition,
+      customerId,
+      merged,
+    );
+    context.session.unset(name);
+    return merged as CustomerLists[N];
+  }
+
+  const limited = limitGuestList(merged) as CustomerLists[N];
+  context.session.set(name, limited as SessionData[N]);
+  return limited;
+}
@@ -0,0 +1,195 @@
+import type {MetafieldReference} from '@shopify/hydrogen/storefront-api-types';
+
+import type {LightRaysProps, RaysOrigin} from '~/components/LightRays';
+import type {PixelSnowProps} from '~/components/PixelSnow';
+
+import {
+  defineMetaobjectSchema,
+  MetaobjectParseError,
+  parseMetaobject,
+  type MetaobjectFieldIssue,
+} from './metaobject';
+import {isScheduleLive} from './schedule';
+
+export const EFFECT_TYPES = ['pixel_snow', 'light_rays'] as const;
+
+export type EffectType = (typeof EFFECT_TYPES)[number];
+
+type EffectSchedule = {
+  enabled: boolean;
+  startsAt: Date | null;
+  endsAt: Date | null;
+};
+
+export type EffectConfig = EffectSchedule &
+  (
+    | {effect: 'pixel_snow'; props: PixelSnowProps}
+    | {effect: 'light_rays'; props: LightRaysProps}
+  );
+
+const SNOW_VARIANTS = ['square', 'round', 'snowflake'] as const;
+
+const RAYS_ORIGINS: RaysOrigin[] = [
+  'top-center',
+  'top-left',
+  'top-right',
+  'right',
+  'left',
+  'bottom-center',
+  'bottom-right',
+  'bottom-left',
+];
+
+/**
+ * Fields of the `effect_config` metaobject. `color` and `speed` apply to every
+ * effect, the other tuning fields only to the effect they are named after and
+ * fall back to the component defaults when left empty.
+ */
+const EFFECT_CONFIG_SCHEMA = defineMetaobjectSchema({
+  effect: {type: 'string', required: true},
+  enabled: {type: 'boolean', default: true},
+  startsAt: {type: 'date', key: 'starts_at'},
+  endsAt: {type: 'date', key: 'ends_at'},
+  color: {type: 'string'},
+  speed: {type: 'number'},
+  // Pixel snow
+  density: {type: 'number'},
+  flakeSize: {type: 'number', key: 'flake_size'},
+  brightness: {type: 'number'},
+  variant: {type: 'string'},
+  direction: {type: 'number'},
+  // Light rays
+  raysOrigin: {type: 'string', key: 'rays_origin'},
+  lightSpread: {type: 'number', key: 'light_spread'},
+  rayLength: {type: 'number', key: 'ray_length'},
+  pulsating: {type: 'boolean'},
+  followMouse: {type: 'boolean', key: 'follow_mouse'},
+  mouseInfluence: {type: 'number', key: 'mouse_influence'},
+  noiseAmount: {type: 'number', key: 'noise_amount'},
+  distortion: {type: 'number'},
+});
+
+function isOneOf<T extends string>(
+  values: readonly T[],
+  value: string,
+): value is T {
+  return (values as readonly string[]).includes(value);
+}
+
+/** Drops empty fields so the effect component defaults apply */
+function withoutNulls<T extends Record<string, unknown>>(props: T) {
+  return Object.fromEntries(
+    Object.entries(props).filter(([, value]) => value !== null),
+  ) as {[K in keyof T]?: NonNullable<T[K]>};
+}
+
+/**
+ * Parses an `effect_config` metaobject referenced by a section into the props
+ * of `PixelSnow` or `LightRays`. On top of the field types, validates the
+ * values the shaders can't cope with, e.g. an unknown variant or a density
+ * outside 0–1.
+ */
+export function parseEffectConfig(reference: MetafieldReference): EffectConfig {
+  if (!('fields' in reference)) {
+    throw new MetaobjectParseError({fields: []}, [
+      {
+        key: 'effect',
+        problem: 'malformed',
+        message: `"effect" must reference an effect_config metaobject`,
+      },
+    ]);
+  }
+
+  const data = parseMetaobject(reference, EFFECT_CONFIG_SCHEMA);
+  const issues: MetaobjectFieldIssue[] = [];
+  const malformed = (key: string, message: string) =>
+    issues.push({key, problem: 'malformed', message: `"${key}" ${message}`});
+
+  if (!isOneOf(EFFECT_TYPES, data.effect)) {
+    malformed('effect', `must be one of ${EFFECT_TYPES.join(', ')}`);
+  }
+  if (data.color && !/^#[0-9a-f]{6}$/i.test(data.color)) {
+    malformed('color', 'must be a hex color like #ffffff');
+  }
+  if (data.density !== null && (data.density < 0 || data.density > 1)) {
+    malformed('density', 'must be between 0 and 1');
+  }
+  if (data.variant && !isOneOf(SNOW_VARIANTS, data.variant)) {
+    malformed('variant', `must be one of ${SNOW_VARIANTS.join(', ')}`);
+  }
+  if (data.raysOrigin && !isOneOf(RAYS_ORIGINS, data.raysOrigin)) {
+    malformed('rays_origin', `must be one of ${RAYS_ORIGINS.join(', ')}`);
+  }
+  if (data.startsAt && data.endsAt && data.startsAt >= data.endsAt) {
+    malformed('ends_at', 'must be after starts_at');
+  }
+
+  if (issues.length) {
+    throw new MetaobjectParseError(reference, issues);
+  }
+
+  const schedule: EffectSchedule = {
+    enabled: data.enabled,
+    startsAt: data.startsAt,
+    endsAt: data.endsAt,
+  };
+
+  if (data.effect === 'pixel_snow') {
+    return {
+      ...schedule,
+      effect: 'pixel_snow',
+      props: withoutNulls({
+        color: data.color,
+        speed: data.speed,
+        density: data.density,
+        flakeSize: data.flakeSize,
+        brightness: data.brightness,
+        variant: data.variant as PixelSnowProps['variant'] | null,
+        direction: data.direction,
+      }),
+    };
+  }
+
+  return {
+    ...schedule,
+    effect: 'light_rays',
+    props: withoutNulls({
+      raysColor: data.color,
+      raysSpeed: data.speed,
+      raysOrigin: data.raysOrigin as RaysOrigin | null,
+      lightSpread: data.lightSpread,
+      rayLength: data.rayLength,
+      pulsating: data.pulsating,
+      followMouse: data.followMouse,
+      mouseInfluence: data.mouseInfluence,
+      noiseAmount: data.noiseAmount,
+      distortion: data.distortion,
+    }),
+  };
+}
+
+/**
+ * Same as `parseEffectConfig`, but returns the error instead of throwing.
+ */
+export function safeParseEffectConfig(
+  reference: MetafieldReference,
+):
+  | {data: EffectConfig; error: null}
+  | {data: null; error: MetaobjectParseError} {
+  try {
+    return {data: parseEffectConfig(reference), error: null};
+  } catch (error) {
+    if (error instanceof MetaobjectParseError) {
+      return {data: null, error};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether the effect is switched on and within its `starts_at`/`ends_at`
+ * window.
+ */
+export function isEffectActive(config: EffectConfig, now = new Date()) {
+  return config.enabled && isScheduleLive(config, now);
+}
@@ -0,0 +1,81 @@
+import type {ProductFilter} from '@shopify/hydrogen/storefront-api-types';
+
+import {type AppliedFilter, FILTER_URL_PREFIX} from '~/components/SortFilter';
+
+import type {I18nLocale} from './type';
+import {parseAsCurrency} from './utils';
+
+type AvailableFilter = {
+  values: {id: string; label: string; input?: unknown}[];
+};
+
+/**
+ * Reads the `filter.*` URL params set by `SortFilter` into Storefront API
+ * product filters.
+ */
+export function getFiltersFromParams(searchParams: URLSearchParams) {
+  return [...searchParams.entries()].reduce((filters, [key, value]) => {
+    if (key.startsWith(FILTER_URL_PREFIX)) {
+      const filterKey = key.substring(FILTER_URL_PREFIX.length);
+      filters.push({
+        [filterKey]: JSON.parse(value),
+      });
+    }
+    return filters;
+  }, [] as ProductFilter[]);
+}
+
+/**
+ * Labels the applied filters with the values of the filters available for
+ * the results. Filters that aren't available are left out.
+ */
+export function getAppliedFilters(
+  filters: ProductFilter[],
+  availableFilters: AvailableFilter[],
+  locale: I18nLocale,
+): AppliedFilter[] {
+  const allFilterValues = availableFilters.flatMap((filter) => filter.values);
+
+  return filters
+    .map((filter) => {
+      const foundValue = allFilterValues.find((value) => {
+        const valueInput = JSON.parse(value.input as string) as ProductFilter;
+        // special case for price, the user can enter something freeform (still a number, though)
+        // that may not make sense for the locale/currency.
+        // Basically just check if the price filter is applied at all.
+        if (valueInput.price && filter.price) {
+          return true;
+        }
+        return (
+          // This comparison should be okay as long as we're not manipulating the input we
+          // get from the API before using it as a URL param.
+          JSON.stringify(valueInput) === JSON.stringify(filter)
+        );
+      });
+      if (!foundValue) {
+        // eslint-disable-next-line no-console
+        console.error('Could not find filter value for filter', filter);
+        return null;
+      }
+
+      if (foundValue.id === 'filter.v.price') {
+        // Special case for price, we want to show the min and max values as the label.
+        const input = JSON.parse(foundValue.input as string) as ProductFilter;
+        const min = parseAsCurrency(input.price?.min ?? 0, locale);
+        const max = input.price?.max
+          ? parseAsCurrency(input.price.max, locale)
+          : '';
+        const label = min && max ? `${min} - ${max}` : 'Price';
+
+        return {
+          filter,
+          label,
+        };
+      }
+      return {
+        filter,
+        label: foundValue.label,
+      };
+    })
+    .filter((filter): filter is NonNullable<typeof filter> => filter !== null);
+}
@@ -0,0 +1,43 @@
+import {type CartIncentive, parseCartIncentive} from './incentives';
+import {MetaobjectParseError} from './metaobject';
+import type {Storefront} from './type';
+
+/**
+ * Loads the `cart_incentive` metaobjects. Entries that can't be parsed are
+ * logged and left out rather than showing a wrong threshold to shoppers.
+ */
+export async function getCartIncentives(
+  storefront: Storefront,
+): Promise<CartIncentive[]> {
+  const {metaobjects} = await storefront.query(CART_INCENTIVES_QUERY, {
+    cache: storefront.CacheLong(),
+  });
+
+  return metaobjects.nodes.flatMap((metaobject) => {
+    try {
+      return [parseCartIncentive(metaobject)];
+    } catch (error) {
+      if (!(error instanceof MetaobjectParseError)) throw error;
+      // eslint-disable-next-line no-console
+      console.error(`[Cart incentive ${metaobject.handle}]`, error.message);
+      return [];
+    }
+  });
+}
+
+const CART_INCENTIVES_QUERY = `#graphql
+  query CartIncentives {
+    metaobjects(type: "cart_incentive", first: 20) {
+      nodes {
+        id
+        type
+        handle
+        fields {
+          key
+          type
+          value
+        }
+      }
+    }
+  }
+` as const;
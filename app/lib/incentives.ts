@@ -0,0 +1,105 @@
+import type {Metaobject, MoneyV2} from '@shopify/hydrogen/storefront-api-types';
+
+import {
+  defineMetaobjectSchema,
+  MetaobjectParseError,
+  parseMetaobject,
+} from './metaobject';
+
+export type CartIncentive = {
+  id: string;
+  /** What the tier unlocks, e.g. "Free shipping" */
+  label: string;
+  threshold: MoneyV2;
+};
+
+export type CartIncentiveProgress = {
+  /** Tiers in the cart's currency, from the lowest threshold up */
+  tiers: (CartIncentive & {reached: boolean})[];
+  /** Subtotal as a percentage of the highest threshold */
+  percent: number;
+  next: {incentive: CartIncentive; remaining: MoneyV2} | null;
+};
+
+/**
+ * Fields of the `cart_incentive` metaobject. `threshold` is a money field, add
+ * one entry per currency to offer the same tier in several markets.
+ */
+const CART_INCENTIVE_SCHEMA = defineMetaobjectSchema({
+  label: {type: 'string', required: true},
+  threshold: {type: 'json', required: true},
+});
+
+/**
+ * Parses a `cart_incentive` metaobject, whose money field is stored as
+ * `{"amount": "75.00", "currency_code": "USD"}`.
+ */
+export function parseCartIncentive(
+  metaobject: Pick<Metaobject, 'id' | 'type' | 'handle' | 'fields'>,
+): CartIncentive {
+  const data = parseMetaobject(metaobject, CART_INCENTIVE_SCHEMA);
+  const threshold = data.threshold as {
+    amount?: unknown;
+    currency_code?: unknown;
+  };
+
+  if (
+    Number.isNaN(Number(threshold?.amount)) ||
+    Number(threshold.amount) <= 0 ||
+    typeof threshold.currency_code !== 'string'
+  ) {
+    throw new MetaobjectParseError(metaobject, [
+      {
+        key: 'threshold',
+        problem: 'malformed',
+        message: `"threshold" must be a positive money amount`,
+      },
+    ]);
+  }
+
+  return {
+    id: metaobject.id,
+    label: data.label,
+    threshold: {
+      amount: String(threshold.amount),
+      currencyCode: threshold.currency_code as MoneyV2['currencyCode'],
+    },
+  };
+}
+
+/**
+ * Works out which tiers a subtotal reaches and how much is left to spend for
+ * the next one. Tiers in other currencies than the subtotal are ignored.
+ */
+export function getCartIncentiveProgress(
+  incentives: CartIncentive[],
+  subtotal: MoneyV2,
+): CartIncentiveProgress | null {
+  const amount = Number(subtotal.amount);
+  const tiers = incentives
+    .filter(({threshold}) => threshold.currencyCode === subtotal.currencyCode)
+    .sort((a, b) => Number(a.threshold.amount) - Number(b.threshold.amount))
+    .map((incentive) => ({
+      ...incentive,
+      reached: amount >= Number(incentive.threshold.amount),
+    }));
+
+  if (!tiers.length) return null;
+
+  const highest = Number(tiers[tiers.length - 1].threshold.amount);
+  const nextTier = tiers.find((tier) => !tier.reached);
+
+  return {
+    tiers,
+    percent: Math.min(100, (amount / highest) * 100),
+    next: nextTier
+      ? {
+          incentive: nextTier,
+          remaining: {
+            amount: (Number(nextTier.threshold.amount) - amount).toFixed(2),
+            currencyCode: subtotal.currencyCode,
+          },
+        }
+      : null,
+  };
+}
@@ -0,0 +1,188 @@
+import type {
+  MetafieldReference,
+  Metaobject,
+} from '@shopify/hydrogen/storefront-api-types';
+
+type FieldValues = {
+  string: string;
+  number: number;
+  boolean: boolean;
+  url: string;
+  date: Date;
+  json: unknown;
+  reference: MetafieldReference;
+  references: MetafieldReference[];
+};
+
+export type FieldType = keyof FieldValues;
+
+export type FieldDefinition<T extends FieldType = FieldType> = {
+  type: T;
+  /** Metaobject field key, when it differs from the property name */
+  key?: string;
+  required?: boolean;
+  default?: FieldValues[T];
+};
+
+export type MetaobjectSchema = Record<string, FieldDefinition>;
+
+type ParsedField<D extends FieldDefinition> = D extends
+  | {required: true}
+  | {default: unknown}
+  ? FieldValues[D['type']]
+  : FieldValues[D['type']] | null;
+
+export type ParsedMetaobject<S extends MetaobjectSchema> = {
+  -readonly [K in keyof S]: ParsedField<S[K]>;
+};
+
+export type MetaobjectFieldIssue = {
+  key: string;
+  problem: 'missing' | 'malformed';
+  message: string;
+};
+
+type MetaobjectInput = Pick<Metaobject, 'fields'> &
+  Partial<Pick<Metaobject, 'type' | 'handle'>>;
+
+/**
+ * Lists every missing or malformed field of a metaobject at once, so editors
+ * can fix a misnamed field without a round trip per error.
+ */
+export class MetaobjectParseError extends Error {
+  issues: MetaobjectFieldIssue[];
+
+  constructor(metaobject: MetaobjectInput, issues: MetaobjectFieldIssue[]) {
+    const name = [metaobject.type, metaobject.handle].filter(Boolean).join('/');
+    super(
+      `Invalid metaobject${name ? ` "${name}"` : ''}: ` +
+        issues.map((issue) => issue.message).join('; '),
+    );
+    this.name = 'MetaobjectParseError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Identity helper that keeps the literal types of a schema, so the result of
+ * `parseMetaobject` knows which fields are required.
+ */
+export function defineMetaobjectSchema<const S extends MetaobjectSchema>(
+  schema: S,
+) {
+  return schema;
+}
+
+const MALFORMED = Symbol('malformed');
+
+function parseValue(type: FieldType, value: string) {
+  switch (type) {
+    case 'number': {
+      // Rating fields store `{"value": "4.5", "scale_min": ..., "scale_max": ...}`
+      const raw = value.startsWith('{')
+        ? (parseJson(value) as {value?: string} | undefined)?.value
+        : value;
+      const number = Number(raw);
+      return raw === '' || Number.isNaN(number) ? MALFORMED : number;
+    }
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : MALFORMED;
+    case 'url':
+      return /^(\/|#|https?:\/\/|mailto:)/.test(value) ? value : MALFORMED;
+    case 'date': {
+      const date = new Date(value);
+      return Number.isNaN(date.valueOf()) ? MALFORMED : date;
+    }
+    case 'json': {
+      const json = parseJson(value);
+      return json === undefined ? MALFORMED : json;
+    }
+    default:
+      return value;
+  }
+}
+
+function parseJson(value: string) {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turns the loosely typed `fields` of a metaobject into a typed object
+ * following `schema`. Throws a `MetaobjectParseError` listing every required
+ * field that is missing and every field whose value can't be parsed.
+ */
+export function parseMetaobject<const S extends MetaobjectSchema>(
+  metaobject: MetaobjectInput,
+  schema: S,
+): ParsedMetaobject<S> {
+  const issues: MetaobjectFieldIssue[] = [];
+  const parsed: Record<string, unknown> = {};
+
+  for (const [property, definition] of Object.entries(schema)) {
+    const key = definition.key ?? property;
+    const field = metaobject.fields?.find((f) => f?.key === key);
+
+    let value: unknown;
+    if (definition.type === 'reference') {
+      value = field?.reference ?? undefined;
+    } else if (definition.type === 'references') {
+      const nodes = field?.references?.nodes.filter(Boolean) ?? [];
+      value = nodes.length ? nodes : undefined;
+    } else if (field?.value) {
+      value = parseValue(definition.type, field.value);
+    }
+
+    if (value === MALFORMED) {
+      issues.push({
+        key,
+        problem: 'malformed',
+        message: `"${key}" is not a valid ${definition.type} (got "${field?.value}")`,
+      });
+      continue;
+    }
+
+    if (value === undefined) {
+      if (definition.required) {
+        issues.push({
+          key,
+          problem: 'missing',
+          message: `"${key}" is required`,
+        });
+        continue;
+      }
+      value = definition.default ?? null;
+    }
+
+    parsed[property] = value;
+  }
+
+  if (issues.length) {
+    throw new MetaobjectParseError(metaobject, issues);
+  }
+
+  return parsed as ParsedMetaobject<S>;
+}
+
+/**
+ * Same as `parseMetaobject`, but returns the error instead of throwing so
+ * section components can render a fallback.
+ */
+export function safeParseMetaobject<const S extends MetaobjectSchema>(
+  metaobject: MetaobjectInput,
+  schema: S,
+):
+  | {data: ParsedMetaobject<S>; error: null}
+  | {data: null; error: MetaobjectParseError} {
+  try {
+    return {data: parseMetaobject(metaobject, schema), error: null};
+  } catch (error) {
+    if (error instanceof MetaobjectParseError) {
+      return {data: null, error};
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,73 @@
+import {signValue, verifySignature} from './signature.server';
+
+export const PREVIEW_AT_PARAM = 'preview_at';
+export const PREVIEW_EXPIRES_PARAM = 'preview_expires';
+export const PREVIEW_SIGNATURE_PARAM = 'preview_signature';
+
+/** How long a generated preview link works for */
+export const PREVIEW_LINK_LIFETIME = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Signs a `preview_at` timestamp and the moment the link expires with
+ * `PREVIEW_SECRET`, so neither can be changed without breaking the link.
+ */
+export function signPreviewAt(
+  previewAt: string,
+  expiresAt: string,
+  secret: string,
+) {
+  return signValue(`${previewAt}|${expiresAt}`, secret);
+}
+
+/**
+ * Builds a staff preview link rendering the page at `url` as of `previewAt`,
+ * e.g. `/?preview_at=…&preview_expires=…&preview_signature=<signature>`.
+ */
+export async function createPreviewUrl(
+  url: URL,
+  previewAt: Date,
+  secret: string,
+  now = Date.now(),
+) {
+  const previewUrl = new URL(url);
+  const at = previewAt.toISOString();
+  const expiresAt = new Date(now + PREVIEW_LINK_LIFETIME).toISOString();
+
+  previewUrl.searchParams.set(PREVIEW_AT_PARAM, at);
+  previewUrl.searchParams.set(PREVIEW_EXPIRES_PARAM, expiresAt);
+  previewUrl.searchParams.set(
+    PREVIEW_SIGNATURE_PARAM,
+    await signPreviewAt(at, expiresAt, secret),
+  );
+
+  return previewUrl;
+}
+
+/**
+ * Returns the moment requested by a correctly signed `preview_at` parameter,
+ * or `null` when there is none, the link expired, the signature doesn't
+ * match or previews are disabled because `PREVIEW_SECRET` isn't set.
+ */
+export async function getPreviewDate(request: Request, secret?: string) {
+  const searchParams = new URL(request.url).searchParams;
+  const previewAt = searchParams.get(PREVIEW_AT_PARAM);
+  const expiresAt = searchParams.get(PREVIEW_EXPIRES_PARAM);
+  const signature = searchParams.get(PREVIEW_SIGNATURE_PARAM);
+
+  if (!secret || !previewAt || !expiresAt || !signature) return null;
+
+  const date = new Date(previewAt);
+  const expiryDate = new Date(expiresAt);
+  if (Number.isNaN(date.valueOf()) || Number.isNaN(expiryDate.valueOf())) {
+    return null;
+  }
+  if (expiryDate.valueOf() <= Date.now()) return null;
+
+  const isValid = await verifySignature(
+    `${previewAt}|${expiresAt}`,
+    signature,
+    secret,
+  );
+
+  return isValid ? date : null;
+}
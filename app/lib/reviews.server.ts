@@ -0,0 +1,191 @@
+import type {Metaobject} from '@shopify/hydrogen/storefront-api-types';
+
+import {PRODUCT_REVIEWS_QUERY} from '~/graphql/reviews.query';
+
+import {defineMetaobjectSchema, safeParseMetaobject} from './metaobject';
+import {
+  getReviewsPage,
+  type PendingReview,
+  type ProductReview,
+  type ReviewsProvider,
+} from './reviews';
+import type {Storefront} from './type';
+
+const PRODUCT_REVIEW_SCHEMA = defineMetaobjectSchema({
+  rating: {type: 'number', required: true},
+  author: {type: 'string', required: true},
+  title: {type: 'string', default: ''},
+  body: {type: 'string', required: true},
+  createdAt: {type: 'date', key: 'created_at'},
+  verifiedBuyer: {type: 'boolean', key: 'verified_buyer', default: false},
+});
+
+/**
+ * Reads reviews from `product_review` metaobjects listed in the
+ * `custom.product_reviews` product metafield. Only published (active)
+ * metaobjects are exposed to the Storefront API, so unpublishing an entry in
+ * the admin hides the review.
+ */
+export function createMetaobjectReviewsProvider({
+  storefront,
+}: {
+  storefront: Storefront;
+}): ReviewsProvider {
+  return {
+    async getProductReviews(productHandle, options) {
+      const {product} = await storefront.query(PRODUCT_REVIEWS_QUERY, {
+        variables: {handle: productHandle},
+      });
+
+      if (!product) return null;
+
+      const nodes: Metaobject[] = product.reviews?.references?.nodes ?? [];
+      const reviews = nodes.flatMap((node): ProductReview[] => {
+        const {data, error} = safeParseMetaobject(node, PRODUCT_REVIEW_SCHEMA);
+        if (error) {
+          // eslint-disable-next-line no-console
+          console.warn(error.message);
+          return [];
+        }
+
+        return [
+          {
+            id: node.id,
+            author: data.author,
+            title: data.title,
+            body: data.body,
+            rating: Math.min(5, Math.max(1, data.rating)),
+            createdAt: (
+              data.createdAt ?? new Date(node.updatedAt)
+            ).toISOString(),
+            verifiedBuyer: data.verifiedBuyer,
+          },
+        ];
+      });
+
+      return getReviewsPage(reviews, options);
+    },
+  };
+}
+
+/**
+ * Persists reviews submitted by customers until they are moderated, added to
+ * the Remix load context in `server.ts`. Swap the implementation to write to
+ * a moderation queue, e.g. draft metaobjects through the Admin API.
+ */
+export interface ReviewSubmissionAdapter {
+  submit(review: PendingReview): Promise<void>;
+}
+
+/**
+ * Posts each review to a moderation webhook as multipart form data, a
+ * `review` JSON field and the optional `photo` file, so the photo is streamed
+ * on instead of kept by the storefront.
+ */
+export function createWebhookReviewSubmissionAdapter({
+  url,
+  token,
+}: {
+  url: string;
+  token?: string;
+}): ReviewSubmissionAdapter {
+  return {
+    async submit({photo, ...review}) {
+      const body = new FormData();
+      body.set('review', JSON.stringify(review));
+      if (photo) body.set('photo', photo, photo.name);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        body,
+        headers: token ? {Authorization: `Bearer ${token}`} : {},
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Review submission webhook responded with ${response.status}`,
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Keeps pending reviews in memory. Only suitable for local development, since
+ * the queue is lost whenever the worker restarts. Photos are dropped, uploads
+ * are never held in memory.
+ */
+export function createMemoryReviewSubmissionAdapter() {
+  const pending: PendingReview[] = [];
+
+  return {
+    pending,
+    async submit(review) {
+      pending.push({...review, photo: null});
+    },
+  } satisfies ReviewSubmissionAdapter & {pending: PendingReview[]};
+}
+
+/**
+ * The adapter configured in `env`, the memory adapter in development. `null`
+ * in production without a webhook, so submissions fail closed.
+ */
+export function getReviewSubmissionAdapter(
+  env: Env,
+  memoryAdapter: ReviewSubmissionAdapter | null,
+) {
+  if (env.REVIEW_SUBMISSIONS_WEBHOOK_URL) {
+    return createWebhookReviewSubmissionAdapter({
+      url: env.REVIEW_SUBMISSIONS_WEBHOOK_URL,
+      token: env.REVIEW_SUBMISSIONS_WEBHOOK_TOKEN,
+    });
+  }
+
+  return process.env.NODE_ENV === 'development' ? memoryAdapter : null;
+}
+
+const REVIEW_RATE_LIMIT = 3;
+const REVIEW_RATE_LIMIT_WINDOW = 60 * 60;
+
+/**
+ * Limits how often a customer submits reviews, added to the Remix load
+ * context in `server.ts`.
+ */
+export interface ReviewRateLimiter {
+  /** Records a submission, `false` when the customer is over the limit */
+  consume(customerId: string): Promise<boolean>;
+}
+
+/**
+ * Allows `REVIEW_RATE_LIMIT` reviews an hour per customer. Submission times
+ * are kept in the worker cache keyed by customer id, so clearing the session
+ * cookie doesn't reset the limit.
+ */
+export function createCacheReviewRateLimiter(cache: Cache): ReviewRateLimiter {
+  return {
+    async consume(customerId) {
+      const key = `https://review-rate-limit.internal/${encodeURIComponent(
+        customerId,
+      )}`;
+      const now = Date.now();
+      const cached = await cache.match(key);
+      const submissions = cached ? await cached.json<number[]>() : [];
+      const recent = submissions.filter(
+        (timestamp) => now - timestamp < REVIEW_RATE_LIMIT_WINDOW * 1000,
+      );
+
+      if (recent.length >= REVIEW_RATE_LIMIT) return false;
+
+      await cache.put(
+        key,
+        new Response(JSON.stringify([...recent, now]), {
+          headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': `max-age=${REVIEW_RATE_LIMIT_WINDOW}`,
+          },
+        }),
+      );
+      return true;
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import type {Maybe} from '@shopify/hydrogen/storefront-api-types';
+
+export type ReviewSort = 'newest' | 'oldest' | 'highest' | 'lowest';
+
+export const REVIEW_SORTS: {label: string; key: ReviewSort}[] = [
+  {label: 'Newest', key: 'newest'},
+  {label: 'Oldest', key: 'oldest'},
+  {label: 'Highest rated', key: 'highest'},
+  {label: 'Lowest rated', key: 'lowest'},
+];
+
+export const REVIEWS_PAGE_SIZE = 5;
+export const REVIEWS_PAGE_PARAM = 'reviews_page';
+export const REVIEWS_SORT_PARAM = 'reviews_sort';
+
+export type ProductReview = {
+  id: string;
+  author: string;
+  title: string;
+  body: string;
+  rating: number;
+  createdAt: string;
+  verifiedBuyer: boolean;
+};
+
+export type RatingAggregate = {
+  average: number;
+  count: number;
+};
+
+export type RatingSummary = RatingAggregate & {
+  /** Number of reviews per star rating, from 5 stars down to 1 */
+  distribution: {rating: number; count: number}[];
+};
+
+export type ProductReviewsPage = {
+  summary: RatingSummary;
+  reviews: ProductReview[];
+  page: number;
+  pageCount: number;
+  sort: ReviewSort;
+};
+
+export type ReviewSubmission = {
+  productId: string;
+  productHandle: string;
+  customerId: string;
+  author: string;
+  rating: number;
+  title: string;
+  body: string;
+  photo: File | null;
+  verifiedBuyer: boolean;
+};
+
+/**
+ * A submitted review waiting for moderation. It's only shown on the
+ * storefront once a moderator publishes it as a `product_review` metaobject.
+ */
+export type PendingReview = ReviewSubmission & {
+  id: string;
+  status: 'pending';
+  submittedAt: string;
+};
+
+export type ReviewsOptions = {
+  page: number;
+  sort: ReviewSort;
+};
+
+/**
+ * Source of product reviews, added to the Remix load context in `server.ts`.
+ * Swap the implementation to read reviews from a third-party reviews app.
+ * Star ratings on product cards, the product page and its structured data
+ * are read from the `reviews.rating` and `reviews.rating_count` metafields
+ * instead, so whatever publishes reviews must keep those up to date too.
+ */
+export interface ReviewsProvider {
+  getProductReviews(
+    productHandle: string,
+    options: ReviewsOptions,
+  ): Promise<ProductReviewsPage | null>;
+}
+
+export function getReviewsOptions(searchParams: URLSearchParams) {
+  const sort = searchParams.get(REVIEWS_SORT_PARAM);
+  const page = parseInt(searchParams.get(REVIEWS_PAGE_PARAM) ?? '', 10);
+
+  return {
+    page: page > 0 ? page : 1,
+    sort: REVIEW_SORTS.some(({key}) => key === sort)
+      ? (sort as ReviewSort)
+      : 'newest',
+  } satisfies ReviewsOptions;
+}
+
+export function summarizeRatings(ratings: number[]): RatingSummary {
+  const count = ratings.length;
+  const total = ratings.reduce((sum, rating) => sum + rating, 0);
+
+  return {
+    average: count ? Math.round((total / count) * 10) / 10 : 0,
+    count,
+    distribution: [5, 4, 3, 2, 1].map((rating) => ({
+      rating,
+      count: ratings.filter((value) => Math.round(value) === rating).length,
+    })),
+  };
+}
+
+const REVIEW_COMPARATORS: Record<
+  ReviewSort,
+  (a: ProductReview, b: ProductReview) => number
+> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  oldest: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  highest: (a, b) =>
+    b.rating - a.rating || b.createdAt.localeCompare(a.createdAt),
+  lowest: (a, b) =>
+    a.rating - b.rating || b.createdAt.localeCompare(a.createdAt),
+};
+
+/**
+ * Summarizes, sorts and paginates the complete list of a product's reviews.
+ */
+export function getReviewsPage(
+  reviews: ProductReview[],
+  {page, sort}: ReviewsOptions,
+  pageSize = REVIEWS_PAGE_SIZE,
+): ProductReviewsPage {
+  const pageCount = Math.max(1, Math.ceil(reviews.length / pageSize));
+  const currentPage = Math.min(page, pageCount);
+  const start = (currentPage - 1) * pageSize;
+
+  return {
+    summary: summarizeRatings(reviews.map((review) => review.rating)),
+    reviews: [...reviews]
+      .sort(REVIEW_COMPARATORS[sort])
+      .slice(start, start + pageSize),
+    page: currentPage,
+    pageCount,
+    sort,
+  };
+}
+
+/**
+ * Reads the standard `reviews.rating` and `reviews.rating_count` product
+ * metafields, which review apps keep up to date.
+ */
+export function parseRatingMetafields(
+  rating?: Maybe<{value: string}>,
+  ratingCount?: Maybe<{value: string}>,
+): RatingAggregate | null {
+  if (!rating?.value || !ratingCount?.value) return null;
+
+  try {
+    const {value} = JSON.parse(rating.value) as {value?: string};
+    const average = Number(value);
+    const count = Number(ratingCount.value);
+    if (Number.isNaN(average) || !count) return null;
+
+    return {average, count};
+  } catch {
+    return null;
+  }
+}
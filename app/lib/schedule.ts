@@ -0,0 +1,12 @@
+export type Schedule = {
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+};
+
+/**
+ * Whether `now` is within a `starts_at`/`ends_at` window, either end may be
+ * left open. Content goes live at `startsAt` and is gone at `endsAt`.
+ */
+export function isScheduleLive({startsAt, endsAt}: Schedule, now = new Date()) {
+  return (!startsAt || startsAt <= now) && (!endsAt || now < endsAt);
+}
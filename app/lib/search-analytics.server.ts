@@ -0,0 +1,196 @@
+import type {SearchEvent} from './search-analytics';
+
+export type SearchEventRecord = SearchEvent & {
+  /** ISO date time the event was received */
+  timestamp: string;
+};
+
+export type ZeroResultSearch = {
+  /** Lowercased, so the same search in different cases is counted once */
+  term: string;
+  searches: number;
+  locales: string[];
+  lastSearchedAt: string;
+};
+
+/**
+ * Receives search events posted by the `SearchAnalytics` subscriber, added to
+ * the Remix load context in `server.ts`. Swap the implementation to forward
+ * events to an analytics warehouse.
+ */
+export interface SearchEventSink {
+  record(events: SearchEventRecord[]): Promise<void>;
+  /** Events received on a day, `date` is `YYYY-MM-DD` in UTC */
+  getEvents(date: string): Promise<SearchEventRecord[]>;
+}
+
+/**
+ * Forwards events as JSON lines to a collector that stores them, e.g. a log
+ * pipeline endpoint. Events are posted with `Content-Type:
+ * application/x-ndjson`, and the exports read a day back with `GET
+ * <url>?date=YYYY-MM-DD`, answered with the same JSON lines.
+ */
+export function createWebhookSearchEventSink({
+  url,
+  token,
+}: {
+  url: string;
+  token?: string;
+}): SearchEventSink {
+  const authorization: Record<string, string> = token
+    ? {Authorization: `Bearer ${token}`}
+    : {};
+
+  return {
+    async record(events) {
+      const response = await fetch(url, {
+        method: 'POST',
+        body: events.map((event) => `${JSON.stringify(event)}\n`).join(''),
+        headers: {'Content-Type': 'application/x-ndjson', ...authorization},
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Search events webhook responded with ${response.status}`,
+        );
+      }
+    },
+    async getEvents(date) {
+      const eventsUrl = new URL(url);
+      eventsUrl.searchParams.set('date', date);
+      const response = await fetch(eventsUrl.toString(), {
+        headers: authorization,
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Search events webhook responded with ${response.status}`,
+        );
+      }
+
+      return (await response.text())
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(line) as SearchEventRecord);
+    },
+  };
+}
+
+/**
+ * Keeps events as JSON lines in the worker's memory, the format most log
+ * pipelines ingest. Only suitable for local development: the lines are lost
+ * whenever the worker restarts, and each worker instance has its own. Past
+ * `maxLines`, the oldest lines are dropped.
+ */
+export function createJsonLinesSearchEventSink({maxLines = 10_000} = {}) {
+  const lines: string[] = [];
+
+  return {
+    lines,
+    async record(events) {
+      lines.push(...events.map((event) => JSON.stringify(event)));
+      if (lines.length > maxLines) lines.splice(0, lines.length - maxLines);
+    },
+    async getEvents(date) {
+      return lines
+        .map((line) => JSON.parse(line) as SearchEventRecord)
+        .filter(({timestamp}) => timestamp.startsWith(date));
+    },
+  } satisfies SearchEventSink & {lines: string[]};
+}
+
+/**
+ * The sink configured in `env`, the memory sink in development. `null` in
+ * production without a webhook, so events are dropped and the exports are
+ * turned off.
+ */
+export function getSearchEventSink(
+  env: Env,
+  memorySink: SearchEventSink | null,
+) {
+  if (env.SEARCH_EVENTS_WEBHOOK_URL) {
+    return createWebhookSearchEventSink({
+      url: env.SEARCH_EVENTS_WEBHOOK_URL,
+      token: env.SEARCH_EVENTS_WEBHOOK_TOKEN,
+    });
+  }
+
+  return process.env.NODE_ENV === 'development' ? memorySink : null;
+}
+
+/**
+ * Searches that found nothing, most searched first, for merchandising to
+ * add synonyms or products. Only searches of the results page count, the
+ * instant results search every partially typed term.
+ */
+export function summarizeZeroResultSearches(events: SearchEventRecord[]) {
+  const summary = new Map<string, ZeroResultSearch>();
+
+  for (const event of events) {
+    if (
+      event.type !== 'search' ||
+      event.source !== 'search' ||
+      event.resultCount > 0
+    ) {
+      continue;
+    }
+
+    const term = event.term.toLowerCase();
+    const search = summary.get(term) ?? {
+      term,
+      searches: 0,
+      locales: [],
+      lastSearchedAt: event.timestamp,
+    };
+
+    search.searches += 1;
+    if (!search.locales.includes(event.locale)) {
+      search.locales.push(event.locale);
+    }
+    if (event.timestamp > search.lastSearchedAt) {
+      search.lastSearchedAt = event.timestamp;
+    }
+    summary.set(term, search);
+  }
+
+  return [...summary.values()].sort(
+    (a, b) => b.searches - a.searches || a.term.localeCompare(b.term),
+  );
+}
+
+/**
+ * Joins values into a CSV row. Search terms are typed by shoppers, values a
+ * spreadsheet would run as a formula are prefixed with `'`.
+ */
+export function toCsvRow(values: string[]) {
+  return values
+    .map((value) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value))
+    .map((value) =>
+      /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value,
+    )
+    .join(',');
+}
+
+/**
+ * Checks the `Authorization: Bearer <token>` header against
+ * `SEARCH_ANALYTICS_TOKEN`, exports are disabled when the token isn't set.
+ */
+export function isSearchAnalyticsRequestAuthorized(
+  request: Request,
+  token: string | undefined,
+) {
+  if (!token) return false;
+  return request.headers.get('Authorization') === `Bearer ${token}`;
+}
+
+/**
+ * The `date` search param of an export, today in UTC by default, `null`
+ * when it isn't a `YYYY-MM-DD` date.
+ */
+export function getSearchAnalyticsDate(request: Request) {
+  const date =
+    new URL(request.url).searchParams.get('date') ??
+    new Date().toISOString().slice(0, 10);
+
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null;
+}
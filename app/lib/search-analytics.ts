@@ -0,0 +1,76 @@
+/**
+ * Custom events published on the Hydrogen `Analytics` bus, custom event
+ * names must start with `custom_`.
+ */
+export const SEARCH_ANALYTICS_EVENTS = {
+  SEARCHED: 'custom_search_performed',
+  RESULT_CLICKED: 'custom_search_result_clicked',
+} as const;
+
+export type SearchEvent = {
+  type: 'search' | 'click';
+  /** The search results page or the instant results under the search input */
+  source: 'search' | 'predictive';
+  term: string;
+  /** e.g. `EN-US` */
+  locale: string;
+  resultCount: number;
+  /** Position of the clicked result, the first result is 1 */
+  position?: number;
+  /** Path of the clicked result */
+  url?: string;
+};
+
+/**
+ * The search event for a loader's results, the page publishes it on the
+ * `Analytics` bus once rendered.
+ */
+export function getSearchEvent(
+  source: SearchEvent['source'],
+  term: string,
+  i18n: {language: string; country: string},
+  resultCount: number,
+): SearchEvent {
+  return {
+    type: 'search',
+    source,
+    term,
+    locale: `${i18n.language}-${i18n.country}`,
+    resultCount,
+  };
+}
+
+/**
+ * Reads an event posted by the browser, `null` when it isn't a search event.
+ */
+export function parseSearchEvent(value: unknown): SearchEvent | null {
+  if (!value || typeof value !== 'object') return null;
+  const event = value as Record<string, unknown>;
+
+  const isValid =
+    (event.type === 'search' || event.type === 'click') &&
+    (event.source === 'search' || event.source === 'predictive') &&
+    typeof event.term === 'string' &&
+    event.term.trim().length > 0 &&
+    typeof event.locale === 'string' &&
+    Number.isInteger(event.resultCount) &&
+    (event.resultCount as number) >= 0 &&
+    (event.position === undefined ||
+      (Number.isInteger(event.position) && (event.position as number) > 0)) &&
+    (event.url === undefined || typeof event.url === 'string');
+  if (!isValid) return null;
+
+  return {
+    type: event.type as SearchEvent['type'],
+    source: event.source as SearchEvent['source'],
+    term: (event.term as string).trim().slice(0, 200),
+    locale: (event.locale as string).slice(0, 10),
+    resultCount: event.resultCount as number,
+    ...(event.position === undefined
+      ? {}
+      : {position: event.position as number}),
+    ...(event.url === undefined
+      ? {}
+      : {url: (event.url as string).slice(0, 500)}),
+  };
+}
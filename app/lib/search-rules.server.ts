@@ -0,0 +1,188 @@
+import type {Metaobject} from '@shopify/hydrogen/storefront-api-types';
+
+import type {ProductCardFragment} from 'storefrontapi.generated';
+import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
+
+import {
+  defineMetaobjectSchema,
+  MetaobjectParseError,
+  parseMetaobject,
+} from './metaobject';
+import type {Storefront} from './type';
+
+const SEARCH_RULE_SCHEMA = defineMetaobjectSchema({
+  terms: {type: 'json', required: true},
+  synonyms: {type: 'json', default: []},
+  redirect: {type: 'url'},
+  pinnedProducts: {type: 'references', key: 'pinned_products'},
+});
+
+export type SearchRule = {
+  id: string;
+  /** Normalized with `normalizeSearchTerm` */
+  terms: string[];
+  synonyms: string[];
+  /** Where a search for exactly one of the terms goes instead */
+  redirect: string | null;
+  /** Shown first for a search of exactly one of the terms */
+  pinnedProducts: ProductCardFragment[];
+};
+
+export type AppliedSearchRules = {
+  /** The query to send to the Storefront API, with the synonyms added */
+  query: string;
+  redirect: string | null;
+  pinnedProducts: ProductCardFragment[];
+};
+
+/** Lowercased with single spaces, so rules match however the term is typed */
+export function normalizeSearchTerm(term: string) {
+  return term.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function parseTermList(metaobject: Metaobject, key: string, value: unknown) {
+  if (!Array.isArray(value) || value.some((term) => typeof term !== 'string')) {
+    throw new MetaobjectParseError(metaobject, [
+      {
+        key,
+        problem: 'malformed',
+        message: `"${key}" must be a list of single line texts`,
+      },
+    ]);
+  }
+
+  return (value as string[]).map(normalizeSearchTerm).filter(Boolean);
+}
+
+/**
+ * Reads a `search_rule` metaobject. `terms` and `synonyms` are list fields,
+ * `pinned_products` is a list of product references.
+ */
+export function parseSearchRule(metaobject: Metaobject): SearchRule {
+  const data = parseMetaobject(metaobject, SEARCH_RULE_SCHEMA);
+
+  return {
+    id: metaobject.id,
+    terms: parseTermList(metaobject, 'terms', data.terms),
+    synonyms: parseTermList(metaobject, 'synonyms', data.synonyms),
+    redirect: data.redirect,
+    pinnedProducts: (data.pinnedProducts ?? []).filter(
+      (reference) => reference.__typename === 'Product',
+    ) as ProductCardFragment[],
+  };
+}
+
+/**
+ * Loads the `search_rule` metaobjects. Rules that can't be parsed are logged
+ * and left out, so one bad entry doesn't break search.
+ */
+export async function getSearchRules(
+  storefront: Storefront,
+): Promise<SearchRule[]> {
+  const {metaobjects} = await storefront.query(SEARCH_RULES_QUERY, {
+    variables: {
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheLong(),
+  });
+
+  return metaobjects.nodes.flatMap((metaobject) => {
+    try {
+      return [parseSearchRule(metaobject as Metaobject)];
+    } catch (error) {
+      if (!(error instanceof MetaobjectParseError)) throw error;
+      // eslint-disable-next-line no-console
+      console.error(`[Search rule ${metaobject.handle}]`, error.message);
+      return [];
+    }
+  });
+}
+
+/** Groups a multi-word alternative, e.g. `(running shoes) OR trainers` */
+function toAlternatives(terms: string[]) {
+  return terms
+    .map((term) => (term.includes(' ') ? `(${term})` : term))
+    .join(' OR ');
+}
+
+/**
+ * Rewrites a search term with the rules. A rule matching the whole term adds
+ * its synonyms to the whole term, otherwise each matching word is expanded,
+ * e.g. `white trainers` becomes `white (trainers OR sneakers)`. Redirects and
+ * pinned products only apply to an exact match of the whole term.
+ */
+export function applySearchRules(
+  term: string,
+  rules: SearchRule[],
+): AppliedSearchRules {
+  const normalizedTerm = normalizeSearchTerm(term);
+  const exactRules = rules.filter((rule) =>
+    rule.terms.includes(normalizedTerm),
+  );
+
+  const redirect = exactRules.find((rule) => rule.redirect)?.redirect ?? null;
+
+  const pinnedProducts = exactRules
+    .flatMap((rule) => rule.pinnedProducts)
+    .filter(
+      (product, index, products) =>
+        products.findIndex(({id}) => id === product.id) === index,
+    );
+
+  const getSynonyms = (value: string) => [
+    ...new Set(
+      rules
+        .filter((rule) => rule.terms.includes(value))
+        .flatMap((rule) => rule.synonyms)
+        .filter((synonym) => synonym !== value),
+    ),
+  ];
+
+  const termSynonyms = getSynonyms(normalizedTerm);
+  const query = termSynonyms.length
+    ? toAlternatives([normalizedTerm, ...termSynonyms])
+    : normalizedTerm
+        .split(' ')
+        .map((word) => {
+          const synonyms = getSynonyms(word);
+          return synonyms.length
+            ? `(${toAlternatives([word, ...synonyms])})`
+            : word;
+        })
+        .join(' ');
+
+  return {
+    query: query === normalizedTerm ? term : query,
+    redirect,
+    pinnedProducts,
+  };
+}
+
+const SEARCH_RULES_QUERY = `#graphql
+  query SearchRules($country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
+    metaobjects(type: "search_rule", first: 100) {
+      nodes {
+        id
+        type
+        handle
+        fields {
+          key
+          type
+          value
+          references(first: 10) {
+            nodes {
+              __typename
+              ... on Product {
+                ...ProductCard
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  ${PRODUCT_CARD_FRAGMENT}
+` as const;
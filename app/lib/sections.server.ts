@@ -0,0 +1,193 @@
+import type {Metaobject} from '@shopify/hydrogen/storefront-api-types';
+
+import {
+  SECTION_REGISTRY,
+  type HomepageSection,
+  type SectionDefinition,
+} from '~/components/Sections';
+import type {ProductShowcaseData} from '~/components/ProductCarousel';
+import type {SortParam} from '~/components/SortFilter';
+import {HOMEPAGE_SECTIONS_QUERY} from '~/graphql/homepage.query';
+import {SHOWCASE_COLLECTION_QUERY} from '~/graphql/product.query';
+
+import {defineMetaobjectSchema, safeParseMetaobject} from './metaobject';
+import {isScheduleLive} from './schedule';
+import type {Storefront} from './type';
+import {getSortValuesFromParam} from './utils';
+
+export const HOMEPAGE_HANDLE = 'home';
+
+type SectionReference = {type: string; handle: string};
+
+/**
+ * Sub-request cache for section metaobjects. Schedules are evaluated against
+ * `now` after the query returns, so a cached response never shows a section
+ * early or late; the max-age only bounds how long admin edits take to show.
+ */
+const SECTION_CACHE = {maxAge: 60 * 5, staleWhileRevalidate: 60 * 60};
+
+/** Optional fields any section metaobject can carry to run time-boxed */
+const SECTION_SCHEDULE_SCHEMA = defineMetaobjectSchema({
+  startsAt: {type: 'date', key: 'starts_at'},
+  endsAt: {type: 'date', key: 'ends_at'},
+});
+
+type SectionLoader = (args: {
+  metaobject: Metaobject;
+  storefront: Storefront;
+}) => Promise<unknown>;
+
+const PRODUCT_SHOWCASE_SOURCE_SCHEMA = defineMetaobjectSchema({
+  collection: {type: 'reference'},
+  sort: {type: 'string', key: 'sort_key', default: 'featured'},
+});
+
+/**
+ * Loads the products of the collection a product showcase references, sorted
+ * like the collection page `sort` param. Showcases without a collection use
+ * their hand-picked `products` instead.
+ */
+async function loadProductShowcase({
+  metaobject,
+  storefront,
+}: {
+  metaobject: Metaobject;
+  storefront: Storefront;
+}): Promise<ProductShowcaseData | null> {
+  const {data, error} = safeParseMetaobject(
+    metaobject,
+    PRODUCT_SHOWCASE_SOURCE_SCHEMA,
+  );
+  if (error) throw error;
+  if (!data.collection || !('handle' in data.collection)) return null;
+
+  const {sortKey, reverse} = getSortValuesFromParam(data.sort as SortParam);
+  const {collection} = await storefront.query(SHOWCASE_COLLECTION_QUERY, {
+    variables: {
+      handle: data.collection.handle,
+      // Relevance only applies to search results
+      sortKey: sortKey === 'RELEVANCE' ? 'COLLECTION_DEFAULT' : sortKey,
+      reverse,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheCustom(SECTION_CACHE),
+  });
+
+  return collection ? {products: collection.products.nodes} : null;
+}
+
+/**
+ * Server-side data a section needs beyond its metaobject fields, passed to
+ * the section component as `data`.
+ */
+const SECTION_LOADERS: Record<string, SectionLoader> = {
+  section_product_showcase: loadProductShowcase,
+};
+
+/**
+ * Sections rendered while no `homepage` metaobject has been published, so the
+ * storefront keeps working until merchandisers set one up in the admin.
+ */
+const DEFAULT_SECTIONS: SectionReference[] = [
+  {type: 'section_hero_parallax', handle: 'welcome-to-sneaker-store'},
+  {type: 'section_product_showcase', handle: 'our-products'},
+  {type: 'section_reviews', handle: 'what-our-customers-say'},
+];
+
+function getSectionQuery({fragment, fragmentName}: SectionDefinition) {
+  return `#graphql
+  query GetHomepageSection($type: String!, $handle: String!) {
+    metaobject(handle: {type: $type, handle: $handle}) {
+      ...${fragmentName}
+    }
+  }
+  ${fragment}
+`;
+}
+
+/**
+ * Loads the ordered sections referenced by the `homepage` metaobject. Sections
+ * with an unregistered type, or that fail to load, are left out so a single
+ * broken entry never takes the whole homepage down. Sections scheduled with
+ * `starts_at`/`ends_at` are only included while live at `now`. Setup problems
+ * of the live sections are logged, see `SectionDefinition.getErrors`.
+ */
+export async function getHomepageSections(
+  storefront: Storefront,
+  {handle = HOMEPAGE_HANDLE, now = new Date()} = {},
+): Promise<HomepageSection[]> {
+  const {metaobject: homepage} = await storefront.query(
+    HOMEPAGE_SECTIONS_QUERY,
+    {variables: {handle}, cache: storefront.CacheCustom(SECTION_CACHE)},
+  );
+
+  const references: SectionReference[] = homepage
+    ? (homepage.sections?.references?.nodes ?? []).filter(
+        (node: Partial<SectionReference>) => node?.type && node?.handle,
+      )
+    : DEFAULT_SECTIONS;
+
+  const results = await Promise.allSettled(
+    references.map(({type, handle}) => {
+      const definition = SECTION_REGISTRY[type];
+      if (!definition) {
+        return Promise.reject(new Error(`Unregistered section type "${type}"`));
+      }
+
+      return storefront.query(getSectionQuery(definition), {
+        variables: {type, handle},
+        cache: storefront.CacheCustom(SECTION_CACHE),
+      });
+    }),
+  );
+
+  const liveSections = results.flatMap((result, index) => {
+    const {type, handle} = references[index];
+
+    if (result.status === 'rejected') {
+      // eslint-disable-next-line no-console
+      console.error(`[Section ${type}/${handle}] Error:`, result.reason);
+      return [];
+    }
+
+    const metaobject = result.value?.metaobject;
+    if (!metaobject) return [];
+
+    // Hide sections with an unreadable schedule rather than risk going live early
+    const {data: schedule, error} = safeParseMetaobject(
+      metaobject,
+      SECTION_SCHEDULE_SCHEMA,
+    );
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error(`[Section ${type}/${handle}]`, error.message);
+      return [];
+    }
+
+    if (!isScheduleLive(schedule, now)) return [];
+
+    // Logged here once per request instead of on every render
+    for (const message of SECTION_REGISTRY[type].getErrors(metaobject)) {
+      // eslint-disable-next-line no-console
+      console.error(`[Section ${type}/${handle}]`, message);
+    }
+
+    return [{id: metaobject.id, type, handle, metaobject}];
+  });
+
+  return Promise.all(
+    liveSections.map(async (section): Promise<HomepageSection> => {
+      const load = SECTION_LOADERS[section.type];
+      if (!load) return section;
+
+      try {
+        return {...section, data: await load({...section, storefront})};
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(`[Section ${section.type}/${section.handle}]`, error);
+        return {...section, data: null};
+      }
+    }),
+  );
+}
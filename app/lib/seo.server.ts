@@ -22,6 +22,8 @@ import type {
 
 import type {ShopFragment} from 'storefrontapi.generated';
 
+import type {RatingAggregate} from './reviews';
+
 function root({
   shop,
   url,
@@ -98,10 +100,12 @@ type ProductRequiredFields = Pick<
 function productJsonLd({
   product,
   selectedVariant,
+  rating,
   url,
 }: {
   product: ProductRequiredFields;
   selectedVariant: SelectedVariantRequiredFields;
+  rating?: RatingAggregate | null;
   url: Request['url'];
 }): SeoConfig['jsonLd'] {
   const origin = new URL(url).origin;
@@ -158,6 +162,15 @@ function productJsonLd({
       offers,
       sku: selectedVariant?.sku ?? '',
       url,
+      ...(rating && {
+        aggregateRating: {
+          '@type': 'AggregateRating',
+          ratingValue: rating.average,
+          reviewCount: rating.count,
+          bestRating: 5,
+          worstRating: 1,
+        },
+      }),
     },
   ];
 }
@@ -166,9 +179,11 @@ function product({
   product,
   url,
   selectedVariant,
+  rating,
 }: {
   product: ProductRequiredFields;
   selectedVariant: SelectedVariantRequiredFields;
+  rating?: RatingAggregate | null;
   url: Request['url'];
 }): SeoConfig {
   const description = truncate(
@@ -179,7 +194,7 @@ function product({
     description,
     url,
     media: selectedVariant?.image,
-    jsonLd: productJsonLd({product, selectedVariant, url}),
+    jsonLd: productJsonLd({product, selectedVariant, rating, url}),
   };
 }
 
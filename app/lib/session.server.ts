@@ -1,10 +1,17 @@
 import {type HydrogenSession} from '@shopify/hydrogen';
 import {
   createCookieSessionStorage,
+  type SessionData,
   type SessionStorage,
   type Session,
 } from '@shopify/remix-oxygen';
 
+/** One-off notice shown after a redirect, e.g. when a cart link is applied */
+export type FlashMessage = {
+  status: 'success' | 'error';
+  message: string;
+};
+
 /**
  * This is a custom session implementation for your Hydrogen shop.
  * Feel free to customize it to your needs, add helper methods, or
@@ -47,9 +54,22 @@ export class AppSession implements HydrogenSession {
   }
 
   get flash() {
+    this.isPending = true;
     return this.#session.flash;
   }
 
+  /**
+   * Reads a value set with `flash`. It is removed from the session once read,
+   * so the session is committed with the response.
+   */
+  getFlash<Key extends keyof SessionData & string>(
+    key: Key,
+  ): SessionData[Key] | undefined {
+    if (!this.#session.has(key)) return undefined;
+    this.isPending = true;
+    return this.#session.get(key);
+  }
+
   get unset() {
     this.isPending = true;
     return this.#session.unset;
@@ -0,0 +1,46 @@
+const encoder = new TextEncoder();
+
+function importKey(secret: string) {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    {name: 'HMAC', hash: 'SHA-256'},
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+function toHex(buffer: ArrayBuffer) {
+  return [...new Uint8Array(buffer)]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function fromHex(hex: string) {
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) return null;
+  return new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
+
+/**
+ * HMAC-SHA256 signature of `value` as a hex string, for links that must not
+ * be tampered with.
+ */
+export async function signValue(value: string, secret: string) {
+  const key = await importKey(secret);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(value)));
+}
+
+/**
+ * Checks a hex signature made by `signValue` in constant time.
+ */
+export async function verifySignature(
+  value: string,
+  signature: string,
+  secret: string,
+) {
+  const bytes = fromHex(signature);
+  if (!bytes) return false;
+
+  const key = await importKey(secret);
+  return crypto.subtle.verify('HMAC', key, bytes, encoder.encode(value));
+}
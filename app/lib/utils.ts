@@ -1,5 +1,9 @@
 import {useLocation, useRouteLoaderData} from '@remix-run/react';
-import type {MoneyV2} from '@shopify/hydrogen/storefront-api-types';
+import type {
+  MoneyV2,
+  ProductCollectionSortKeys,
+  SearchSortKeys,
+} from '@shopify/hydrogen/storefront-api-types';
 import type {FulfillmentStatus} from '@shopify/hydrogen/customer-account-api-types';
 import typographicBase from 'typographic-base';
 
@@ -9,6 +13,7 @@ import type {
   ParentMenuItemFragment,
 } from 'storefrontapi.generated';
 import type {RootLoader} from '~/root';
+import type {SortParam} from '~/components/SortFilter';
 import {countries} from '~/data/countries';
 
 import type {I18nLocale} from './type';
@@ -312,3 +317,71 @@ export function isLocalPath(url: string) {
 
   return false;
 }
+
+/**
+ * Maps a collection `sort` URL param to the Storefront API sort key.
+ */
+export function getSortValuesFromParam(sortParam: SortParam | null): {
+  sortKey: ProductCollectionSortKeys;
+  reverse: boolean;
+} {
+  switch (sortParam) {
+    case 'price-high-low':
+      return {
+        sortKey: 'PRICE',
+        reverse: true,
+      };
+    case 'price-low-high':
+      return {
+        sortKey: 'PRICE',
+        reverse: false,
+      };
+    case 'best-selling':
+      return {
+        sortKey: 'BEST_SELLING',
+        reverse: false,
+      };
+    case 'newest':
+      return {
+        sortKey: 'CREATED',
+        reverse: true,
+      };
+    case 'featured':
+      return {
+        sortKey: 'MANUAL',
+        reverse: false,
+      };
+    default:
+      return {
+        sortKey: 'RELEVANCE',
+        reverse: false,
+      };
+  }
+}
+
+/**
+ * Maps a search `sort` URL param to the Storefront API search sort key.
+ * Search results can only be sorted by relevance or price.
+ */
+export function getSearchSortValuesFromParam(sortParam: SortParam | null): {
+  sortKey: SearchSortKeys;
+  reverse: boolean;
+} {
+  switch (sortParam) {
+    case 'price-high-low':
+      return {
+        sortKey: 'PRICE',
+        reverse: true,
+      };
+    case 'price-low-high':
+      return {
+        sortKey: 'PRICE',
+        reverse: false,
+      };
+    default:
+      return {
+        sortKey: 'RELEVANCE',
+        reverse: false,
+      };
+  }
+}
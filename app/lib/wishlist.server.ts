@@ -0,0 +1,103 @@
+import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
+
+import {signValue, verifySignature} from './signature.server';
+import type {Storefront} from './type';
+
+export const SHARED_WISHLIST_PATH = '/wishlist/shared';
+const PRODUCTS_PARAM = 'products';
+const SIGNATURE_PARAM = 'signature';
+const PRODUCT_GID_PREFIX = 'gid://shopify/Product/';
+
+/** Keeps wishlist signatures from being valid for other signed links */
+function getSignedValue(products: string) {
+  return `wishlist:${products}`;
+}
+
+/**
+ * Public link to a read-only copy of a wishlist, in the shopper's locale. The
+ * product ids are part of the link and signed with `secret`, so a shared list
+ * can't be altered.
+ */
+export async function getWishlistShareUrl(
+  storefront: Storefront,
+  request: Request,
+  productIds: string[],
+  secret: string,
+) {
+  const products = productIds
+    .map((id) => id.replace(PRODUCT_GID_PREFIX, ''))
+    .join(',');
+
+  const url = new URL(
+    `${storefront.i18n.pathPrefix}${SHARED_WISHLIST_PATH}`,
+    request.url,
+  );
+  url.searchParams.set(PRODUCTS_PARAM, products);
+  url.searchParams.set(
+    SIGNATURE_PARAM,
+    await signValue(getSignedValue(products), secret),
+  );
+
+  return url.toString();
+}
+
+/**
+ * Product ids of the wishlist shared through `getWishlistShareUrl`, or `null`
+ * when the link was tampered with.
+ */
+export async function getSharedWishlistProductIds(
+  request: Request,
+  secret: string,
+) {
+  const searchParams = new URL(request.url).searchParams;
+  const products = searchParams.get(PRODUCTS_PARAM);
+  const signature = searchParams.get(SIGNATURE_PARAM);
+
+  if (!products || !signature) return null;
+
+  const isValid = await verifySignature(
+    getSignedValue(products),
+    signature,
+    secret,
+  );
+  if (!isValid) return null;
+
+  return products
+    .split(',')
+    .filter((id) => /^\d+$/.test(id))
+    .map((id) => `${PRODUCT_GID_PREFIX}${id}`);
+}
+
+/**
+ * Loads wishlist products for `ProductCard`, in the order of the list.
+ * Products that were deleted or unpublished are left out.
+ */
+export async function getWishlistProducts(
+  storefront: Storefront,
+  productIds: string[],
+) {
+  if (!productIds.length) return [];
+
+  const {nodes} = await storefront.query(WISHLIST_PRODUCTS_QUERY, {
+    variables: {
+      ids: productIds,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+  });
+
+  return nodes.flatMap((node) => (node && 'variants' in node ? [node] : []));
+}
+
+const WISHLIST_PRODUCTS_QUERY = `#graphql
+  query WishlistProducts(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      ...ProductCard
+    }
+  }
+  ${PRODUCT_CARD_FRAGMENT}
+` as const;
@@ -25,15 +25,18 @@ import {
 } from '@shopify/hydrogen';
 import invariant from 'tiny-invariant';
 
-import { PageLayout } from '~/components/PageLayout';
-import { GenericError } from '~/components/GenericError';
-import { NotFound } from '~/components/NotFound';
+import {PageLayout} from '~/components/PageLayout';
+import {GenericError} from '~/components/GenericError';
+import {NotFound} from '~/components/NotFound';
+import {SearchAnalytics} from '~/components/SearchAnalytics';
 import favicon from '~/assets/favicon.svg';
-import { seoPayload } from '~/lib/seo.server';
+import {seoPayload} from '~/lib/seo.server';
+import {getCartIncentives} from '~/lib/incentives.server';
+import {getCustomerList} from '~/lib/customer-lists.server';
 import styles from '~/styles/app.css?url';
 import heroParallaxStyles from '~/styles/hero-parallax.css?url';
 
-import { DEFAULT_LOCALE, parseMenu } from './lib/utils';
+import {DEFAULT_LOCALE, parseMenu} from './lib/utils';
 
 export type RootLoader = typeof loader;
 
@@ -66,7 +69,7 @@ export const links: LinksFunction = () => {
       rel: 'preconnect',
       href: 'https://shop.app',
     },
-    { rel: 'icon', type: 'image/svg+xml', href: favicon },
+    {rel: 'icon', type: 'image/svg+xml', href: favicon},
     {
       rel: 'preconnect',
       href: 'https://fonts.googleapis.com',
@@ -105,16 +108,16 @@ export async function loader(args: LoaderFunctionArgs) {
  * Load data necessary for rendering content above the fold. This is the critical data
  * needed to render the page. If it's unavailable, the whole page should 400 or 500 error.
  */
-async function loadCriticalData({ request, context }: LoaderFunctionArgs) {
+async function loadCriticalData({request, context}: LoaderFunctionArgs) {
   try {
     const [layout] = await Promise.all([
       getLayoutData(context),
       // Add other queries here, so that they are loaded in parallel
     ]);
 
-    const seo = seoPayload.root({ shop: layout.shop, url: request.url });
+    const seo = seoPayload.root({shop: layout.shop, url: request.url});
 
-    const { storefront, env } = context;
+    const {storefront, env, session} = context;
 
     return {
       layout,
@@ -129,6 +132,7 @@ async function loadCriticalData({ request, context }: LoaderFunctionArgs) {
         withPrivacyBanner: true,
       },
       selectedLocale: storefront.i18n,
+      flashMessage: session.getFlash('flashMessage') ?? null,
     };
   } catch (error) {
     console.error('Error loading critical data:', error);
@@ -141,28 +145,40 @@ async function loadCriticalData({ request, context }: LoaderFunctionArgs) {
  * fetched after the initial page load. If it's unavailable, the page should still 200.
  * Make sure to not throw any errors here, as it will cause the page to 500.
  */
-function loadDeferredData({ context }: LoaderFunctionArgs) {
-  const { cart, customerAccount } = context;
+function loadDeferredData({context}: LoaderFunctionArgs) {
+  const {cart, customerAccount, storefront} = context;
 
   return {
     isLoggedIn: customerAccount.isLoggedIn(),
     cart: cart.get(),
+    cartIncentives: getCartIncentives(storefront).catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error(error);
+      return [];
+    }),
+    wishlist: getCustomerList(context, 'wishlist')
+      .then((items) => items.map((item) => item.productId))
+      .catch((error) => {
+        // eslint-disable-next-line no-console
+        console.error(error);
+        return [] as string[];
+      }),
   };
 }
 
 // Fixed meta function with proper null checking
-export const meta: MetaFunction<typeof loader> = ({ data }) => {
+export const meta: MetaFunction<typeof loader> = ({data}) => {
   if (!data || !data.seo) {
     return [
-      { title: 'Run The City Shoes' },
-      { description: 'Premium running shoes store' },
+      {title: 'Run The City Shoes'},
+      {description: 'Premium running shoes store'},
     ];
   }
 
   return getSeoMeta(data.seo as SeoConfig);
 };
 
-function Layout({ children }: { children?: React.ReactNode }) {
+function Layout({children}: {children?: React.ReactNode}) {
   const nonce = useNonce();
   const data = useRouteLoaderData<typeof loader>('root');
   const locale = data?.selectedLocale ?? DEFAULT_LOCALE;
@@ -190,6 +206,7 @@ function Layout({ children }: { children?: React.ReactNode }) {
             >
               {children}
             </PageLayout>
+            <SearchAnalytics />
           </Analytics.Provider>
         ) : (
           children
@@ -229,7 +246,7 @@ export function ErrorBoundary() {
             <NotFound type={pageType} />
           ) : (
             <GenericError
-              error={{ message: `${routeError.status} ${routeError.data}` }}
+              error={{message: `${routeError.status} ${routeError.data}`}}
             />
           )}
         </>
@@ -298,7 +315,7 @@ const LAYOUT_QUERY = `#graphql
   }
 ` as const;
 
-async function getLayoutData({ storefront, env }: AppLoadContext) {
+async function getLayoutData({storefront, env}: AppLoadContext) {
   const data = await storefront.query(LAYOUT_QUERY, {
     variables: {
       headerMenuHandle: 'main-menu',
@@ -317,25 +334,25 @@ async function getLayoutData({ storefront, env }: AppLoadContext) {
       - /blog/news/blog-post -> /news/blog-post
       - /collections/all -> /products
   */
-  const customPrefixes = { BLOG: '', CATALOG: 'products' };
+  const customPrefixes = {BLOG: '', CATALOG: 'products'};
 
   const headerMenu = data?.headerMenu
     ? parseMenu(
-      data.headerMenu,
-      data.shop.primaryDomain.url,
-      env,
-      customPrefixes,
-    )
+        data.headerMenu,
+        data.shop.primaryDomain.url,
+        env,
+        customPrefixes,
+      )
     : undefined;
 
   const footerMenu = data?.footerMenu
     ? parseMenu(
-      data.footerMenu,
-      data.shop.primaryDomain.url,
-      env,
-      customPrefixes,
-    )
+        data.footerMenu,
+        data.shop.primaryDomain.url,
+        env,
+        customPrefixes,
+      )
     : undefined;
 
-  return { shop: data.shop, headerMenu, footerMenu };
+  return {shop: data.shop, headerMenu, footerMenu};
 }
@@ -3,17 +3,14 @@ import {
   type MetaArgs,
   type LoaderFunctionArgs,
 } from '@shopify/remix-oxygen';
-import { useLoaderData } from '@remix-run/react';
-import { getSeoMeta } from '@shopify/hydrogen';
-
-import { HeroParallax } from '~/components/HeroParallax';
-import { ProductCarousel } from '~/components/ProductCarousel';
-import { ReviewsSection } from '~/components/ReviewSection';
-import { HERO_PARALLAX_QUERY } from '~/graphql/hero.query';
-import { PRODUCT_SHOWCASE_QUERY } from '~/graphql/product.query';
-import { REVIEWS_SECTION_QUERY } from '~/graphql/reviews.query';
-import { seoPayload } from '~/lib/seo.server';
-import { routeHeaders } from '~/data/cache';
+import {useLoaderData} from '@remix-run/react';
+import {getSeoMeta} from '@shopify/hydrogen';
+
+import {Sections, type HomepageSection} from '~/components/Sections';
+import {getHomepageSections} from '~/lib/sections.server';
+import {getPreviewDate} from '~/lib/preview.server';
+import {seoPayload} from '~/lib/seo.server';
+import {CACHE_NONE, routeHeaders} from '~/data/cache';
 
 export const headers = routeHeaders;
 
@@ -23,37 +20,47 @@ interface LoaderData {
     name: string;
     description: string;
   };
-  heroParallax: any;
-  productShowcase: any;
-  reviewsSection: any;
+  sections: HomepageSection[];
+  /** Moment a signed `preview_at` link renders the homepage for */
+  previewAt: string | null;
   seo: any;
 }
 
 // ===== LOADER =====
 export async function loader(args: LoaderFunctionArgs) {
-  const { params, context } = args;
-  const { language, country } = context.storefront.i18n;
+  const {params, context} = args;
+  const {language, country} = context.storefront.i18n;
 
   // Validate locale
   if (
     params.locale &&
     params.locale.toLowerCase() !== `${language}-${country}`.toLowerCase()
   ) {
-    throw new Response(null, { status: 404 });
+    throw new Response(null, {status: 404});
   }
 
   try {
     const criticalData = await loadCriticalData(args);
-    return defer({ ...criticalData });
+
+    // The document carries per-shopper root loader data, so only the
+    // Storefront sub-requests behind the sections are cached
+    return defer(
+      {...criticalData},
+      {
+        headers: {
+          'Cache-Control': CACHE_NONE,
+          ...(criticalData.previewAt && {'X-Robots-Tag': 'noindex'}),
+        },
+      },
+    );
   } catch (error) {
     console.error('[Homepage Loader] Critical error:', error);
     // Return minimal data to prevent complete page failure
     return defer({
-      shop: { name: 'Store', description: '' },
-      heroParallax: null,
-      productShowcase: null,
-      reviewsSection: null,
-      seo: seoPayload.home({ url: args.request.url }),
+      shop: {name: 'Store', description: ''},
+      sections: [],
+      previewAt: null,
+      seo: seoPayload.home({url: args.request.url}),
     });
   }
 }
@@ -64,79 +71,54 @@ async function loadCriticalData({
   request,
 }: LoaderFunctionArgs): Promise<LoaderData> {
   try {
+    // Staff can preview scheduled sections at a future moment
+    const previewDate = await getPreviewDate(
+      request,
+      context.env.PREVIEW_SECRET,
+    );
+
     // Execute all queries in parallel with individual error handling
-    const [shopResult, heroResult, productResult, reviewsResult] =
-      await Promise.allSettled([
-        context.storefront.query(HOMEPAGE_SEO_QUERY),
-        context.storefront.query(HERO_PARALLAX_QUERY, {
-          variables: { handle: 'welcome-to-sneaker-store' },
-        }),
-        context.storefront.query(PRODUCT_SHOWCASE_QUERY, {
-          variables: { handle: 'our-products' },
-        }),
-        context.storefront.query(REVIEWS_SECTION_QUERY, {
-          variables: { handle: 'what-our-customers-say' },
-        }),
-      ]);
+    const [shopResult, sectionsResult] = await Promise.allSettled([
+      context.storefront.query(HOMEPAGE_SEO_QUERY),
+      getHomepageSections(context.storefront, {
+        now: previewDate ?? new Date(),
+      }),
+    ]);
 
     // Extract results with fallbacks
     const shop =
       shopResult.status === 'fulfilled' && shopResult.value?.shop
         ? shopResult.value.shop
-        : { name: 'Store', description: '' };
-
-    const heroParallax =
-      heroResult.status === 'fulfilled' && heroResult.value?.metaobject
-        ? heroResult.value.metaobject
-        : null;
-
-    const productShowcase =
-      productResult.status === 'fulfilled' && productResult.value?.metaobject
-        ? productResult.value.metaobject
-        : null;
+        : {name: 'Store', description: ''};
 
-    const reviewsSection =
-      reviewsResult.status === 'fulfilled' && reviewsResult.value?.metaobject
-        ? reviewsResult.value.metaobject
-        : null;
+    const sections =
+      sectionsResult.status === 'fulfilled' ? sectionsResult.value : [];
 
     // Log results for debugging
     if (process.env.NODE_ENV === 'development') {
       console.log('✅ Shop Data:', shop ? 'SUCCESS' : 'FAILED');
       console.log(
-        '✅ Hero Parallax:',
-        heroParallax ? 'SUCCESS' : 'FAILED',
-      );
-      console.log(
-        '✅ Product Showcase:',
-        productShowcase ? 'SUCCESS' : 'FAILED',
-      );
-      console.log(
-        '✅ Reviews Section:',
-        reviewsSection ? 'SUCCESS' : 'FAILED',
+        '✅ Homepage Sections:',
+        sections.map((section) => section.type).join(', ') || 'NONE',
       );
 
       // Log errors if any
       if (shopResult.status === 'rejected') {
         console.error('[Shop Query] Error:', shopResult.reason);
       }
-      if (heroResult.status === 'rejected') {
-        console.error('[Hero Parallax Query] Error:', heroResult.reason);
-      }
-      if (productResult.status === 'rejected') {
-        console.error('[Product Showcase Query] Error:', productResult.reason);
-      }
-      if (reviewsResult.status === 'rejected') {
-        console.error('[Reviews Section Query] Error:', reviewsResult.reason);
+      if (sectionsResult.status === 'rejected') {
+        console.error(
+          '[Homepage Sections Query] Error:',
+          sectionsResult.reason,
+        );
       }
     }
 
     return {
       shop,
-      heroParallax,
-      productShowcase,
-      reviewsSection,
-      seo: seoPayload.home({ url: request.url }),
+      sections,
+      previewAt: previewDate?.toISOString() ?? null,
+      seo: seoPayload.home({url: request.url}),
     };
   } catch (error) {
     console.error('[loadCriticalData] Unexpected error:', error);
@@ -145,41 +127,27 @@ async function loadCriticalData({
 }
 
 // ===== META =====
-export const meta = ({ matches }: MetaArgs<typeof loader>) => {
+export const meta = ({matches}: MetaArgs<typeof loader>) => {
   return getSeoMeta(...matches.map((match) => (match.data as any).seo));
 };
 
 // ===== COMPONENT =====
 export default function Homepage() {
-  const { heroParallax, productShowcase, reviewsSection } =
-    useLoaderData<typeof loader>();
+  const {sections, previewAt} = useLoaderData<typeof loader>();
 
   return (
     <div className="homepage-container">
-      {/* 1. Hero Parallax Section */}
-      {heroParallax ? (
-        <HeroParallax metaobject={heroParallax} />
-      ) : (
-        <div className="section-placeholder">
-          <p>Hero section loading...</p>
-        </div>
-      )}
-
-      {/* 2. Product Carousel Section with LightRays */}
-      {productShowcase ? (
-        <ProductCarousel metaobject={productShowcase} />
-      ) : (
-        <div className="section-placeholder">
-          <p>Products loading...</p>
+      {previewAt && (
+        <div className="homepage-preview-banner">
+          Previewing the homepage as of {new Date(previewAt).toUTCString()}
         </div>
       )}
 
-      {/* 3. Reviews Section - Infinite Vertical Scroll */}
-      {reviewsSection ? (
-        <ReviewsSection metaobject={reviewsSection} />
+      {sections.length > 0 ? (
+        <Sections sections={sections as HomepageSection[]} />
       ) : (
         <div className="section-placeholder">
-          <p>Reviews loading...</p>
+          <p>Homepage sections loading...</p>
         </div>
       )}
 
@@ -191,6 +159,17 @@ export default function Homepage() {
           overflow-x: hidden;
         }
 
+        .homepage-preview-banner {
+          position: sticky;
+          top: 0;
+          z-index: 50;
+          padding: 0.5rem 1rem;
+          background: #ffa500;
+          color: #0a0a0a;
+          font-size: 0.875rem;
+          text-align: center;
+        }
+
         .section-placeholder {
           min-height: 100vh;
           display: flex;
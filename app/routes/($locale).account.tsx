@@ -16,6 +16,7 @@ import type {
 } from 'customer-accountapi.generated';
 import {PageHeader, Text} from '~/components/Text';
 import {Button} from '~/components/Button';
+import {Link} from '~/components/Link';
 import {OrderCard} from '~/components/OrderCard';
 import {AccountDetails} from '~/components/AccountDetails';
 import {AccountAddressBook} from '~/components/AccountAddressBook';
@@ -110,11 +111,19 @@ function Account({customer, heading, featuredDataPromise}: AccountType) {
   return (
     <>
       <PageHeader heading={heading}>
-        <Form method="post" action={usePrefixPathWithLocale('/account/logout')}>
-          <button type="submit" className="text-primary/50">
-            Sign out
-          </button>
-        </Form>
+        <div className="flex items-center gap-6">
+          <Link to="/account/wishlist" className="text-primary/50">
+            Wishlist
+          </Link>
+          <Form
+            method="post"
+            action={usePrefixPathWithLocale('/account/logout')}
+          >
+            <button type="submit" className="text-primary/50">
+              Sign out
+            </button>
+          </Form>
+        </div>
       </PageHeader>
       {orders && <AccountOrderHistory orders={orders} />}
       <AccountDetails customer={customer} />
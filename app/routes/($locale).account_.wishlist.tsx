@@ -0,0 +1,124 @@
+import {useState} from 'react';
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+import {useLoaderData, type MetaFunction} from '@remix-run/react';
+
+import {PageHeader, Section, Text} from '~/components/Text';
+import {Button} from '~/components/Button';
+import {Link} from '~/components/Link';
+import {Grid} from '~/components/Grid';
+import {ProductCard} from '~/components/ProductCard';
+import {CACHE_NONE, routeHeaders} from '~/data/cache';
+import {getImageLoadingPriority} from '~/lib/const';
+import {getInputStyleClasses} from '~/lib/utils';
+import {getCustomerList} from '~/lib/customer-lists.server';
+import {getWishlistProducts, getWishlistShareUrl} from '~/lib/wishlist.server';
+
+export const headers = routeHeaders;
+
+export const meta: MetaFunction = () => {
+  return [{title: 'Wishlist'}];
+};
+
+/**
+ * The shopper's wishlist. Not nested in the account layout, so guests can see
+ * the list kept in their session until they log in.
+ */
+export async function loader({request, context}: LoaderFunctionArgs) {
+  const items = await getCustomerList(context, 'wishlist');
+  const isLoggedIn = await context.customerAccount.isLoggedIn();
+  const productIds = items.map((item) => item.productId);
+
+  const [products, shareUrl] = await Promise.all([
+    getWishlistProducts(context.storefront, productIds),
+    productIds.length
+      ? getWishlistShareUrl(
+          context.storefront,
+          request,
+          productIds,
+          context.env.SESSION_SECRET,
+        )
+      : null,
+  ]);
+
+  return json(
+    {products, shareUrl, isLoggedIn},
+    {headers: {'Cache-Control': CACHE_NONE}},
+  );
+}
+
+export default function Wishlist() {
+  const {products, shareUrl, isLoggedIn} = useLoaderData<typeof loader>();
+
+  return (
+    <>
+      <PageHeader heading="Wishlist">
+        {!isLoggedIn && (
+          <Text as="p" size="fine">
+            <Link to="/account/login" className="underline">
+              Log in
+            </Link>{' '}
+            to keep your wishlist on every device.
+          </Text>
+        )}
+        {shareUrl && <ShareWishlist url={shareUrl} />}
+      </PageHeader>
+      <Section>
+        {products.length ? (
+          <Grid data-test="wishlist-grid">
+            {products.map((product, i) => (
+              <ProductCard
+                key={product.id}
+                product={product}
+                loading={getImageLoadingPriority(i)}
+                quickAdd
+              />
+            ))}
+          </Grid>
+        ) : (
+          <div className="grid gap-4">
+            <Text as="p" size="fine">
+              Tap the heart on a product to save it here.
+            </Text>
+            <div className="w-48">
+              <Button className="w-full" variant="secondary" to="/products">
+                Browse products
+              </Button>
+            </div>
+          </div>
+        )}
+      </Section>
+    </>
+  );
+}
+
+function ShareWishlist({url}: {url: string}) {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <div className="flex items-center w-full max-w-xl gap-4">
+      <label htmlFor="wishlist-share-url" className="sr-only">
+        Share link
+      </label>
+      <input
+        id="wishlist-share-url"
+        type="text"
+        readOnly
+        value={url}
+        onFocus={(event) => event.currentTarget.select()}
+        className={getInputStyleClasses()}
+      />
+      <button
+        type="button"
+        className="font-medium whitespace-nowrap"
+        onClick={() => {
+          navigator.clipboard
+            .writeText(url)
+            .then(() => setCopied(true))
+            .catch(() => setCopied(false));
+        }}
+      >
+        {copied ? 'Link copied' : 'Copy share link'}
+      </button>
+    </div>
+  );
+}
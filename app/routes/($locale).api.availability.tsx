@@ -0,0 +1,44 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+
+import {SHOWCASE_AVAILABILITY_QUERY} from '~/graphql/product.query';
+
+const MAX_IDS = 20;
+
+/**
+ * Fetch the current availability and pricing of a set of products, bypassing
+ * the cache so cached pages can refresh their stock status
+ * @param ids comma separated product ids
+ * @returns Product[]
+ */
+export async function loader({
+  request,
+  context: {storefront},
+}: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const ids = (url.searchParams.get('ids') ?? '')
+    .split(',')
+    .filter((id) => id.startsWith('gid://shopify/Product/'))
+    .slice(0, MAX_IDS);
+
+  if (!ids.length) {
+    return json({products: []});
+  }
+
+  const {nodes} = await storefront.query(SHOWCASE_AVAILABILITY_QUERY, {
+    variables: {
+      ids,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheNone(),
+  });
+
+  return json({
+    products: nodes.filter(Boolean),
+  });
+}
+
+// no-op
+export default function AvailabilityApiRoute() {
+  return null;
+}
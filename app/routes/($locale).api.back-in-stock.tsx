@@ -0,0 +1,106 @@
+import {json, type ActionFunctionArgs} from '@shopify/remix-oxygen';
+import invariant from 'tiny-invariant';
+
+import {CUSTOMER_EMAIL_QUERY} from '~/graphql/customer-account/CustomerEmailQuery';
+
+export interface BackInStockActionData {
+  success?: boolean;
+  message?: string;
+  formError?: string;
+  fieldErrors?: {
+    email?: string;
+  };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Sign up for an email when a sold-out variant is back in stock. Logged-in
+ * customers are subscribed with the email of their account.
+ * @param variantId
+ * @param email required for guests
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const {customerAccount, storefront, backInStock} = context;
+
+  if (!backInStock) {
+    return json<BackInStockActionData>(
+      {formError: 'Back-in-stock emails aren’t available right now.'},
+      {status: 503},
+    );
+  }
+
+  const formData = await request.formData();
+  const variantId = formData.get('variantId');
+  invariant(typeof variantId === 'string', 'Missing variantId');
+
+  let email = String(formData.get('email') ?? '').trim();
+  let customerId: string | null = null;
+
+  if (await customerAccount.isLoggedIn()) {
+    const {data, errors} = await customerAccount.query(CUSTOMER_EMAIL_QUERY);
+    if (errors?.length || !data?.customer) {
+      return json<BackInStockActionData>(
+        {formError: 'We could not load your account, please try again.'},
+        {status: 500},
+      );
+    }
+
+    customerId = data.customer.id;
+    email = data.customer.emailAddress?.emailAddress ?? email;
+  }
+
+  if (!EMAIL_PATTERN.test(email)) {
+    return json<BackInStockActionData>(
+      {fieldErrors: {email: 'Enter a valid email address.'}},
+      {status: 400},
+    );
+  }
+
+  const {variant} = await storefront.query(BACK_IN_STOCK_VARIANT_QUERY, {
+    variables: {id: variantId},
+    cache: storefront.CacheNone(),
+  });
+
+  if (!variant || !('availableForSale' in variant)) {
+    throw new Response('variant', {status: 404});
+  }
+
+  if (variant.availableForSale) {
+    return json<BackInStockActionData>(
+      {formError: 'This item is back in stock, add it to your cart now.'},
+      {status: 400},
+    );
+  }
+
+  const isSubscribed = await backInStock.subscribe({
+    id: crypto.randomUUID(),
+    variantId: variant.id,
+    email: email.toLowerCase(),
+    customerId,
+    createdAt: new Date().toISOString(),
+  });
+
+  return json<BackInStockActionData>({
+    success: true,
+    message: isSubscribed
+      ? `We'll email ${email} when it's back in stock.`
+      : `${email} is already on the list for this item.`,
+  });
+}
+
+const BACK_IN_STOCK_VARIANT_QUERY = `#graphql
+  query BackInStockVariant($id: ID!) {
+    variant: node(id: $id) {
+      ... on ProductVariant {
+        id
+        availableForSale
+      }
+    }
+  }
+` as const;
+
+// no-op
+export default function BackInStockApiRoute() {
+  return null;
+}
@@ -0,0 +1,202 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+import type {Image, MoneyV2} from '@shopify/hydrogen/storefront-api-types';
+
+import {CACHE_SHORT} from '~/data/cache';
+import {JOURNAL_BLOG_HANDLE} from '~/lib/const';
+import {getSearchEvent, type SearchEvent} from '~/lib/search-analytics';
+
+const DEFAULT_LIMIT = 4;
+const MAX_LIMIT = 10;
+
+export type PredictiveSearchItem = {
+  id: string;
+  title: string;
+  url: string;
+  image?: Pick<Image, 'url' | 'altText'> | null;
+  price?: MoneyV2 | null;
+};
+
+export type PredictiveSearchResults = {
+  term: string;
+  queries: {text: string; url: string}[];
+  products: PredictiveSearchItem[];
+  collections: PredictiveSearchItem[];
+  pages: PredictiveSearchItem[];
+  articles: PredictiveSearchItem[];
+  /** Published on the `Analytics` bus by the search input */
+  searchEvent: SearchEvent | null;
+};
+
+/**
+ * Instant results for a partial search term, shown while the shopper types.
+ * @param q the search term
+ * @param limit results per type, 4 by default
+ * @returns PredictiveSearchResults
+ * @see https://shopify.dev/docs/api/storefront/latest/queries/predictiveSearch
+ */
+export async function loader({
+  request,
+  context: {storefront},
+}: LoaderFunctionArgs) {
+  const searchParams = new URL(request.url).searchParams;
+  const term = (searchParams.get('q') ?? '').trim();
+  const limit = Math.min(
+    Number(searchParams.get('limit')) || DEFAULT_LIMIT,
+    MAX_LIMIT,
+  );
+
+  if (!term) {
+    return json<PredictiveSearchResults>(getEmptyResults(term));
+  }
+
+  const {predictiveSearch} = await storefront.query(PREDICTIVE_SEARCH_QUERY, {
+    variables: {
+      term,
+      limit,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheShort(),
+  });
+
+  if (!predictiveSearch) {
+    return json<PredictiveSearchResults>(getEmptyResults(term));
+  }
+
+  // Articles of other blogs have no page to link to
+  const articles = predictiveSearch.articles.filter(
+    (article) => article.blog.handle === JOURNAL_BLOG_HANDLE,
+  );
+
+  const resultCount =
+    predictiveSearch.products.length +
+    predictiveSearch.collections.length +
+    predictiveSearch.pages.length +
+    articles.length;
+
+  return json<PredictiveSearchResults>(
+    {
+      term,
+      queries: predictiveSearch.queries.map(({text}) => ({
+        text,
+        url: `/search?q=${encodeURIComponent(text)}`,
+      })),
+      products: predictiveSearch.products.map((product) => {
+        const variant = product.selectedOrFirstAvailableVariant;
+        return {
+          id: product.id,
+          title: product.title,
+          url: `/products/${product.handle}`,
+          image: variant?.image ?? product.featuredImage,
+          price: variant?.price,
+        };
+      }),
+      collections: predictiveSearch.collections.map((collection) => ({
+        id: collection.id,
+        title: collection.title,
+        url: `/collections/${collection.handle}`,
+        image: collection.image,
+      })),
+      pages: predictiveSearch.pages.map((page) => ({
+        id: page.id,
+        title: page.title,
+        url: `/pages/${page.handle}`,
+      })),
+      articles: articles.map((article) => ({
+        id: article.id,
+        title: article.title,
+        url: `/journal/${article.handle}`,
+        image: article.image,
+      })),
+      searchEvent: getSearchEvent(
+        'predictive',
+        term,
+        storefront.i18n,
+        resultCount,
+      ),
+    },
+    {headers: {'Cache-Control': CACHE_SHORT}},
+  );
+}
+
+function getEmptyResults(term: string): PredictiveSearchResults {
+  return {
+    term,
+    queries: [],
+    products: [],
+    collections: [],
+    pages: [],
+    articles: [],
+    searchEvent: null,
+  };
+}
+
+const PREDICTIVE_SEARCH_QUERY = `#graphql
+  query PredictiveSearch(
+    $term: String!
+    $limit: Int!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    predictiveSearch(
+      query: $term
+      limit: $limit
+      limitScope: EACH
+      types: [QUERY, PRODUCT, COLLECTION, PAGE, ARTICLE]
+    ) {
+      queries {
+        text
+      }
+      products {
+        id
+        title
+        handle
+        featuredImage {
+          url
+          altText
+        }
+        selectedOrFirstAvailableVariant {
+          image {
+            url
+            altText
+          }
+          price {
+            amount
+            currencyCode
+          }
+        }
+      }
+      collections {
+        id
+        title
+        handle
+        image {
+          url
+          altText
+        }
+      }
+      pages {
+        id
+        title
+        handle
+      }
+      articles {
+        id
+        title
+        handle
+        blog {
+          handle
+        }
+        image {
+          url
+          altText
+        }
+      }
+    }
+  }
+` as const;
+
+// no-op
+export default function PredictiveSearchApiRoute() {
+  return null;
+}
@@ -0,0 +1,42 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {createPreviewUrl} from '~/lib/preview.server';
+
+/**
+ * Generates a signed homepage preview link for staff. Requires
+ * `Authorization: Bearer <PREVIEW_LINK_TOKEN>`, links expire after a week.
+ * @param at ISO date time the homepage is previewed at
+ */
+export async function loader({request, context, params}: LoaderFunctionArgs) {
+  const {PREVIEW_SECRET, PREVIEW_LINK_TOKEN} = context.env;
+
+  if (
+    !PREVIEW_SECRET ||
+    !PREVIEW_LINK_TOKEN ||
+    request.headers.get('Authorization') !== `Bearer ${PREVIEW_LINK_TOKEN}`
+  ) {
+    throw new Response('Unauthorized', {status: 401});
+  }
+
+  const at = new URL(request.url).searchParams.get('at');
+  const previewAt = at ? new Date(at) : null;
+  if (!previewAt || Number.isNaN(previewAt.valueOf())) {
+    throw new Response('Expected at=<ISO date time>', {status: 400});
+  }
+
+  const homepageUrl = new URL(
+    params.locale ? `/${params.locale}` : '/',
+    request.url,
+  );
+  const previewUrl = await createPreviewUrl(
+    homepageUrl,
+    previewAt,
+    PREVIEW_SECRET,
+  );
+
+  return json(
+    {url: previewUrl.toString()},
+    {headers: {'Cache-Control': CACHE_NONE}},
+  );
+}
@@ -0,0 +1,107 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+import {getSelectedProductOptions} from '@shopify/hydrogen';
+import invariant from 'tiny-invariant';
+
+import {
+  MEDIA_FRAGMENT,
+  PRODUCT_VARIANT_FRAGMENT,
+  SELLING_PLAN_GROUP_FRAGMENT,
+} from '~/data/fragments';
+
+/**
+ * Fetch the slimmed down product shown in the quick-view modal, with the
+ * variant selected by the option search params. `product` is `null` when the
+ * handle doesn't exist, so the modal can say so.
+ * @see QuickView
+ */
+export async function loader({
+  params,
+  request,
+  context: {storefront},
+}: LoaderFunctionArgs) {
+  const {productHandle} = params;
+  invariant(productHandle, 'Missing productHandle param, check route filename');
+
+  const {product, shop} = await storefront.query(QUICK_VIEW_PRODUCT_QUERY, {
+    variables: {
+      handle: productHandle,
+      selectedOptions: getSelectedProductOptions(request),
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+  });
+
+  return json({
+    product: product?.id ? product : null,
+    storeDomain: shop.primaryDomain.url,
+  });
+}
+
+const QUICK_VIEW_PRODUCT_QUERY = `#graphql
+  query QuickViewProduct(
+    $country: CountryCode
+    $language: LanguageCode
+    $handle: String!
+    $selectedOptions: [SelectedOptionInput!]!
+  ) @inContext(country: $country, language: $language) {
+    product(handle: $handle) {
+      id
+      title
+      vendor
+      handle
+      requiresSellingPlan
+      sellingPlanGroups(first: 5) {
+        nodes {
+          ...SellingPlanGroup
+        }
+      }
+      encodedVariantExistence
+      encodedVariantAvailability
+      options {
+        name
+        optionValues {
+          name
+          firstSelectableVariant {
+            ...ProductVariant
+          }
+          swatch {
+            color
+            image {
+              previewImage {
+                url
+              }
+            }
+          }
+        }
+      }
+      selectedOrFirstAvailableVariant(
+        selectedOptions: $selectedOptions
+        ignoreUnknownOptions: true
+        caseInsensitiveMatch: true
+      ) {
+        ...ProductVariant
+      }
+      adjacentVariants(selectedOptions: $selectedOptions) {
+        ...ProductVariant
+      }
+      media(first: 4) {
+        nodes {
+          ...Media
+        }
+      }
+    }
+    shop {
+      primaryDomain {
+        url
+      }
+    }
+  }
+  ${MEDIA_FRAGMENT}
+  ${PRODUCT_VARIANT_FRAGMENT}
+  ${SELLING_PLAN_GROUP_FRAGMENT}
+` as const;
+
+// no-op
+export default function QuickViewApiRoute() {
+  return null;
+}
@@ -0,0 +1,87 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+import type {ProductRecommendationIntent} from '@shopify/hydrogen/storefront-api-types';
+
+import type {ProductCardFragment} from 'storefrontapi.generated';
+import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
+
+const MAX_SOURCE_PRODUCTS = 5;
+const RECOMMENDATION_INTENTS: ProductRecommendationIntent[] = [
+  'RELATED',
+  'COMPLEMENTARY',
+];
+
+/**
+ * Fetch recommendations for one or more products, e.g. the lines of a cart.
+ * Products recommended for several of them are only returned once and the
+ * given products themselves are left out.
+ * @param productId repeat for several products, recommendations are based on
+ * the first five
+ * @param intent RELATED (default) or COMPLEMENTARY, repeat for both in order
+ * @param count
+ * @returns Product[]
+ * @see https://shopify.dev/api/storefront/current/queries/productRecommendations
+ */
+export async function loader({
+  request,
+  context: {storefront},
+}: LoaderFunctionArgs) {
+  const searchParams = new URL(request.url).searchParams;
+
+  const productIds = searchParams.getAll('productId');
+  const intents = searchParams
+    .getAll('intent')
+    .filter((intent): intent is ProductRecommendationIntent =>
+      RECOMMENDATION_INTENTS.includes(intent as ProductRecommendationIntent),
+    );
+  const count = Math.min(Number(searchParams.get('count')) || 8, 20);
+
+  const results = await Promise.all(
+    (intents.length ? intents : ['RELATED' as const]).flatMap((intent) =>
+      productIds.slice(0, MAX_SOURCE_PRODUCTS).map((productId) =>
+        storefront.query(API_PRODUCT_RECOMMENDATIONS_QUERY, {
+          variables: {
+            productId,
+            intent,
+            country: storefront.i18n.country,
+            language: storefront.i18n.language,
+          },
+          cache: storefront.CacheShort(),
+        }),
+      ),
+    ),
+  );
+
+  const seen = new Set(productIds);
+  const products: ProductCardFragment[] = [];
+
+  for (const {productRecommendations} of results) {
+    for (const product of productRecommendations ?? []) {
+      if (seen.has(product.id)) continue;
+      seen.add(product.id);
+      products.push(product);
+    }
+  }
+
+  return json({
+    products: products.slice(0, count),
+  });
+}
+
+const API_PRODUCT_RECOMMENDATIONS_QUERY = `#graphql
+  query ApiProductRecommendations(
+    $productId: ID!
+    $intent: ProductRecommendationIntent
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    productRecommendations(productId: $productId, intent: $intent) {
+      ...ProductCard
+    }
+  }
+  ${PRODUCT_CARD_FRAGMENT}
+` as const;
+
+// no-op
+export default function RecommendationsApiRoute() {
+  return null;
+}
@@ -0,0 +1,99 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
+import invariant from 'tiny-invariant';
+
+import {CACHE_NONE} from '~/data/cache';
+import {getCustomerList, updateCustomerList} from '~/lib/customer-lists.server';
+
+/**
+ * Fetch the cart lines the shopper saved for later, with their current
+ * variant details. Variants that no longer exist are left out.
+ * @returns SavedLine[]
+ */
+export async function loader({context}: LoaderFunctionArgs) {
+  const {storefront} = context;
+  const savedLines = await getCustomerList(context, 'savedForLater');
+
+  if (!savedLines.length) {
+    return json({lines: []}, {headers: {'Cache-Control': CACHE_NONE}});
+  }
+
+  const {nodes} = await storefront.query(SAVED_FOR_LATER_VARIANTS_QUERY, {
+    variables: {
+      ids: savedLines.map((line) => line.merchandiseId),
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheNone(),
+  });
+
+  const lines = savedLines.flatMap((line) => {
+    const merchandise = nodes.find(
+      (node) => node && 'id' in node && node.id === line.merchandiseId,
+    );
+    return merchandise && 'product' in merchandise
+      ? [{...line, merchandise}]
+      : [];
+  });
+
+  return json({lines}, {headers: {'Cache-Control': CACHE_NONE}});
+}
+
+/**
+ * Remove a line from the saved for later list, moving it back to the cart
+ * goes through the cart action instead
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const merchandiseId = formData.get('merchandiseId');
+  invariant(typeof merchandiseId === 'string', 'Missing merchandiseId');
+
+  const lines = await updateCustomerList(context, 'savedForLater', (items) =>
+    items.filter((line) => line.merchandiseId !== merchandiseId),
+  );
+
+  return json({count: lines.length});
+}
+
+const SAVED_FOR_LATER_VARIANTS_QUERY = `#graphql
+  query SavedForLaterVariants(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        title
+        availableForSale
+        image {
+          id
+          url
+          altText
+          width
+          height
+        }
+        price {
+          amount
+          currencyCode
+        }
+        selectedOptions {
+          name
+          value
+        }
+        product {
+          handle
+          title
+        }
+      }
+    }
+  }
+` as const;
+
+// no-op
+export default function SavedForLaterApiRoute() {
+  return null;
+}
@@ -0,0 +1,80 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {parseSearchEvent} from '~/lib/search-analytics';
+import {
+  getSearchAnalyticsDate,
+  isSearchAnalyticsRequestAuthorized,
+} from '~/lib/search-analytics.server';
+
+const MAX_EVENTS_PER_REQUEST = 20;
+
+/**
+ * Records search events sent by the `SearchAnalytics` bus subscriber.
+ * @param body a JSON array of `SearchEvent`s, invalid events are dropped
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({message: 'Method not allowed'}, {status: 405});
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({message: 'Expected a JSON array of events'}, {status: 400});
+  }
+
+  const timestamp = new Date().toISOString();
+  const events = (Array.isArray(body) ? body : [body])
+    .slice(0, MAX_EVENTS_PER_REQUEST)
+    .map(parseSearchEvent)
+    .flatMap((event) => (event ? [{...event, timestamp}] : []));
+
+  if (events.length && context.searchEvents) {
+    context.waitUntil(context.searchEvents.record(events));
+  }
+
+  return new Response(null, {status: 204});
+}
+
+/**
+ * The search events of a day as JSON lines, for inspecting what shoppers
+ * search for. Requires `Authorization: Bearer <SEARCH_ANALYTICS_TOKEN>`.
+ * @param date `YYYY-MM-DD` in UTC, today by default
+ */
+export async function loader({request, context}: LoaderFunctionArgs) {
+  if (
+    !isSearchAnalyticsRequestAuthorized(
+      request,
+      context.env.SEARCH_ANALYTICS_TOKEN,
+    )
+  ) {
+    throw new Response('Unauthorized', {status: 401});
+  }
+
+  if (!context.searchEvents) {
+    throw new Response('Search events are not recorded', {status: 503});
+  }
+
+  const date = getSearchAnalyticsDate(request);
+  if (!date) {
+    throw new Response('Expected date=YYYY-MM-DD', {status: 400});
+  }
+
+  const events = await context.searchEvents.getEvents(date);
+
+  return new Response(
+    events.map((event) => `${JSON.stringify(event)}\n`).join(''),
+    {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': CACHE_NONE,
+      },
+    },
+  );
+}
@@ -0,0 +1,32 @@
+import {json, type ActionFunctionArgs} from '@shopify/remix-oxygen';
+import invariant from 'tiny-invariant';
+
+import {updateCustomerList} from '~/lib/customer-lists.server';
+
+/**
+ * Add a product to the shopper's wishlist or remove it
+ * @param productId
+ * @param intent add or remove
+ * @returns the product ids on the wishlist
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const productId = formData.get('productId');
+  const intent = formData.get('intent');
+
+  invariant(typeof productId === 'string', 'Missing productId');
+  invariant(intent === 'add' || intent === 'remove', 'Unknown intent');
+
+  const wishlist = await updateCustomerList(context, 'wishlist', (items) =>
+    intent === 'add'
+      ? [{productId, addedAt: new Date().toISOString()}, ...items]
+      : items.filter((item) => item.productId !== productId),
+  );
+
+  return json({productIds: wishlist.map((item) => item.productId)});
+}
+
+// no-op
+export default function WishlistApiRoute() {
+  return null;
+}
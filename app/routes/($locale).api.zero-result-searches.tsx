@@ -0,0 +1,56 @@
+import {type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {
+  getSearchAnalyticsDate,
+  isSearchAnalyticsRequestAuthorized,
+  summarizeZeroResultSearches,
+  toCsvRow,
+} from '~/lib/search-analytics.server';
+
+/**
+ * Daily export of the searches that found nothing, as a CSV for
+ * merchandising. Requires `Authorization: Bearer <SEARCH_ANALYTICS_TOKEN>`.
+ * @param date `YYYY-MM-DD` in UTC, today by default
+ */
+export async function loader({request, context}: LoaderFunctionArgs) {
+  if (
+    !isSearchAnalyticsRequestAuthorized(
+      request,
+      context.env.SEARCH_ANALYTICS_TOKEN,
+    )
+  ) {
+    throw new Response('Unauthorized', {status: 401});
+  }
+
+  if (!context.searchEvents) {
+    throw new Response('Search events are not recorded', {status: 503});
+  }
+
+  const date = getSearchAnalyticsDate(request);
+  if (!date) {
+    throw new Response('Expected date=YYYY-MM-DD', {status: 400});
+  }
+
+  const searches = summarizeZeroResultSearches(
+    await context.searchEvents.getEvents(date),
+  );
+
+  const rows = [
+    ['term', 'searches', 'locales', 'last_searched_at'],
+    ...searches.map((search) => [
+      search.term,
+      String(search.searches),
+      search.locales.join(' '),
+      search.lastSearchedAt,
+    ]),
+  ];
+
+  return new Response(rows.map((row) => toCsvRow(row)).join('\n'), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="zero-result-searches-${date}.csv"`,
+      'Cache-Control': CACHE_NONE,
+    },
+  });
+}
@@ -1,49 +1,95 @@
-import {redirect, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+import {
+  json,
+  redirect,
+  type AppLoadContext,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
+import {useLoaderData, type MetaFunction} from '@remix-run/react';
+
+import {PageHeader, Section, Text} from '~/components/Text';
+import {Button} from '~/components/Button';
+import {CACHE_NONE} from '~/data/cache';
+import {CART_DRAWER_PARAM} from '~/lib/cart';
+import {
+  addDiscountCodes,
+  getInapplicableDiscountCodes,
+} from '~/lib/cart.server';
+import {
+  type CartPermalink,
+  type CartPermalinkError,
+  getCartPermalinkPath,
+  getUnavailablePermalinkLines,
+  parseCartPermalink,
+} from '~/lib/cart-permalink.server';
+import type {FlashMessage} from '~/lib/session.server';
+
+export const meta: MetaFunction = () => {
+  return [{title: 'Cart link'}, {name: 'robots', content: 'noindex'}];
+};
 
 /**
  * Automatically creates a new cart based on the URL and redirects straight to checkout.
  * Expected URL structure:
  * ```ts
- * /cart/<variant_id>:<quantity>
+ * /cart/<variant_id>:<quantity>[:<selling_plan_id>]
  *
  * ```
- * More than one `<variant_id>:<quantity>` separated by a comma, can be supplied in the URL, for
+ * More than one line separated by a comma, can be supplied in the URL, for
  * carts with more than one product variant.
  *
- * @param `?discount` an optional discount code to apply to the cart
+ * @param `?discount` optional discount codes, comma separated or repeated
+ * @param `?note` an optional cart note
+ * @param `?attributes[<key>]` optional cart attributes
+ * @param `?properties[<line position>][<key>]` optional line attributes, the first line is 1
+ * @param `?redirect=cart` land in the cart drawer instead of checkout, with a flash message
+ * @param `?mode=merge` add to the shopper's current cart instead of creating a new one
  * @example
- * Example path creating a cart with two product variants, different quantities, and a discount code:
+ * Example path creating a cart with two product variants, the second one on a
+ * subscription and engraved, two discount codes and a note:
  * ```ts
- * /cart/41007289663544:1,41007289696312:2?discount=HYDROBOARD
+ * /cart/41007289663544:1,41007289696312:2:691208312?discount=HYDROBOARD,FREESHIP&properties[2][Engraving]=Ada&note=Happy%20birthday
  *
  * ```
+ * When a line can't be added, e.g. the variant no longer exists, a page lists
+ * the failed lines instead of creating a partial cart.
  * @preserve
  */
 export async function loader({request, context, params}: LoaderFunctionArgs) {
-  const {cart} = context;
-  const {lines} = params;
-  const linesMap = lines?.split(',').map((line) => {
-    const lineDetails = line.split(':');
-    const variantId = lineDetails[0];
-    const quantity = parseInt(lineDetails[1], 10);
-
-    return {
-      merchandiseId: `gid://shopify/ProductVariant/${variantId}`,
-      quantity,
-    };
-  });
+  const {cart, session, storefront} = context;
 
   const url = new URL(request.url);
-  const searchParams = new URLSearchParams(url.search);
+  const {permalink, errors} = parseCartPermalink(
+    params.lines ?? '',
+    url.searchParams,
+  );
 
-  const discount = searchParams.get('discount');
-  const discountArray = discount ? [discount] : [];
+  errors.push(
+    ...(await getUnavailablePermalinkLines(storefront, permalink.lines)),
+  );
+  if (errors.length) {
+    return permalinkErrorResponse(
+      permalink,
+      errors,
+      storefront.i18n.pathPrefix,
+    );
+  }
+
+  // A cookie left from a cart that no longer exists, e.g. after checkout,
+  // starts a new cart instead
+  const shouldMerge =
+    permalink.mode === 'merge' &&
+    Boolean(cart.getCartId()) &&
+    Boolean(await cart.get());
 
-  //! create a cart
-  const result = await cart.create({
-    lines: linesMap,
-    discountCodes: discountArray,
-  });
+  //! create a cart, or add to the shopper's cart in merge mode
+  const result = shouldMerge
+    ? await mergeIntoCart(cart, permalink)
+    : await cart.create({
+        lines: permalink.lines.map(({line}) => line),
+        discountCodes: permalink.discountCodes,
+        note: permalink.note,
+        attributes: permalink.attributes,
+      });
 
   const cartResult = result.cart;
 
@@ -53,9 +99,33 @@ export async function loader({request, context, params}: LoaderFunctionArgs) {
     });
   }
 
+  if (result.userErrors?.length) {
+    return permalinkErrorResponse(
+      permalink,
+      result.userErrors.map(({message}) => ({message})),
+      storefront.i18n.pathPrefix,
+    );
+  }
+
   // Update cart id in cookie
   const headers = cart.setCartId(cartResult.id);
 
+  if (permalink.redirect === 'cart') {
+    const inapplicableCodes = await getInapplicableDiscountCodes(
+      cart,
+      permalink.discountCodes,
+    );
+    session.flash(
+      'flashMessage',
+      getPermalinkFlashMessage(permalink, inapplicableCodes),
+    );
+
+    return redirect(
+      `${storefront.i18n.pathPrefix}/?${CART_DRAWER_PARAM}=open`,
+      {headers},
+    );
+  }
+
   //! redirect to checkout
   if (cartResult.checkoutUrl) {
     return redirect(cartResult.checkoutUrl, {headers});
@@ -64,6 +134,139 @@ export async function loader({request, context, params}: LoaderFunctionArgs) {
   }
 }
 
-export default function Component() {
-  return null;
+/**
+ * Adds the permalink to the shopper's cart. Discount codes are added to the
+ * cart's codes, the note and attributes replace the cart's when given. Errors
+ * of every step are returned, so none of them is dropped silently.
+ */
+async function mergeIntoCart(
+  cart: AppLoadContext['cart'],
+  permalink: CartPermalink,
+) {
+  const result = await cart.addLines(permalink.lines.map(({line}) => line));
+  if (result.errors?.length || result.userErrors?.length) return result;
+
+  const results = [result];
+
+  if (permalink.discountCodes.length) {
+    results.push(await addDiscountCodes(cart, permalink.discountCodes));
+  }
+
+  if (permalink.note) {
+    results.push(await cart.updateNote(permalink.note));
+  }
+
+  if (permalink.attributes.length) {
+    const current = await cart.get();
+    const keys = new Set(permalink.attributes.map(({key}) => key));
+    results.push(
+      await cart.updateAttributes([
+        ...(current?.attributes ?? [])
+          .filter(({key}) => !keys.has(key))
+          .map(({key, value}) => ({key, value: value ?? ''})),
+        ...permalink.attributes,
+      ]),
+    );
+  }
+
+  return {
+    cart: results[results.length - 1].cart ?? result.cart,
+    errors: results.flatMap(({errors}) => errors ?? []),
+    userErrors: results.flatMap(
+      ({userErrors}): {message: string}[] => userErrors ?? [],
+    ),
+  };
+}
+
+function getPermalinkFlashMessage(
+  permalink: CartPermalink,
+  inapplicableCodes: string[],
+): FlashMessage {
+  const quantity = permalink.lines.reduce(
+    (total, {line}) => total + (line.quantity ?? 1),
+    0,
+  );
+  const added = `Added ${quantity} ${
+    quantity === 1 ? 'item' : 'items'
+  } to your cart`;
+
+  if (inapplicableCodes.length) {
+    return {
+      status: 'error',
+      message: `${added}, discount ${inapplicableCodes.join(
+        ', ',
+      )} doesn't apply to your cart yet`,
+    };
+  }
+
+  return {
+    status: 'success',
+    message: permalink.discountCodes.length
+      ? `${added} with discount ${permalink.discountCodes.join(', ')}`
+      : added,
+  };
+}
+
+/**
+ * Lists what went wrong, with a link to the same cart without the failed
+ * lines when only some lines failed.
+ */
+function permalinkErrorResponse(
+  permalink: CartPermalink,
+  errors: CartPermalinkError[],
+  pathPrefix: string,
+) {
+  const failedSegments = new Set(errors.map(({segment}) => segment));
+  const lines = permalink.lines.filter(
+    ({segment}) => !failedSegments.has(segment),
+  );
+  const hasCartErrors = errors.some(({segment}) => !segment);
+
+  const availablePath =
+    lines.length && !hasCartErrors
+      ? `${pathPrefix}${getCartPermalinkPath({...permalink, lines})}`
+      : null;
+
+  return json(
+    {errors, availablePath},
+    {status: 410, headers: {'Cache-Control': CACHE_NONE}},
+  );
+}
+
+export default function CartPermalinkErrors() {
+  const {errors, availablePath} = useLoaderData<typeof loader>();
+
+  return (
+    <>
+      <PageHeader heading="We couldn't build this cart">
+        <Text as="p" color="subtle">
+          The link may be out of date. These items couldn&rsquo;t be added:
+        </Text>
+      </PageHeader>
+      <Section padding="x">
+        <ul className="grid gap-2">
+          {errors.map(({segment, message}) => (
+            <li key={`${segment}-${message}`}>
+              <Text>
+                {segment && (
+                  <code className="mr-2 text-primary/50">{segment}</code>
+                )}
+                {message}
+              </Text>
+            </li>
+          ))}
+        </ul>
+        <div className="flex flex-wrap gap-4 mt-8">
+          {availablePath && (
+            <Button to={availablePath} reloadDocument>
+              Continue with the other items
+            </Button>
+          )}
+          <Button to="/" variant="secondary">
+            Continue shopping
+          </Button>
+        </div>
+      </Section>
+    </>
+  );
 }
@@ -1,13 +1,44 @@
 import {useLoaderData} from '@remix-run/react';
 import invariant from 'tiny-invariant';
 import {
+  type AppLoadContext,
   type LoaderFunctionArgs,
   type ActionFunctionArgs,
+  type SerializeFrom,
   json,
 } from '@shopify/remix-oxygen';
-import {CartForm, type CartQueryDataReturn, Analytics} from '@shopify/hydrogen';
+import {
+  CartForm,
+  type CartQueryDataReturn,
+  Analytics,
+  flattenConnection,
+} from '@shopify/hydrogen';
+import type {
+  Attribute,
+  AttributeInput,
+  CartBuyerIdentityInput,
+  CartLineInput,
+  CartLineUpdateInput,
+} from '@shopify/hydrogen/storefront-api-types';
 
 import {isLocalPath} from '~/lib/utils';
+import {
+  CART_ATTRIBUTES,
+  type CartAttributeDefinition,
+  CartInputError,
+  getAttributesFromFormInputs,
+  GIFT_CARD_REMOVE_ACTION,
+  LINE_ATTRIBUTES,
+  LINE_ATTRIBUTES_UPDATE_ACTION,
+  matchesGiftCard,
+  MOVE_TO_CART_ACTION,
+  MOVE_TO_WISHLIST_ACTION,
+  SAVE_FOR_LATER_ACTION,
+  validateAttributes,
+  validateCartNote,
+  validateGiftCardCode,
+} from '~/lib/cart';
+import {getCustomerList, updateCustomerList} from '~/lib/customer-lists.server';
 import {Cart} from '~/components/Cart';
 
 export async function action({request, context}: ActionFunctionArgs) {
@@ -21,36 +52,19 @@ export async function action({request, context}: ActionFunctionArgs) {
   let status = 200;
   let result: CartQueryDataReturn;
 
-  switch (action) {
-    case CartForm.ACTIONS.LinesAdd:
-      result = await cart.addLines(inputs.lines);
-      break;
-    case CartForm.ACTIONS.LinesUpdate:
-      result = await cart.updateLines(inputs.lines);
-      break;
-    case CartForm.ACTIONS.LinesRemove:
-      result = await cart.removeLines(inputs.lineIds);
-      break;
-    case CartForm.ACTIONS.DiscountCodesUpdate:
-      const formDiscountCode = inputs.discountCode;
+  try {
+    result = await runCartAction(context, action, inputs);
+  } catch (error) {
+    if (!(error instanceof CartInputError)) throw error;
 
-      // User inputted discount code
-      const discountCodes = (
-        formDiscountCode ? [formDiscountCode] : []
-      ) as string[];
-
-      // Combine discount codes already applied on cart
-      discountCodes.push(...inputs.discountCodes);
-
-      result = await cart.updateDiscountCodes(discountCodes);
-      break;
-    case CartForm.ACTIONS.BuyerIdentityUpdate:
-      result = await cart.updateBuyerIdentity({
-        ...inputs.buyerIdentity,
-      });
-      break;
-    default:
-      invariant(false, `${action} cart action is not defined`);
+    return json(
+      {
+        cart: await cart.get(),
+        userErrors: [{field: error.field, message: error.message}],
+        errors: [],
+      },
+      {status: 400},
+    );
   }
 
   /**
@@ -77,6 +91,260 @@ export async function action({request, context}: ActionFunctionArgs) {
   );
 }
 
+/** Read by the `CartForm` fetchers, e.g. for `userErrors` */
+export type CartActionData = SerializeFrom<typeof action>;
+
+async function runCartAction(
+  context: AppLoadContext,
+  action: string,
+  inputs: Record<string, unknown>,
+): Promise<CartQueryDataReturn> {
+  const {cart} = context;
+
+  switch (action) {
+    case CartForm.ACTIONS.LinesAdd:
+      invariant(Array.isArray(inputs.lines), 'Missing lines');
+      return cart.addLines(
+        (inputs.lines as CartLineInput[]).map((line) => ({
+          ...line,
+          attributes: validateAttributes(line.attributes, LINE_ATTRIBUTES),
+        })),
+      );
+    case CartForm.ACTIONS.LinesUpdate:
+      invariant(Array.isArray(inputs.lines), 'Missing lines');
+      return cart.updateLines(
+        (inputs.lines as CartLineUpdateInput[]).map((line) =>
+          line.attributes
+            ? {
+                ...line,
+                attributes: validateAttributes(
+                  line.attributes,
+                  LINE_ATTRIBUTES,
+                ),
+              }
+            : line,
+        ),
+      );
+    case CartForm.ACTIONS.LinesRemove:
+      invariant(Array.isArray(inputs.lineIds), 'Missing line ids');
+      return cart.removeLines(inputs.lineIds as string[]);
+    case CartForm.ACTIONS.DiscountCodesUpdate:
+      const formDiscountCode = inputs.discountCode;
+
+      // User inputted discount code
+      const discountCodes = (
+        formDiscountCode ? [formDiscountCode] : []
+      ) as string[];
+
+      // Combine discount codes already applied on cart
+      if (Array.isArray(inputs.discountCodes)) {
+        discountCodes.push(...(inputs.discountCodes as string[]));
+      }
+
+      return cart.updateDiscountCodes(discountCodes);
+    case CartForm.ACTIONS.GiftCardCodesUpdate: {
+      const code = validateGiftCardCode(inputs.giftCardCode);
+      const current = await cart.get();
+
+      // Full codes are never kept, the cart only exposes their last
+      // characters. Updating replaces the applied gift cards, so a mistyped
+      // code would remove a valid card unless the shopper confirmed it.
+      if (
+        current?.appliedGiftCards.some((giftCard) =>
+          matchesGiftCard(code, giftCard),
+        )
+      ) {
+        throw new CartInputError(
+          ['giftCardCode'],
+          'This gift card is already applied',
+        );
+      }
+      if (current?.appliedGiftCards.length && !inputs.replaceGiftCard) {
+        throw new CartInputError(
+          ['giftCardCode'],
+          'Confirm you want to replace the gift card already applied',
+        );
+      }
+
+      const result = await cart.updateGiftCardCodes([code]);
+      if (result.userErrors?.length) return result;
+
+      const updated = await cart.get();
+      const giftCard = updated?.appliedGiftCards.find((giftCard) =>
+        matchesGiftCard(code, giftCard),
+      );
+      if (!giftCard) {
+        throw new CartInputError(
+          ['giftCardCode'],
+          'This gift card code isn’t valid',
+        );
+      }
+      if (
+        Number(giftCard.balance.amount) === 0 &&
+        Number(giftCard.presentmentAmountUsed.amount) === 0
+      ) {
+        await cart.removeGiftCardCodes([giftCard.id]);
+        throw new CartInputError(
+          ['giftCardCode'],
+          'This gift card has no balance left',
+        );
+      }
+
+      return result;
+    }
+    case GIFT_CARD_REMOVE_ACTION: {
+      const {appliedGiftCardId} = inputs;
+      invariant(typeof appliedGiftCardId === 'string', 'Missing gift card');
+
+      return cart.removeGiftCardCodes([appliedGiftCardId]);
+    }
+    case CartForm.ACTIONS.BuyerIdentityUpdate:
+      return cart.updateBuyerIdentity({
+        ...(inputs.buyerIdentity as CartBuyerIdentityInput),
+      });
+    case CartForm.ACTIONS.NoteUpdate:
+      return cart.updateNote(validateCartNote(inputs.note));
+    case CartForm.ACTIONS.AttributesUpdateInput: {
+      const attributes = validateAttributes(
+        getAttributesFromFormInputs(inputs),
+        CART_ATTRIBUTES,
+      );
+      const current = await cart.get();
+
+      // Updating replaces every attribute, keep the ones set by other means
+      return cart.updateAttributes([
+        ...withoutManagedAttributes(current?.attributes, CART_ATTRIBUTES),
+        ...attributes,
+      ]);
+    }
+    case LINE_ATTRIBUTES_UPDATE_ACTION: {
+      const lineId = inputs.lineId;
+      invariant(typeof lineId === 'string', 'Missing line id');
+
+      const attributes = validateAttributes(
+        getAttributesFromFormInputs(inputs),
+        LINE_ATTRIBUTES,
+      );
+      const line = await findCartLine(cart, lineId);
+
+      return cart.updateLines([
+        {
+          id: lineId,
+          attributes: [
+            ...withoutManagedAttributes(line.attributes, LINE_ATTRIBUTES),
+            ...attributes,
+          ],
+        },
+      ]);
+    }
+    case SAVE_FOR_LATER_ACTION: {
+      const lineId = inputs.lineId;
+      invariant(typeof lineId === 'string', 'Missing line id');
+
+      const line = await findCartLine(cart, lineId);
+      const savedLines = await updateCustomerList(
+        context,
+        'savedForLater',
+        (items) => [
+          {
+            merchandiseId: line.merchandise.id,
+            quantity: line.quantity,
+            attributes: line.attributes.map(({key, value}) => ({
+              key,
+              value: value ?? '',
+            })),
+            sellingPlanId: line.sellingPlanAllocation?.sellingPlan.id,
+            savedAt: new Date().toISOString(),
+          },
+          ...items,
+        ],
+      );
+
+      // Guest lists are capped by size, keep the line rather than lose it
+      if (
+        !savedLines.some((saved) => saved.merchandiseId === line.merchandise.id)
+      ) {
+        throw new CartInputError(
+          ['lineId'],
+          'Log in to save this item for later',
+        );
+      }
+
+      return cart.removeLines([line.id]);
+    }
+    case MOVE_TO_WISHLIST_ACTION: {
+      const lineId = inputs.lineId;
+      invariant(typeof lineId === 'string', 'Missing line id');
+
+      const line = await findCartLine(cart, lineId);
+      await updateCustomerList(context, 'wishlist', (items) => [
+        {
+          productId: line.merchandise.product.id,
+          addedAt: new Date().toISOString(),
+        },
+        ...items,
+      ]);
+
+      return cart.removeLines([line.id]);
+    }
+    case MOVE_TO_CART_ACTION: {
+      const merchandiseId = inputs.merchandiseId;
+      invariant(typeof merchandiseId === 'string', 'Missing merchandise id');
+
+      const saved = (await getCustomerList(context, 'savedForLater')).find(
+        (line) => line.merchandiseId === merchandiseId,
+      );
+      if (!saved) {
+        throw new CartInputError(
+          ['merchandiseId'],
+          'This item is no longer saved for later',
+        );
+      }
+
+      const result = await cart.addLines([
+        {
+          merchandiseId,
+          quantity: saved.quantity,
+          attributes: saved.attributes,
+          sellingPlanId: saved.sellingPlanId,
+        },
+      ]);
+      if (result.userErrors?.length) return result;
+
+      await updateCustomerList(context, 'savedForLater', (items) =>
+        items.filter((line) => line.merchandiseId !== merchandiseId),
+      );
+      return result;
+    }
+    default:
+      invariant(false, `${action} cart action is not defined`);
+  }
+}
+
+async function findCartLine(cart: AppLoadContext['cart'], lineId: string) {
+  const current = await cart.get();
+  const line = current
+    ? flattenConnection(current.lines).find((line) => line.id === lineId)
+    : undefined;
+
+  if (!line) {
+    throw new CartInputError(['lineId'], 'This item is no longer in your cart');
+  }
+
+  return line;
+}
+
+function withoutManagedAttributes(
+  attributes: Attribute[] | undefined,
+  definitions: CartAttributeDefinition[],
+): AttributeInput[] {
+  return (attributes ?? [])
+    .filter(
+      ({key}) => !definitions.some((definition) => definition.key === key),
+    )
+    .map(({key, value}) => ({key, value: value ?? ''}));
+}
+
 export async function loader({context}: LoaderFunctionArgs) {
   const {cart} = context;
   return json(await cart.get());
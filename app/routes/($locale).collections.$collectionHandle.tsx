@@ -6,11 +6,7 @@ import {
 } from '@shopify/remix-oxygen';
 import {useLoaderData, useNavigate} from '@remix-run/react';
 import {useInView} from 'react-intersection-observer';
-import type {
-  Filter,
-  ProductCollectionSortKeys,
-  ProductFilter,
-} from '@shopify/hydrogen/storefront-api-types';
+import type {Filter} from '@shopify/hydrogen/storefront-api-types';
 import {
   Pagination,
   flattenConnection,
@@ -28,9 +24,9 @@ import {SortFilter, type SortParam} from '~/components/SortFilter';
 import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
 import {routeHeaders} from '~/data/cache';
 import {seoPayload} from '~/lib/seo.server';
-import {FILTER_URL_PREFIX} from '~/components/SortFilter';
 import {getImageLoadingPriority} from '~/lib/const';
-import {parseAsCurrency} from '~/lib/utils';
+import {getAppliedFilters, getFiltersFromParams} from '~/lib/filters';
+import {getSortValuesFromParam} from '~/lib/utils';
 
 export const headers = routeHeaders;
 
@@ -48,18 +44,7 @@ export async function loader({params, request, context}: LoaderFunctionArgs) {
   const {sortKey, reverse} = getSortValuesFromParam(
     searchParams.get('sort') as SortParam,
   );
-  const filters = [...searchParams.entries()].reduce(
-    (filters, [key, value]) => {
-      if (key.startsWith(FILTER_URL_PREFIX)) {
-        const filterKey = key.substring(FILTER_URL_PREFIX.length);
-        filters.push({
-          [filterKey]: JSON.parse(value),
-        });
-      }
-      return filters;
-    },
-    [] as ProductFilter[],
-  );
+  const filters = getFiltersFromParams(searchParams);
 
   const {collection, collections} = await context.storefront.query(
     COLLECTION_QUERY,
@@ -82,53 +67,12 @@ export async function loader({params, request, context}: LoaderFunctionArgs) {
 
   const seo = seoPayload.collection({collection, url: request.url});
 
-  const allFilterValues = collection.products.filters.flatMap(
-    (filter) => filter.values,
+  const appliedFilters = getAppliedFilters(
+    filters,
+    collection.products.filters,
+    locale,
   );
 
-  const appliedFilters = filters
-    .map((filter) => {
-      const foundValue = allFilterValues.find((value) => {
-        const valueInput = JSON.parse(value.input as string) as ProductFilter;
-        // special case for price, the user can enter something freeform (still a number, though)
-        // that may not make sense for the locale/currency.
-        // Basically just check if the price filter is applied at all.
-        if (valueInput.price && filter.price) {
-          return true;
-        }
-        return (
-          // This comparison should be okay as long as we're not manipulating the input we
-          // get from the API before using it as a URL param.
-          JSON.stringify(valueInput) === JSON.stringify(filter)
-        );
-      });
-      if (!foundValue) {
-        // eslint-disable-next-line no-console
-        console.error('Could not find filter value for filter', filter);
-        return null;
-      }
-
-      if (foundValue.id === 'filter.v.price') {
-        // Special case for price, we want to show the min and max values as the label.
-        const input = JSON.parse(foundValue.input as string) as ProductFilter;
-        const min = parseAsCurrency(input.price?.min ?? 0, locale);
-        const max = input.price?.max
-          ? parseAsCurrency(input.price.max, locale)
-          : '';
-        const label = min && max ? `${min} - ${max}` : 'Price';
-
-        return {
-          filter,
-          label,
-        };
-      }
-      return {
-        filter,
-        label: foundValue.label,
-      };
-    })
-    .filter((filter): filter is NonNullable<typeof filter> => filter !== null);
-
   return json({
     collection,
     appliedFilters,
@@ -248,6 +192,7 @@ function ProductsLoadedOnScroll({
           key={product.id}
           product={product}
           loading={getImageLoadingPriority(i)}
+          quickView
         />
       ))}
     </Grid>
@@ -325,41 +270,3 @@ const COLLECTION_QUERY = `#graphql
   }
   ${PRODUCT_CARD_FRAGMENT}
 ` as const;
-
-function getSortValuesFromParam(sortParam: SortParam | null): {
-  sortKey: ProductCollectionSortKeys;
-  reverse: boolean;
-} {
-  switch (sortParam) {
-    case 'price-high-low':
-      return {
-        sortKey: 'PRICE',
-        reverse: true,
-      };
-    case 'price-low-high':
-      return {
-        sortKey: 'PRICE',
-        reverse: false,
-      };
-    case 'best-selling':
-      return {
-        sortKey: 'BEST_SELLING',
-        reverse: false,
-      };
-    case 'newest':
-      return {
-        sortKey: 'CREATED',
-        reverse: true,
-      };
-    case 'featured':
-      return {
-        sortKey: 'MANUAL',
-        reverse: false,
-      };
-    default:
-      return {
-        sortKey: 'RELEVANCE',
-        reverse: false,
-      };
-  }
-}
@@ -1,8 +1,14 @@
 import {redirect, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
 
+import {
+  addDiscountCodes,
+  getInapplicableDiscountCodes,
+} from '~/lib/cart.server';
+
 /**
  * Automatically applies a discount found on the url
- * If a cart exists it's updated with the discount, otherwise a cart is created with the discount already applied
+ * If a cart exists the discount is added to its codes, otherwise a cart is created with the discount already applied
+ * The outcome is shown with a flash message once redirected
  * @param ?redirect an optional path to return to otherwise return to the home page
  * @example
  * Example path applying a discount and redirecting
@@ -13,9 +19,8 @@ import {redirect, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
  * @preserve
  */
 export async function loader({request, context, params}: LoaderFunctionArgs) {
-  const {cart} = context;
   // N.B. This route will probably be removed in the future.
-  const session = context.session as any;
+  const {cart, session} = context;
   const {code} = params;
 
   const url = new URL(request.url);
@@ -37,9 +42,20 @@ export async function loader({request, context, params}: LoaderFunctionArgs) {
     return redirect(redirectUrl);
   }
 
-  const result = await cart.updateDiscountCodes([code]);
+  const result = await addDiscountCodes(cart, [code]);
   const headers = cart.setCartId(result.cart.id);
 
+  const [inapplicableCode] = await getInapplicableDiscountCodes(cart, [code]);
+  session.flash(
+    'flashMessage',
+    inapplicableCode
+      ? {
+          status: 'error',
+          message: `Discount code ${code} doesn't apply to your cart yet`,
+        }
+      : {status: 'success', message: `Discount code ${code} applied`},
+  );
+
   // Using set-cookie on a 303 redirect will not work if the domain origin have port number (:3000)
   // If there is no cart id and a new cart id is created in the progress, it will not be set in the cookie
   // on localhost:3000
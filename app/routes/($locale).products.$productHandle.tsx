@@ -1,5 +1,5 @@
-import {useRef, Suspense} from 'react';
-import {Disclosure, Listbox} from '@headlessui/react';
+import {Suspense} from 'react';
+import {Disclosure} from '@headlessui/react';
 import {
   defer,
   type MetaArgs,
@@ -8,37 +8,42 @@ import {
 import {useLoaderData, Await} from '@remix-run/react';
 import {
   getSeoMeta,
-  Money,
-  ShopPayButton,
   getSelectedProductOptions,
   Analytics,
   useOptimisticVariant,
   getAdjacentAndFirstAvailableVariants,
   useSelectedOptionInUrlParam,
   getProductOptions,
-  type MappedProductOptions,
 } from '@shopify/hydrogen';
 import invariant from 'tiny-invariant';
 import clsx from 'clsx';
-import type {
-  Maybe,
-  ProductOptionValueSwatch,
-} from '@shopify/hydrogen/storefront-api-types';
 
-import type {ProductFragment} from 'storefrontapi.generated';
 import {Heading, Section, Text} from '~/components/Text';
 import {Link} from '~/components/Link';
-import {Button} from '~/components/Button';
-import {AddToCartButton} from '~/components/AddToCartButton';
 import {Skeleton} from '~/components/Skeleton';
 import {ProductSwimlane} from '~/components/ProductSwimlane';
 import {ProductGallery} from '~/components/ProductGallery';
-import {IconCaret, IconCheck, IconClose} from '~/components/Icon';
+import {ProductForm} from '~/components/ProductForm';
+import {WishlistButton} from '~/components/WishlistButton';
+import {ProductReviews} from '~/components/ProductReviews';
+import {StarRating} from '~/components/StarRating';
+import {IconClose} from '~/components/Icon';
 import {getExcerpt} from '~/lib/utils';
+import {
+  getReviewsOptions,
+  parseRatingMetafields,
+  type ProductReviewsPage,
+  type RatingAggregate,
+} from '~/lib/reviews';
 import {seoPayload} from '~/lib/seo.server';
 import type {Storefront} from '~/lib/type';
 import {routeHeaders} from '~/data/cache';
-import {MEDIA_FRAGMENT, PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
+import {
+  MEDIA_FRAGMENT,
+  PRODUCT_CARD_FRAGMENT,
+  PRODUCT_VARIANT_FRAGMENT,
+  SELLING_PLAN_GROUP_FRAGMENT,
+} from '~/data/fragments';
 
 export const headers = routeHeaders;
 
@@ -52,6 +57,10 @@ export async function loader(args: LoaderFunctionArgs) {
   // Await the critical data required to render initial state of the page
   const criticalData = await loadCriticalData(args);
 
+  void deferredData.reviews.then((reviewsPage) =>
+    warnOnStaleRating(productHandle, criticalData.rating, reviewsPage),
+  );
+
   return defer({...deferredData, ...criticalData});
 }
 
@@ -89,9 +98,13 @@ async function loadCriticalData({
   const selectedVariant = product.selectedOrFirstAvailableVariant ?? {};
   const variants = getAdjacentAndFirstAvailableVariants(product);
 
+  // The same metafields as `ProductCard`, so the stars agree everywhere
+  const rating = parseRatingMetafields(product.rating, product.ratingCount);
+
   const seo = seoPayload.product({
     product: {...product, variants},
     selectedVariant,
+    rating,
     url: request.url,
   });
 
@@ -101,6 +114,7 @@ async function loadCriticalData({
     shop,
     storeDomain: shop.primaryDomain.url,
     recommended,
+    rating,
     seo,
   };
 }
@@ -110,11 +124,43 @@ async function loadCriticalData({
  * fetched after the initial page load. If it's unavailable, the page should still 200.
  * Make sure to not throw any errors here, as it will cause the page to 500.
  */
-function loadDeferredData(args: LoaderFunctionArgs) {
-  // Put any API calls that are not critical to be available on first page render
-  // For example: product reviews, product recommendations, social feeds.
+function loadDeferredData({params, request, context}: LoaderFunctionArgs) {
+  const {productHandle} = params;
+  invariant(productHandle, 'Missing productHandle param, check route filename');
 
-  return {};
+  const reviews = context.reviews
+    .getProductReviews(
+      productHandle,
+      getReviewsOptions(new URL(request.url).searchParams),
+    )
+    .catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error(error);
+      return null;
+    });
+
+  return {reviews};
+}
+
+/**
+ * Stars and structured data read the `reviews.rating` metafields, which the
+ * reviews provider has to keep in sync with the reviews it lists. Logs the
+ * products where the two drifted apart.
+ */
+function warnOnStaleRating(
+  productHandle: string,
+  rating: RatingAggregate | null,
+  reviewsPage: ProductReviewsPage | null,
+) {
+  const count = reviewsPage?.summary.count ?? 0;
+  if (!reviewsPage || count === (rating?.count ?? 0)) return;
+
+  // eslint-disable-next-line no-console
+  console.warn(
+    `[Reviews ${productHandle}] The reviews.rating_count metafield is ${
+      rating?.count ?? 'missing'
+    }, the reviews provider lists ${count} reviews`,
+  );
 }
 
 export const meta = ({matches}: MetaArgs<typeof loader>) => {
@@ -122,7 +168,7 @@ export const meta = ({matches}: MetaArgs<typeof loader>) => {
 };
 
 export default function Product() {
-  const {product, shop, recommended, variants, storeDomain} =
+  const {product, shop, recommended, reviews, rating, variants, storeDomain} =
     useLoaderData<typeof loader>();
   const {media, title, vendor, descriptionHtml} = product;
   const {shippingPolicy, refundPolicy} = shop;
@@ -154,16 +200,27 @@ export default function Product() {
           <div className="sticky md:-mb-nav md:top-nav md:-translate-y-nav md:h-screen md:pt-nav hiddenScroll md:overflow-y-scroll">
             <section className="flex flex-col w-full max-w-xl gap-8 p-6 md:mx-auto md:max-w-sm md:px-0">
               <div className="grid gap-2">
-                <Heading as="h1" className="whitespace-normal">
-                  {title}
-                </Heading>
+                <div className="flex items-start justify-between gap-4">
+                  <Heading as="h1" className="whitespace-normal">
+                    {title}
+                  </Heading>
+                  <WishlistButton productId={product.id} />
+                </div>
                 {vendor && (
                   <Text className={'opacity-50 font-medium'}>{vendor}</Text>
                 )}
+                {rating && (
+                  <a href="#reviews">
+                    <StarRating rating={rating.average} count={rating.count} />
+                  </a>
+                )}
               </div>
               <ProductForm
+                key={product.id}
                 productOptions={productOptions}
                 selectedVariant={selectedVariant}
+                sellingPlanGroups={product.sellingPlanGroups.nodes}
+                requiresSellingPlan={product.requiresSellingPlan}
                 storeDomain={storeDomain}
               />
               <div className="grid gap-4 py-4">
@@ -192,6 +249,16 @@ export default function Product() {
           </div>
         </div>
       </Section>
+      <Suspense fallback={<Skeleton className="h-32" />}>
+        <Await
+          errorElement="There was a problem loading reviews"
+          resolve={reviews}
+        >
+          {(data) => (
+            <ProductReviews data={data} productHandle={product.handle} />
+          )}
+        </Await>
+      </Suspense>
       <Suspense fallback={<Skeleton className="h-32" />}>
         <Await
           errorElement="There was a problem loading related products"
@@ -221,218 +288,6 @@ export default function Product() {
   );
 }
 
-export function ProductForm({
-  productOptions,
-  selectedVariant,
-  storeDomain,
-}: {
-  productOptions: MappedProductOptions[];
-  selectedVariant: ProductFragment['selectedOrFirstAvailableVariant'];
-  storeDomain: string;
-}) {
-  const closeRef = useRef<HTMLButtonElement>(null);
-
-  const isOutOfStock = !selectedVariant?.availableForSale;
-
-  const isOnSale =
-    selectedVariant?.price?.amount &&
-    selectedVariant?.compareAtPrice?.amount &&
-    selectedVariant?.price?.amount < selectedVariant?.compareAtPrice?.amount;
-
-  return (
-    <div className="grid gap-10">
-      <div className="grid gap-4">
-        {productOptions.map((option, optionIndex) => (
-          <div
-            key={option.name}
-            className="product-options flex flex-col flex-wrap mb-4 gap-y-2 last:mb-0"
-          >
-            <Heading as="legend" size="lead" className="min-w-[4rem]">
-              {option.name}
-            </Heading>
-            <div className="flex flex-wrap items-baseline gap-4">
-              {option.optionValues.length > 7 ? (
-                <div className="relative w-full">
-                  <Listbox>
-                    {({open}) => (
-                      <>
-                        <Listbox.Button
-                          ref={closeRef}
-                          className={clsx(
-                            'flex items-center justify-between w-full py-3 px-4 border border-primary',
-                            open
-                              ? 'rounded-b md:rounded-t md:rounded-b-none'
-                              : 'rounded',
-                          )}
-                        >
-                          <span>
-                            {
-                              selectedVariant?.selectedOptions[optionIndex]
-                                .value
-                            }
-                          </span>
-                          <IconCaret direction={open ? 'up' : 'down'} />
-                        </Listbox.Button>
-                        <Listbox.Options
-                          className={clsx(
-                            'border-primary bg-contrast absolute bottom-12 z-30 grid h-48 w-full overflow-y-scroll rounded-t border px-2 py-2 transition-[max-height] duration-150 sm:bottom-auto md:rounded-b md:rounded-t-none md:border-t-0 md:border-b',
-                            open ? 'max-h-48' : 'max-h-0',
-                          )}
-                        >
-                          {option.optionValues
-                            .filter((value) => value.available)
-                            .map(
-                              ({
-                                isDifferentProduct,
-                                name,
-                                variantUriQuery,
-                                handle,
-                                selected,
-                              }) => (
-                                <Listbox.Option
-                                  key={`option-${option.name}-${name}`}
-                                  value={name}
-                                >
-                                  <Link
-                                    {...(!isDifferentProduct
-                                      ? {rel: 'nofollow'}
-                                      : {})}
-                                    to={`/products/${handle}?${variantUriQuery}`}
-                                    preventScrollReset
-                                    className={clsx(
-                                      'text-primary w-full p-2 transition rounded flex justify-start items-center text-left cursor-pointer',
-                                      selected && 'bg-primary/10',
-                                    )}
-                                    onClick={() => {
-                                      if (!closeRef?.current) return;
-                                      closeRef.current.click();
-                                    }}
-                                  >
-                                    {name}
-                                    {selected && (
-                                      <span className="ml-2">
-                                        <IconCheck />
-                                      </span>
-                                    )}
-                                  </Link>
-                                </Listbox.Option>
-                              ),
-                            )}
-                        </Listbox.Options>
-                      </>
-                    )}
-                  </Listbox>
-                </div>
-              ) : (
-                option.optionValues.map(
-                  ({
-                    isDifferentProduct,
-                    name,
-                    variantUriQuery,
-                    handle,
-                    selected,
-                    available,
-                    swatch,
-                  }) => (
-                    <Link
-                      key={option.name + name}
-                      {...(!isDifferentProduct ? {rel: 'nofollow'} : {})}
-                      to={`/products/${handle}?${variantUriQuery}`}
-                      preventScrollReset
-                      prefetch="intent"
-                      replace
-                      className={clsx(
-                        'leading-none py-1 border-b-[1.5px] cursor-pointer transition-all duration-200',
-                        selected ? 'border-primary/50' : 'border-primary/0',
-                        available ? 'opacity-100' : 'opacity-50',
-                      )}
-                    >
-                      <ProductOptionSwatch swatch={swatch} name={name} />
-                    </Link>
-                  ),
-                )
-              )}
-            </div>
-          </div>
-        ))}
-        {selectedVariant && (
-          <div className="grid items-stretch gap-4">
-            {isOutOfStock ? (
-              <Button variant="secondary" disabled>
-                <Text>Sold out</Text>
-              </Button>
-            ) : (
-              <AddToCartButton
-                lines={[
-                  {
-                    merchandiseId: selectedVariant.id!,
-                    quantity: 1,
-                  },
-                ]}
-                variant="primary"
-                data-test="add-to-cart"
-              >
-                <Text
-                  as="span"
-                  className="flex items-center justify-center gap-2"
-                >
-                  <span>Add to Cart</span> <span>·</span>{' '}
-                  <Money
-                    withoutTrailingZeros
-                    data={selectedVariant?.price!}
-                    as="span"
-                    data-test="price"
-                  />
-                  {isOnSale && (
-                    <Money
-                      withoutTrailingZeros
-                      data={selectedVariant?.compareAtPrice!}
-                      as="span"
-                      className="opacity-50 strike"
-                    />
-                  )}
-                </Text>
-              </AddToCartButton>
-            )}
-            {!isOutOfStock && (
-              <ShopPayButton
-                width="100%"
-                variantIds={[selectedVariant?.id!]}
-                storeDomain={storeDomain}
-              />
-            )}
-          </div>
-        )}
-      </div>
-    </div>
-  );
-}
-
-function ProductOptionSwatch({
-  swatch,
-  name,
-}: {
-  swatch?: Maybe<ProductOptionValueSwatch> | undefined;
-  name: string;
-}) {
-  const image = swatch?.image?.previewImage?.url;
-  const color = swatch?.color;
-
-  if (!image && !color) return name;
-
-  return (
-    <div
-      aria-label={name}
-      className="w-8 h-8"
-      style={{
-        backgroundColor: color || 'transparent',
-      }}
-    >
-      {!!image && <img src={image} alt={name} />}
-    </div>
-  );
-}
-
 function ProductDetail({
   title,
   content,
@@ -482,42 +337,6 @@ function ProductDetail({
   );
 }
 
-const PRODUCT_VARIANT_FRAGMENT = `#graphql
-  fragment ProductVariant on ProductVariant {
-    id
-    availableForSale
-    selectedOptions {
-      name
-      value
-    }
-    image {
-      id
-      url
-      altText
-      width
-      height
-    }
-    price {
-      amount
-      currencyCode
-    }
-    compareAtPrice {
-      amount
-      currencyCode
-    }
-    sku
-    title
-    unitPrice {
-      amount
-      currencyCode
-    }
-    product {
-      title
-      handle
-    }
-  }
-`;
-
 const PRODUCT_FRAGMENT = `#graphql
   fragment Product on Product {
     id
@@ -526,6 +345,12 @@ const PRODUCT_FRAGMENT = `#graphql
     handle
     descriptionHtml
     description
+    requiresSellingPlan
+    sellingPlanGroups(first: 5) {
+      nodes {
+        ...SellingPlanGroup
+      }
+    }
     encodedVariantExistence
     encodedVariantAvailability
     options {
@@ -555,6 +380,12 @@ const PRODUCT_FRAGMENT = `#graphql
       description
       title
     }
+    rating: metafield(namespace: "reviews", key: "rating") {
+      value
+    }
+    ratingCount: metafield(namespace: "reviews", key: "rating_count") {
+      value
+    }
     media(first: 7) {
       nodes {
         ...Media
@@ -562,6 +393,7 @@ const PRODUCT_FRAGMENT = `#graphql
     }
   }
   ${PRODUCT_VARIANT_FRAGMENT}
+  ${SELLING_PLAN_GROUP_FRAGMENT}
 ` as const;
 
 const PRODUCT_QUERY = `#graphql
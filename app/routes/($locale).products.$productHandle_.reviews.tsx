@@ -0,0 +1,174 @@
+import {
+  json,
+  redirect,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
+import type {CustomerAccount} from '@shopify/hydrogen';
+import invariant from 'tiny-invariant';
+
+import type {CustomerPurchasesQuery} from 'customer-accountapi.generated';
+import {CUSTOMER_ORDER_QUERY} from '~/graphql/customer-account/CustomerOrderQuery';
+import {CUSTOMER_PURCHASES_QUERY} from '~/graphql/customer-account/CustomerPurchasesQuery';
+
+export interface ReviewActionData {
+  success?: boolean;
+  formError?: string;
+  fieldErrors?: {
+    rating?: string;
+    title?: string;
+    body?: string;
+    photo?: string;
+  };
+}
+
+const MAX_TITLE_LENGTH = 100;
+const MIN_BODY_LENGTH = 10;
+const MAX_BODY_LENGTH = 2000;
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Reviews are listed on the product page, this route only accepts submissions.
+ */
+export async function loader({params}: LoaderFunctionArgs) {
+  const {productHandle} = params;
+  invariant(productHandle, 'Missing productHandle param, check route filename');
+
+  const locale = params.locale ? `/${params.locale}` : '';
+  return redirect(`${locale}/products/${productHandle}#reviews`);
+}
+
+export async function action({request, context, params}: ActionFunctionArgs) {
+  const {productHandle} = params;
+  invariant(productHandle, 'Missing productHandle param, check route filename');
+
+  const {customerAccount, storefront, reviewSubmissions, reviewRateLimiter} =
+    context;
+
+  if (!reviewSubmissions) {
+    return json<ReviewActionData>(
+      {formError: 'Reviews can’t be submitted right now, try again later.'},
+      {status: 503},
+    );
+  }
+
+  if (!(await customerAccount.isLoggedIn())) {
+    return json<ReviewActionData>(
+      {formError: 'Log in to write a review.'},
+      {status: 401},
+    );
+  }
+
+  const formData = await request.formData();
+  const rating = Number(formData.get('rating'));
+  const title = String(formData.get('title') ?? '').trim();
+  const body = String(formData.get('body') ?? '').trim();
+  const photoEntry = formData.get('photo');
+  const photo =
+    photoEntry instanceof File && photoEntry.size > 0 ? photoEntry : null;
+
+  const fieldErrors: ReviewActionData['fieldErrors'] = {};
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    fieldErrors.rating = 'Choose a rating from 1 to 5 stars.';
+  }
+  if (title.length > MAX_TITLE_LENGTH) {
+    fieldErrors.title = `Keep the title under ${MAX_TITLE_LENGTH} characters.`;
+  }
+  if (body.length < MIN_BODY_LENGTH || body.length > MAX_BODY_LENGTH) {
+    fieldErrors.body = `Reviews must be between ${MIN_BODY_LENGTH} and ${MAX_BODY_LENGTH} characters.`;
+  }
+  if (photo && !photo.type.startsWith('image/')) {
+    fieldErrors.photo = 'Photos must be an image file.';
+  } else if (photo && photo.size > MAX_PHOTO_SIZE) {
+    fieldErrors.photo = 'Photos must be smaller than 5 MB.';
+  }
+
+  if (Object.keys(fieldErrors).length) {
+    return json<ReviewActionData>({fieldErrors}, {status: 400});
+  }
+
+  const {data, errors} = await customerAccount.query(CUSTOMER_PURCHASES_QUERY);
+  if (errors?.length || !data?.customer) {
+    return json<ReviewActionData>(
+      {formError: 'We could not verify your orders, please try again.'},
+      {status: 500},
+    );
+  }
+
+  const customer: NonNullable<CustomerPurchasesQuery['customer']> =
+    data.customer;
+
+  // Checked before looking up the product and each order
+  if (!(await reviewRateLimiter.consume(customer.id))) {
+    return json<ReviewActionData>(
+      {formError: 'You have submitted too many reviews, try again later.'},
+      {status: 429},
+    );
+  }
+
+  const {product} = await storefront.query(REVIEW_PRODUCT_QUERY, {
+    variables: {handle: productHandle},
+  });
+
+  if (!product?.id) {
+    throw new Response('product', {status: 404});
+  }
+
+  const orderIds = customer.orders.nodes.map((order) => order.id);
+
+  if (!(await hasPurchasedProduct(customerAccount, orderIds, product.id))) {
+    return json<ReviewActionData>(
+      {formError: 'Only customers who bought this product can review it.'},
+      {status: 403},
+    );
+  }
+
+  await reviewSubmissions.submit({
+    id: crypto.randomUUID(),
+    status: 'pending',
+    submittedAt: new Date().toISOString(),
+    productId: product.id,
+    productHandle,
+    customerId: customer.id,
+    author:
+      [customer.firstName, customer.lastName?.charAt(0)]
+        .filter(Boolean)
+        .join(' ') || 'Anonymous',
+    rating,
+    title,
+    body,
+    photo,
+    verifiedBuyer: true,
+  });
+
+  return json<ReviewActionData>({success: true});
+}
+
+/**
+ * Checks the line items of the customer's most recent orders for the product.
+ */
+async function hasPurchasedProduct(
+  customerAccount: CustomerAccount,
+  orderIds: string[],
+  productId: string,
+) {
+  const orders = await Promise.all(
+    orderIds.map((orderId) =>
+      customerAccount.query(CUSTOMER_ORDER_QUERY, {variables: {orderId}}),
+    ),
+  );
+
+  return orders.some(({data}) =>
+    data?.order?.lineItems.nodes.some(
+      (lineItem) => lineItem.productId === productId,
+    ),
+  );
+}
+
+const REVIEW_PRODUCT_QUERY = `#graphql
+  query ReviewProduct($handle: String!) {
+    product(handle: $handle) {
+      id
+    }
+  }
+` as const;
@@ -81,6 +81,7 @@ export default function AllProducts() {
                 key={product.id}
                 product={product}
                 loading={getImageLoadingPriority(i)}
+                quickView
               />
             ));
 
@@ -1,5 +1,6 @@
 import {
   defer,
+  redirect,
   type MetaArgs,
   type LoaderFunctionArgs,
 } from '@shopify/remix-oxygen';
@@ -10,41 +11,158 @@ import {
   getPaginationVariables,
   Analytics,
   getSeoMeta,
+  Image,
 } from '@shopify/hydrogen';
+import type {Filter, PageInfo} from '@shopify/hydrogen/storefront-api-types';
 
 import {Heading, PageHeader, Section, Text} from '~/components/Text';
 import {Input} from '~/components/Input';
 import {Grid} from '~/components/Grid';
+import {Link} from '~/components/Link';
 import {ProductCard} from '~/components/ProductCard';
+import {
+  usePublishSearchEvent,
+  useSearchResultClick,
+} from '~/components/SearchAnalytics';
+import {SortFilter, type SortParam} from '~/components/SortFilter';
 import {ProductSwimlane} from '~/components/ProductSwimlane';
 import {FeaturedCollections} from '~/components/FeaturedCollections';
 import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
-import {getImageLoadingPriority, PAGINATION_SIZE} from '~/lib/const';
+import {
+  getImageLoadingPriority,
+  JOURNAL_BLOG_HANDLE,
+  PAGINATION_SIZE,
+} from '~/lib/const';
+import {getAppliedFilters, getFiltersFromParams} from '~/lib/filters';
+import {getSearchEvent} from '~/lib/search-analytics';
+import {applySearchRules, getSearchRules} from '~/lib/search-rules.server';
 import {seoPayload} from '~/lib/seo.server';
+import {getSearchSortValuesFromParam, isLocalPath} from '~/lib/utils';
 
 import {
   getFeaturedData,
   type FeaturedData,
 } from './($locale).featured-products';
 
+const SEARCH_SORT_KEYS: SortParam[] = [
+  'relevance',
+  'price-low-high',
+  'price-high-low',
+];
+
+const PRODUCTS_PAGE_SIZE = 8;
+
+/** Articles, pages and collections shown per page, next to the products */
+const CONTENT_PAGE_SIZE = 4;
+
+const EMPTY_PAGE_INFO = {
+  startCursor: null,
+  endCursor: null,
+  hasNextPage: false,
+  hasPreviousPage: false,
+};
+
+type SearchConnection<Node> = {
+  nodes: Node[];
+  pageInfo: Pick<
+    PageInfo,
+    'startCursor' | 'endCursor' | 'hasNextPage' | 'hasPreviousPage'
+  >;
+};
+
 export async function loader({
   request,
   context: {storefront},
 }: LoaderFunctionArgs) {
   const searchParams = new URL(request.url).searchParams;
-  const searchTerm = searchParams.get('q')!;
-  const variables = getPaginationVariables(request, {pageBy: 8});
-
-  const {products} = await storefront.query(SEARCH_QUERY, {
-    variables: {
-      searchTerm,
-      ...variables,
-      country: storefront.i18n.country,
-      language: storefront.i18n.language,
-    },
+  const searchTerm = searchParams.get('q') ?? '';
+  const variables = getPaginationVariables(request, {
+    pageBy: PRODUCTS_PAGE_SIZE,
   });
+  const {sortKey, reverse} = getSearchSortValuesFromParam(
+    searchParams.get('sort') as SortParam,
+  );
+  const filters = getFiltersFromParams(searchParams);
+
+  // Search keeps working, without synonyms, when the rules fail to load
+  const rules = searchTerm
+    ? await getSearchRules(storefront).catch((error: unknown) => {
+        // eslint-disable-next-line no-console
+        console.error('[Search rules]', error);
+        return [];
+      })
+    : [];
+  const searchRules = searchTerm ? applySearchRules(searchTerm, rules) : null;
+
+  if (searchRules?.redirect) {
+    return redirect(
+      isLocalPath(searchRules.redirect)
+        ? `${storefront.i18n.pathPrefix}${searchRules.redirect}`
+        : searchRules.redirect,
+    );
+  }
+
+  // Pins follow relevance, they'd be out of place in a sorted or filtered list
+  const pins =
+    searchRules && sortKey === 'RELEVANCE' && !filters.length
+      ? searchRules.pinnedProducts.slice(0, PRODUCTS_PAGE_SIZE - 1)
+      : [];
+  const pinnedIds = new Set(pins.map(({id}) => id));
+  // Pins lead the first page, which fetches fewer results to keep its size
+  const pinnedProducts = searchParams.has('cursor')
+    ? []
+    : pins.map((product) => ({...product, __typename: 'Product' as const}));
 
-  const shouldGetRecommendations = !searchTerm || products?.nodes?.length === 0;
+  const [{search}, content] = searchRules
+    ? await Promise.all([
+        storefront.query(SEARCH_QUERY, {
+          variables: {
+            searchTerm: searchRules.query,
+            filters,
+            sortKey,
+            reverse,
+            ...variables,
+            ...(pinnedProducts.length > 0 && {
+              first: PRODUCTS_PAGE_SIZE - pinnedProducts.length,
+            }),
+            country: storefront.i18n.country,
+            language: storefront.i18n.language,
+          },
+        }),
+        searchContent(request, storefront, searchRules.query),
+      ])
+    : [{search: null}, null];
+
+  const searchResults = getNodesOfType(search, 'Product');
+
+  const products = {
+    ...searchResults,
+    nodes: [
+      ...pinnedProducts,
+      ...searchResults.nodes.filter(({id}) => !pinnedIds.has(id)),
+    ],
+  };
+  const articles = content?.articles ?? {nodes: [], pageInfo: EMPTY_PAGE_INFO};
+  const pages = getNodesOfType(content?.pages, 'Page');
+  const collections = content?.collections ?? {
+    nodes: [],
+    pageInfo: EMPTY_PAGE_INFO,
+  };
+  const hasContentResults = [articles, pages, collections].some(
+    ({nodes, pageInfo}) => nodes.length || pageInfo.hasPreviousPage,
+  );
+
+  const totalCount = Math.max(search?.totalCount ?? 0, pinnedProducts.length);
+  const availableFilters = search?.productFilters ?? [];
+  const appliedFilters = getAppliedFilters(
+    filters,
+    availableFilters,
+    storefront.i18n,
+  );
+
+  const shouldGetRecommendations =
+    !searchTerm ||
+    (totalCount === 0 && !appliedFilters.length && !hasContentResults);
 
   const seo = seoPayload.collection({
     url: request.url,
@@ -56,7 +174,11 @@ export async function loader({
       description: 'Search results',
       seo: {
         title: 'Search',
-        description: `Showing ${products.nodes.length} search results for "${searchTerm}"`,
+        description: getSearchDescription(
+          searchTerm,
+          totalCount,
+          appliedFilters.map(({label}) => label),
+        ),
       },
       metafields: [],
       products,
@@ -68,20 +190,125 @@ export async function loader({
     seo,
     searchTerm,
     products,
+    totalCount,
+    availableFilters,
+    appliedFilters,
+    articles,
+    pages,
+    collections,
+    searchEvent: searchTerm
+      ? getSearchEvent(
+          'search',
+          searchTerm,
+          storefront.i18n,
+          totalCount +
+            articles.nodes.length +
+            (content?.pages.totalCount ?? 0) +
+            collections.nodes.length,
+        )
+      : null,
     noResultRecommendations: shouldGetRecommendations
       ? getNoResultRecommendations(storefront)
       : Promise.resolve(null),
   });
 }
 
+/**
+ * Searches the journal, pages and collections for the term. Each type is
+ * paginated separately, under its own namespace in the URL.
+ */
+async function searchContent(
+  request: Request,
+  storefront: LoaderFunctionArgs['context']['storefront'],
+  searchTerm: string,
+) {
+  const getVariables = (namespace: string) => ({
+    searchTerm,
+    ...getPaginationVariables(request, {
+      pageBy: CONTENT_PAGE_SIZE,
+      namespace,
+    }),
+    country: storefront.i18n.country,
+    language: storefront.i18n.language,
+  });
+
+  const [{blog}, {pages}, {collections}] = await Promise.all([
+    // Only the journal has article pages, so the other blogs aren't searched
+    storefront.query(SEARCH_ARTICLES_QUERY, {
+      variables: {
+        ...getVariables('articles'),
+        blogHandle: JOURNAL_BLOG_HANDLE,
+      },
+    }),
+    storefront.query(SEARCH_PAGES_QUERY, {
+      variables: getVariables('pages'),
+    }),
+    storefront.query(SEARCH_COLLECTIONS_QUERY, {
+      variables: getVariables('collections'),
+    }),
+  ]);
+
+  return {
+    articles: blog?.articles ?? {nodes: [], pageInfo: EMPTY_PAGE_INFO},
+    pages,
+    collections,
+  };
+}
+
+/** Search results come back as a union, this keeps the nodes of one type */
+function getNodesOfType<
+  Node extends {__typename: string},
+  Typename extends Node['__typename'],
+>(
+  connection: SearchConnection<Node> | null | undefined,
+  typename: Typename,
+): SearchConnection<Extract<Node, {__typename: Typename}>> {
+  return {
+    nodes: (connection?.nodes ?? []).filter(
+      (node): node is Extract<Node, {__typename: Typename}> =>
+        node.__typename === typename,
+    ),
+    pageInfo: connection?.pageInfo ?? EMPTY_PAGE_INFO,
+  };
+}
+
+function getSearchDescription(
+  searchTerm: string,
+  totalCount: number,
+  filterLabels: string[],
+) {
+  const results = `Showing ${totalCount} search ${
+    totalCount === 1 ? 'result' : 'results'
+  } for "${searchTerm}"`;
+  return filterLabels.length
+    ? `${results}, filtered by ${filterLabels.join(', ')}`
+    : results;
+}
+
 export const meta = ({matches}: MetaArgs<typeof loader>) => {
   return getSeoMeta(...matches.map((match) => (match.data as any).seo));
 };
 
 export default function Search() {
-  const {searchTerm, products, noResultRecommendations} =
-    useLoaderData<typeof loader>();
-  const noResults = products?.nodes?.length === 0;
+  const {
+    searchTerm,
+    products,
+    totalCount,
+    availableFilters,
+    appliedFilters,
+    articles,
+    pages,
+    collections,
+    searchEvent,
+    noResultRecommendations,
+  } = useLoaderData<typeof loader>();
+  const noResults = totalCount === 0;
+  const hasContentResults = [articles, pages, collections].some(
+    ({nodes, pageInfo}) => nodes.length || pageInfo.hasPreviousPage,
+  );
+
+  usePublishSearchEvent(searchEvent);
+  const onResultClick = useSearchResultClick(searchEvent);
 
   return (
     <>
@@ -102,47 +329,169 @@ export default function Search() {
           </button>
         </Form>
       </PageHeader>
-      {!searchTerm || noResults ? (
+      {searchTerm && (
+        <Section padding="x">
+          <Text color="subtle">
+            {totalCount} {totalCount === 1 ? 'product' : 'products'} for &ldquo;
+            {searchTerm}&rdquo;
+          </Text>
+        </Section>
+      )}
+      {!searchTerm ||
+      (noResults && !appliedFilters.length && !hasContentResults) ? (
         <NoResults
           noResults={noResults}
           recommendations={noResultRecommendations}
         />
-      ) : (
-        <Section>
-          <Pagination connection={products}>
-            {({nodes, isLoading, NextLink, PreviousLink}) => {
-              const itemsMarkup = nodes.map((product, i) => (
-                <ProductCard
-                  key={product.id}
-                  product={product}
-                  loading={getImageLoadingPriority(i)}
-                />
-              ));
-
-              return (
-                <>
-                  <div className="flex items-center justify-center mt-6">
-                    <PreviousLink className="inline-block rounded font-medium text-center py-3 px-6 border border-primary/10 bg-contrast text-primary w-full">
-                      {isLoading ? 'Loading...' : 'Previous'}
-                    </PreviousLink>
-                  </div>
-                  <Grid data-test="product-grid">{itemsMarkup}</Grid>
-                  <div className="flex items-center justify-center mt-6">
-                    <NextLink className="inline-block rounded font-medium text-center py-3 px-6 border border-primary/10 bg-contrast text-primary w-full">
-                      {isLoading ? 'Loading...' : 'Next'}
-                    </NextLink>
-                  </div>
-                </>
-              );
-            }}
-          </Pagination>
+      ) : null}
+      {searchTerm && (!noResults || appliedFilters.length > 0) ? (
+        <Section heading="Products">
+          <SortFilter
+            filters={availableFilters as Filter[]}
+            appliedFilters={appliedFilters}
+            sortKeys={SEARCH_SORT_KEYS}
+          >
+            {noResults ? (
+              <Text as="p" className="py-8 opacity-50">
+                No results match these filters.
+              </Text>
+            ) : (
+              <Pagination connection={products}>
+                {({nodes, isLoading, NextLink, PreviousLink}) => {
+                  const itemsMarkup = nodes.map((product, i) => (
+                    <ProductCard
+                      key={product.id}
+                      product={product}
+                      loading={getImageLoadingPriority(i)}
+                      onClick={() =>
+                        onResultClick(i + 1, `/products/${product.handle}`)
+                      }
+                      quickView
+                    />
+                  ));
+
+                  return (
+                    <>
+                      <div className="flex items-center justify-center mt-6">
+                        <PreviousLink className="inline-block rounded font-medium text-center py-3 px-6 border border-primary/10 bg-contrast text-primary w-full">
+                          {isLoading ? 'Loading...' : 'Previous'}
+                        </PreviousLink>
+                      </div>
+                      <Grid data-test="product-grid">{itemsMarkup}</Grid>
+                      <div className="flex items-center justify-center mt-6">
+                        <NextLink className="inline-block rounded font-medium text-center py-3 px-6 border border-primary/10 bg-contrast text-primary w-full">
+                          {isLoading ? 'Loading...' : 'Next'}
+                        </NextLink>
+                      </div>
+                    </>
+                  );
+                }}
+              </Pagination>
+            )}
+          </SortFilter>
         </Section>
-      )}
+      ) : null}
+      <ContentResults
+        heading="Articles"
+        namespace="articles"
+        connection={articles}
+      >
+        {(article) => (
+          <Link key={article.id} to={`/journal/${article.handle}`}>
+            <div className="grid gap-4">
+              <div className="card-image bg-primary/5 aspect-[3/2]">
+                {article.image && (
+                  <Image
+                    alt={article.image.altText || article.title}
+                    data={article.image}
+                    sizes="(max-width: 32em) 100vw, 25vw"
+                    aspectRatio="3/2"
+                  />
+                )}
+              </div>
+              <Heading size="copy">{article.title}</Heading>
+            </div>
+          </Link>
+        )}
+      </ContentResults>
+      <ContentResults heading="Pages" namespace="pages" connection={pages}>
+        {(page) => (
+          <Link key={page.id} to={`/pages/${page.handle}`}>
+            <Heading size="copy">{page.title}</Heading>
+            {page.bodySummary && (
+              <Text as="p" size="fine" color="subtle" className="mt-2">
+                {page.bodySummary}
+              </Text>
+            )}
+          </Link>
+        )}
+      </ContentResults>
+      <ContentResults
+        heading="Collections"
+        namespace="collections"
+        connection={collections}
+      >
+        {(collection) => (
+          <Link key={collection.id} to={`/collections/${collection.handle}`}>
+            <div className="grid gap-4">
+              <div className="card-image bg-primary/5 aspect-[3/2]">
+                {collection.image && (
+                  <Image
+                    alt={collection.image.altText || collection.title}
+                    data={collection.image}
+                    sizes="(max-width: 32em) 100vw, 25vw"
+                    aspectRatio="3/2"
+                  />
+                )}
+              </div>
+              <Heading size="copy">{collection.title}</Heading>
+            </div>
+          </Link>
+        )}
+      </ContentResults>
       <Analytics.SearchView data={{searchTerm, searchResults: products}} />
     </>
   );
 }
 
+/**
+ * A section of non-product results, hidden when there are none. Paginates
+ * under its own namespace so it doesn't move the other sections.
+ */
+function ContentResults<Node extends {id: string}>({
+  heading,
+  namespace,
+  connection,
+  children,
+}: {
+  heading: string;
+  namespace: string;
+  connection: SearchConnection<Node>;
+  children: (node: Node) => React.ReactNode;
+}) {
+  if (!connection.nodes.length && !connection.pageInfo.hasPreviousPage) {
+    return null;
+  }
+
+  return (
+    <Section heading={heading}>
+      <Pagination connection={connection} namespace={namespace}>
+        {({nodes, isLoading, NextLink, PreviousLink}) => (
+          <>
+            <PreviousLink className="inline-block font-medium border-b border-primary/10 justify-self-start">
+              {isLoading ? 'Loading...' : 'Previous'}
+            </PreviousLink>
+            <Grid items={CONTENT_PAGE_SIZE}>{nodes.map(children)}</Grid>
+            <NextLink className="inline-block font-medium border-b border-primary/10 justify-self-start">
+              {isLoading ? 'Loading...' : 'Show more'}
+            </NextLink>
+          </>
+        )}
+      </Pagination>
+    </Section>
+  );
+}
+
 function NoResults({
   noResults,
   recommendations,
@@ -197,22 +546,43 @@ const SEARCH_QUERY = `#graphql
   query PaginatedProductsSearch(
     $country: CountryCode
     $endCursor: String
+    $filters: [ProductFilter!]
     $first: Int
     $language: LanguageCode
     $last: Int
-    $searchTerm: String
+    $reverse: Boolean
+    $searchTerm: String!
+    $sortKey: SearchSortKeys!
     $startCursor: String
   ) @inContext(country: $country, language: $language) {
-    products(
+    search(
       first: $first,
       last: $last,
       before: $startCursor,
       after: $endCursor,
-      sortKey: RELEVANCE,
-      query: $searchTerm
+      query: $searchTerm,
+      types: [PRODUCT],
+      productFilters: $filters,
+      sortKey: $sortKey,
+      reverse: $reverse
     ) {
+      totalCount
+      productFilters {
+        id
+        label
+        type
+        values {
+          id
+          label
+          count
+          input
+        }
+      }
       nodes {
-        ...ProductCard
+        __typename
+        ... on Product {
+          ...ProductCard
+        }
       }
       pageInfo {
         startCursor
@@ -225,3 +595,120 @@ const SEARCH_QUERY = `#graphql
 
   ${PRODUCT_CARD_FRAGMENT}
 ` as const;
+
+const SEARCH_ARTICLES_QUERY = `#graphql
+  query ArticlesSearch(
+    $blogHandle: String!
+    $country: CountryCode
+    $endCursor: String
+    $first: Int
+    $language: LanguageCode
+    $last: Int
+    $searchTerm: String!
+    $startCursor: String
+  ) @inContext(country: $country, language: $language) {
+    blog(handle: $blogHandle) {
+      articles(
+        first: $first,
+        last: $last,
+        before: $startCursor,
+        after: $endCursor,
+        query: $searchTerm
+      ) {
+        nodes {
+          id
+          title
+          handle
+          image {
+            url
+            altText
+            width
+            height
+          }
+        }
+        pageInfo {
+          startCursor
+          endCursor
+          hasNextPage
+          hasPreviousPage
+        }
+      }
+    }
+  }
+` as const;
+
+const SEARCH_PAGES_QUERY = `#graphql
+  query PagesSearch(
+    $country: CountryCode
+    $endCursor: String
+    $first: Int
+    $language: LanguageCode
+    $last: Int
+    $searchTerm: String!
+    $startCursor: String
+  ) @inContext(country: $country, language: $language) {
+    pages: search(
+      first: $first,
+      last: $last,
+      before: $startCursor,
+      after: $endCursor,
+      query: $searchTerm,
+      types: [PAGE]
+    ) {
+      totalCount
+      nodes {
+        __typename
+        ... on Page {
+          id
+          title
+          handle
+          bodySummary
+        }
+      }
+      pageInfo {
+        startCursor
+        endCursor
+        hasNextPage
+        hasPreviousPage
+      }
+    }
+  }
+` as const;
+
+const SEARCH_COLLECTIONS_QUERY = `#graphql
+  query CollectionsSearch(
+    $country: CountryCode
+    $endCursor: String
+    $first: Int
+    $language: LanguageCode
+    $last: Int
+    $searchTerm: String!
+    $startCursor: String
+  ) @inContext(country: $country, language: $language) {
+    collections(
+      first: $first,
+      last: $last,
+      before: $startCursor,
+      after: $endCursor,
+      query: $searchTerm
+    ) {
+      nodes {
+        id
+        title
+        handle
+        image {
+          url
+          altText
+          width
+          height
+        }
+      }
+      pageInfo {
+        startCursor
+        endCursor
+        hasNextPage
+        hasPreviousPage
+      }
+    }
+  }
+` as const;
@@ -0,0 +1,64 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+import {useLoaderData, type MetaFunction} from '@remix-run/react';
+
+import {PageHeader, Section, Text} from '~/components/Text';
+import {Grid} from '~/components/Grid';
+import {ProductCard} from '~/components/ProductCard';
+import {routeHeaders} from '~/data/cache';
+import {getImageLoadingPriority} from '~/lib/const';
+import {
+  getSharedWishlistProductIds,
+  getWishlistProducts,
+} from '~/lib/wishlist.server';
+
+export const headers = routeHeaders;
+
+export const meta: MetaFunction = () => {
+  return [{title: 'Shared wishlist'}, {name: 'robots', content: 'noindex'}];
+};
+
+/**
+ * Read-only wishlist opened from a share link, see `getWishlistShareUrl`
+ */
+export async function loader({request, context}: LoaderFunctionArgs) {
+  const productIds = await getSharedWishlistProductIds(
+    request,
+    context.env.SESSION_SECRET,
+  );
+
+  if (!productIds) {
+    throw new Response('wishlist', {status: 404});
+  }
+
+  const products = await getWishlistProducts(context.storefront, productIds);
+
+  return json({products});
+}
+
+export default function SharedWishlist() {
+  const {products} = useLoaderData<typeof loader>();
+
+  return (
+    <>
+      <PageHeader heading="Shared wishlist" />
+      <Section>
+        {products.length ? (
+          <Grid data-test="shared-wishlist-grid">
+            {products.map((product, i) => (
+              <ProductCard
+                key={product.id}
+                product={product}
+                loading={getImageLoadingPriority(i)}
+                quickAdd
+              />
+            ))}
+          </Grid>
+        ) : (
+          <Text as="p" size="fine">
+            The products on this wishlist are no longer available.
+          </Text>
+        )}
+      </Section>
+    </>
+  );
+}
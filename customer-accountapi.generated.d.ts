@@ -248,6 +248,44 @@ export type CustomerDetailsQuery = {
   };
 };
 
+export type CustomerEmailQueryVariables = CustomerAccountAPI.Exact<{
+  [key: string]: never;
+}>;
+
+export type CustomerEmailQuery = {
+  customer: Pick<CustomerAccountAPI.Customer, 'id'> & {
+    emailAddress?: CustomerAccountAPI.Maybe<
+      Pick<CustomerAccountAPI.CustomerEmailAddress, 'emailAddress'>
+    >;
+  };
+};
+
+export type CustomerListQueryVariables = CustomerAccountAPI.Exact<{
+  key: CustomerAccountAPI.Scalars['String']['input'];
+}>;
+
+export type CustomerListQuery = {
+  customer: Pick<CustomerAccountAPI.Customer, 'id'> & {
+    list?: CustomerAccountAPI.Maybe<
+      Pick<CustomerAccountAPI.Metafield, 'value'>
+    >;
+  };
+};
+
+export type CustomerListUpdateMutationVariables = CustomerAccountAPI.Exact<{
+  metafields:
+    | Array<CustomerAccountAPI.MetafieldsSetInput>
+    | CustomerAccountAPI.MetafieldsSetInput;
+}>;
+
+export type CustomerListUpdateMutation = {
+  metafieldsSet?: CustomerAccountAPI.Maybe<{
+    userErrors: Array<
+      Pick<CustomerAccountAPI.MetafieldsSetUserError, 'field' | 'message'>
+    >;
+  }>;
+};
+
 export type OrderMoneyFragment = Pick<
   CustomerAccountAPI.MoneyV2,
   'amount' | 'currencyCode'
@@ -267,7 +305,7 @@ export type DiscountApplicationFragment = {
 
 export type OrderLineItemFullFragment = Pick<
   CustomerAccountAPI.LineItem,
-  'id' | 'title' | 'quantity' | 'variantTitle'
+  'id' | 'productId' | 'title' | 'quantity' | 'variantTitle'
 > & {
   price?: CustomerAccountAPI.Maybe<
     Pick<CustomerAccountAPI.MoneyV2, 'amount' | 'currencyCode'>
@@ -333,7 +371,7 @@ export type OrderFragment = Pick<
     nodes: Array<
       Pick<
         CustomerAccountAPI.LineItem,
-        'id' | 'title' | 'quantity' | 'variantTitle'
+        'id' | 'productId' | 'title' | 'quantity' | 'variantTitle'
       > & {
         price?: CustomerAccountAPI.Maybe<
           Pick<CustomerAccountAPI.MoneyV2, 'amount' | 'currencyCode'>
@@ -413,7 +451,7 @@ export type OrderQuery = {
         nodes: Array<
           Pick<
             CustomerAccountAPI.LineItem,
-            'id' | 'title' | 'quantity' | 'variantTitle'
+            'id' | 'productId' | 'title' | 'quantity' | 'variantTitle'
           > & {
             price?: CustomerAccountAPI.Maybe<
               Pick<CustomerAccountAPI.MoneyV2, 'amount' | 'currencyCode'>
@@ -452,6 +490,17 @@ export type OrderQuery = {
   >;
 };
 
+export type CustomerPurchasesQueryVariables = CustomerAccountAPI.Exact<{
+  [key: string]: never;
+}>;
+
+export type CustomerPurchasesQuery = {
+  customer: Pick<
+    CustomerAccountAPI.Customer,
+    'id' | 'firstName' | 'lastName'
+  > & {orders: {nodes: Array<Pick<CustomerAccountAPI.Order, 'id'>>}};
+};
+
 export type CustomerUpdateMutationVariables = CustomerAccountAPI.Exact<{
   customer: CustomerAccountAPI.CustomerUpdateInput;
 }>;
@@ -472,10 +521,22 @@ interface GeneratedQueryTypes {
     return: CustomerDetailsQuery;
     variables: CustomerDetailsQueryVariables;
   };
-  '#graphql\n  fragment OrderMoney on MoneyV2 {\n    amount\n    currencyCode\n  }\n  fragment DiscountApplication on DiscountApplication {\n    value {\n      __typename\n      ... on MoneyV2 {\n        ...OrderMoney\n      }\n      ... on PricingPercentageValue {\n        percentage\n      }\n    }\n  }\n  fragment OrderLineItemFull on LineItem {\n    id\n    title\n    quantity\n    price {\n      ...OrderMoney\n    }\n    discountAllocations {\n      allocatedAmount {\n        ...OrderMoney\n      }\n      discountApplication {\n        ...DiscountApplication\n      }\n    }\n    totalDiscount {\n      ...OrderMoney\n    }\n    image {\n      altText\n      height\n      url\n      id\n      width\n    }\n    variantTitle\n  }\n  fragment Order on Order {\n    id\n    name\n    statusPageUrl\n    processedAt\n    fulfillments(first: 1) {\n      nodes {\n        status\n      }\n    }\n    totalTax {\n      ...OrderMoney\n    }\n    totalPrice {\n      ...OrderMoney\n    }\n    subtotal {\n      ...OrderMoney\n    }\n    shippingAddress {\n      name\n      formatted(withName: true)\n      formattedArea\n    }\n    discountApplications(first: 100) {\n      nodes {\n        ...DiscountApplication\n      }\n    }\n    lineItems(first: 100) {\n      nodes {\n        ...OrderLineItemFull\n      }\n    }\n  }\n  query Order($orderId: ID!) {\n    order(id: $orderId) {\n      ... on Order {\n        ...Order\n      }\n    }\n  }\n': {
+  '#graphql\n  query CustomerEmail {\n    customer {\n      id\n      emailAddress {\n        emailAddress\n      }\n    }\n  }\n': {
+    return: CustomerEmailQuery;
+    variables: CustomerEmailQueryVariables;
+  };
+  '#graphql\n  query CustomerList($key: String!) {\n    customer {\n      id\n      list: metafield(namespace: "custom", key: $key) {\n        value\n      }\n    }\n  }\n': {
+    return: CustomerListQuery;
+    variables: CustomerListQueryVariables;
+  };
+  '#graphql\n  fragment OrderMoney on MoneyV2 {\n    amount\n    currencyCode\n  }\n  fragment DiscountApplication on DiscountApplication {\n    value {\n      __typename\n      ... on MoneyV2 {\n        ...OrderMoney\n      }\n      ... on PricingPercentageValue {\n        percentage\n      }\n    }\n  }\n  fragment OrderLineItemFull on LineItem {\n    id\n    productId\n    title\n    quantity\n    price {\n      ...OrderMoney\n    }\n    discountAllocations {\n      allocatedAmount {\n        ...OrderMoney\n      }\n      discountApplication {\n        ...DiscountApplication\n      }\n    }\n    totalDiscount {\n      ...OrderMoney\n    }\n    image {\n      altText\n      height\n      url\n      id\n      width\n    }\n    variantTitle\n  }\n  fragment Order on Order {\n    id\n    name\n    statusPageUrl\n    processedAt\n    fulfillments(first: 1) {\n      nodes {\n        status\n      }\n    }\n    totalTax {\n      ...OrderMoney\n    }\n    totalPrice {\n      ...OrderMoney\n    }\n    subtotal {\n      ...OrderMoney\n    }\n    shippingAddress {\n      name\n      formatted(withName: true)\n      formattedArea\n    }\n    discountApplications(first: 100) {\n      nodes {\n        ...DiscountApplication\n      }\n    }\n    lineItems(first: 100) {\n      nodes {\n        ...OrderLineItemFull\n      }\n    }\n  }\n  query Order($orderId: ID!) {\n    order(id: $orderId) {\n      ... on Order {\n        ...Order\n      }\n    }\n  }\n': {
     return: OrderQuery;
     variables: OrderQueryVariables;
   };
+  '#graphql\n  query CustomerPurchases {\n    customer {\n      id\n      firstName\n      lastName\n      orders(first: 20, sortKey: PROCESSED_AT, reverse: true) {\n        nodes {\n          id\n        }\n      }\n    }\n  }\n': {
+    return: CustomerPurchasesQuery;
+    variables: CustomerPurchasesQueryVariables;
+  };
 }
 
 interface GeneratedMutationTypes {
@@ -491,6 +552,10 @@ interface GeneratedMutationTypes {
     return: CustomerAddressCreateMutation;
     variables: CustomerAddressCreateMutationVariables;
   };
+  '#graphql\n  mutation CustomerListUpdate($metafields: [MetafieldsSetInput!]!) {\n    metafieldsSet(metafields: $metafields) {\n      userErrors {\n        field\n        message\n      }\n    }\n  }\n': {
+    return: CustomerListUpdateMutation;
+    variables: CustomerListUpdateMutationVariables;
+  };
   '#graphql\nmutation customerUpdate($customer: CustomerUpdateInput!) {\n  customerUpdate(input: $customer) {\n    userErrors {\n      code\n      field\n      message\n    }\n  }\n}\n': {
     return: CustomerUpdateMutation;
     variables: CustomerUpdateMutationVariables;
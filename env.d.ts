@@ -4,11 +4,20 @@
 
 import type {
   WithCache,
-  HydrogenCart,
+  HydrogenCartCustom,
   HydrogenSessionData,
 } from '@shopify/hydrogen';
 import type {Storefront, CustomerAccount} from '~/lib/type';
-import type {AppSession} from '~/lib/session.server';
+import type {AppSession, FlashMessage} from '~/lib/session.server';
+import type {ReviewsProvider} from '~/lib/reviews';
+import type {
+  ReviewRateLimiter,
+  ReviewSubmissionAdapter,
+} from '~/lib/reviews.server';
+import type {BackInStockAdapter} from '~/lib/back-in-stock.server';
+import type {SearchEventSink} from '~/lib/search-analytics.server';
+import type {CartCustomMethods} from '~/lib/cart.server';
+import type {SavedCartLine, WishlistItem} from '~/lib/customer-lists.server';
 
 declare global {
   /**
@@ -29,6 +38,33 @@ declare global {
     PUBLIC_CUSTOMER_ACCOUNT_API_URL: string;
     PUBLIC_CHECKOUT_DOMAIN: string;
     SHOP_ID: string;
+    /**
+     * Receives review submissions for moderation. Without it reviews are kept
+     * in memory in development and can't be submitted in production.
+     */
+    REVIEW_SUBMISSIONS_WEBHOOK_URL?: string;
+    /** Sent as a bearer token to `REVIEW_SUBMISSIONS_WEBHOOK_URL` */
+    REVIEW_SUBMISSIONS_WEBHOOK_TOKEN?: string;
+    /**
+     * Receives back-in-stock sign-ups. Without it sign-ups are kept in memory
+     * in development and turned off in production.
+     */
+    BACK_IN_STOCK_WEBHOOK_URL?: string;
+    /** Sent as a bearer token to `BACK_IN_STOCK_WEBHOOK_URL` */
+    BACK_IN_STOCK_WEBHOOK_TOKEN?: string;
+    /** Signs homepage `preview_at` links, previews are disabled when unset */
+    PREVIEW_SECRET?: string;
+    /** Bearer token for generating preview links at `/api/preview-link` */
+    PREVIEW_LINK_TOKEN?: string;
+    /**
+     * Collects search events and serves them back to the exports. Without it
+     * events are kept in memory in development and dropped in production.
+     */
+    SEARCH_EVENTS_WEBHOOK_URL?: string;
+    /** Sent as a bearer token to `SEARCH_EVENTS_WEBHOOK_URL` */
+    SEARCH_EVENTS_WEBHOOK_TOKEN?: string;
+    /** Bearer token for the search analytics exports, disabled when unset */
+    SEARCH_ANALYTICS_TOKEN?: string;
   }
 }
 
@@ -41,14 +77,29 @@ declare module '@shopify/remix-oxygen' {
     session: AppSession;
     storefront: Storefront;
     customerAccount: CustomerAccount;
-    cart: HydrogenCart;
+    cart: HydrogenCartCustom<CartCustomMethods>;
+    reviews: ReviewsProvider;
+    /** `null` when review submissions aren't configured */
+    reviewSubmissions: ReviewSubmissionAdapter | null;
+    reviewRateLimiter: ReviewRateLimiter;
+    /** `null` when back-in-stock sign-ups aren't configured */
+    backInStock: BackInStockAdapter | null;
+    /** `null` when no search event sink is configured */
+    searchEvents: SearchEventSink | null;
     env: Env;
   }
 
   /**
    * Declare local additions to the Remix session data.
    */
-  interface SessionData extends HydrogenSessionData {}
+  interface SessionData extends HydrogenSessionData {
+    /** Guest list of cart lines saved for later, see `getCustomerList` */
+    savedForLater?: SavedCartLine[];
+    /** Guest wishlist, see `getCustomerList` */
+    wishlist?: WishlistItem[];
+    /** Set with `session.flash`, read once with `session.getFlash` */
+    flashMessage?: FlashMessage;
+  }
 }
 
 // Needed to make this file a module.
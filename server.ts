@@ -15,8 +15,34 @@ import {
 } from '@shopify/hydrogen';
 
 import {AppSession} from '~/lib/session.server';
+import {cartGiftCardCodesRemove} from '~/lib/cart.server';
+import {CART_QUERY_FRAGMENT} from '~/data/fragments';
+import {
+  createCacheReviewRateLimiter,
+  createMemoryReviewSubmissionAdapter,
+  createMetaobjectReviewsProvider,
+  getReviewSubmissionAdapter,
+} from '~/lib/reviews.server';
+import {
+  createMemoryBackInStockAdapter,
+  getBackInStockAdapter,
+} from '~/lib/back-in-stock.server';
+import {
+  createJsonLinesSearchEventSink,
+  getSearchEventSink,
+} from '~/lib/search-analytics.server';
 import {getLocaleFromRequest} from '~/lib/utils';
 
+/**
+ * Pending reviews, back-in-stock sign-ups and search events outlive a single
+ * request, so the memory adapters are created once per worker instead of in
+ * the fetch handler. They are only used in development, see the `get*`
+ * functions picking each adapter.
+ */
+const memoryReviewSubmissions = createMemoryReviewSubmissionAdapter();
+const memoryBackInStock = createMemoryBackInStockAdapter();
+const memorySearchEvents = createJsonLinesSearchEventSink();
+
 /**
  * Export a fetch handler in module format.
  */
@@ -65,13 +91,27 @@ export default {
         shopId: env.SHOP_ID,
       });
 
+      const getCartId = cartGetIdDefault(request.headers);
       const cart = createCartHandler({
         storefront,
         customerAccount,
-        getCartId: cartGetIdDefault(request.headers),
+        getCartId,
         setCartId: cartSetIdDefault(),
+        cartQueryFragment: CART_QUERY_FRAGMENT,
+        customMethods: {
+          removeGiftCardCodes: cartGiftCardCodesRemove({storefront, getCartId}),
+        },
       });
 
+      const reviews = createMetaobjectReviewsProvider({storefront});
+      const reviewSubmissions = getReviewSubmissionAdapter(
+        env,
+        memoryReviewSubmissions,
+      );
+      const reviewRateLimiter = createCacheReviewRateLimiter(cache);
+      const backInStock = getBackInStockAdapter(env, memoryBackInStock);
+      const searchEvents = getSearchEventSink(env, memorySearchEvents);
+
       /**
        * Create a Remix request handler and pass
        * Hydrogen's Storefront client to the loader context.
@@ -85,6 +125,11 @@ export default {
           storefront,
           customerAccount,
           cart,
+          reviews,
+          reviewSubmissions,
+          reviewRateLimiter,
+          backInStock,
+          searchEvents,
           env,
         }),
       });
@@ -92,7 +137,8 @@ export default {
       const response = await handleRequest(request);
 
       if (session.isPending) {
-        response.headers.set('Set-Cookie', await session.commit());
+        // Append, routes may set their own cookies, e.g. the cart id
+        response.headers.append('Set-Cookie', await session.commit());
       }
 
       if (response.status === 404) {
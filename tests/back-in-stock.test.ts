@@ -0,0 +1,55 @@
+import {test, expect} from '@playwright/test';
+
+import {
+  createMemoryBackInStockAdapter,
+  type BackInStockSubscription,
+} from '../app/lib/back-in-stock.server';
+
+function getSubscription(
+  subscription: Partial<BackInStockSubscription>,
+): BackInStockSubscription {
+  return {
+    id: crypto.randomUUID(),
+    variantId: 'gid://shopify/ProductVariant/1',
+    email: 'shopper@example.com',
+    customerId: null,
+    createdAt: new Date().toISOString(),
+    ...subscription,
+  };
+}
+
+test.describe('Back in stock', () => {
+  test('Subscribes an email once per variant', async () => {
+    const backInStock = createMemoryBackInStockAdapter();
+
+    expect(await backInStock.subscribe(getSubscription({}))).toBe(true);
+    expect(
+      await backInStock.subscribe(getSubscription({})),
+      'should not subscribe the same email twice',
+    ).toBe(false);
+    expect(
+      await backInStock.subscribe(
+        getSubscription({variantId: 'gid://shopify/ProductVariant/2'}),
+      ),
+      'should subscribe the email to another variant',
+    ).toBe(true);
+    expect(
+      await backInStock.subscribe(
+        getSubscription({email: 'someone-else@example.com'}),
+      ),
+      'should subscribe another email to the variant',
+    ).toBe(true);
+
+    expect(backInStock.subscriptions).toHaveLength(3);
+  });
+
+  test('Keeps the first subscription of a duplicate', async () => {
+    const backInStock = createMemoryBackInStockAdapter();
+    const first = getSubscription({customerId: 'gid://shopify/Customer/1'});
+
+    await backInStock.subscribe(first);
+    await backInStock.subscribe(getSubscription({}));
+
+    expect(backInStock.subscriptions).toEqual([first]);
+  });
+});
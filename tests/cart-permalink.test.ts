@@ -0,0 +1,84 @@
+import {test, expect} from '@playwright/test';
+
+import {
+  getCartPermalinkPath,
+  parseCartPermalink,
+} from '../app/lib/cart-permalink.server';
+
+test.describe('Cart permalink', () => {
+  test('Reads lines, discounts, note and attributes', async () => {
+    const {permalink, errors} = parseCartPermalink(
+      '41007289663544:1,41007289696312:2:691208312',
+      new URLSearchParams(
+        'discount=HYDROBOARD,FREESHIP&discount=HYDROBOARD&note=Happy%20birthday' +
+          '&properties[2][Engraving]=Ada&attributes[Gift recipient]=Grace' +
+          '&redirect=cart&mode=merge',
+      ),
+    );
+
+    expect(errors).toEqual([]);
+    expect(permalink.lines.map(({line}) => line)).toEqual([
+      {
+        merchandiseId: 'gid://shopify/ProductVariant/41007289663544',
+        quantity: 1,
+        attributes: [],
+      },
+      {
+        merchandiseId: 'gid://shopify/ProductVariant/41007289696312',
+        quantity: 2,
+        attributes: [{key: 'Engraving', value: 'Ada'}],
+        sellingPlanId: 'gid://shopify/SellingPlan/691208312',
+      },
+    ]);
+    expect(
+      permalink.discountCodes,
+      'should drop repeated discount codes',
+    ).toEqual(['HYDROBOARD', 'FREESHIP']);
+    expect(permalink.note).toBe('Happy birthday');
+    expect(permalink.attributes).toEqual([
+      {key: 'Gift recipient', value: 'Grace'},
+    ]);
+    expect(permalink.redirect).toBe('cart');
+    expect(permalink.mode).toBe('merge');
+  });
+
+  test('Reports the lines that can not be read', async () => {
+    const {permalink, errors} = parseCartPermalink(
+      '41007289663544:1,abc:1,41007289696312:0,41007289696312:1:2:3',
+      new URLSearchParams('attributes[Unknown]=value'),
+    );
+
+    expect(permalink.lines.map(({segment}) => segment)).toEqual([
+      '41007289663544:1',
+    ]);
+    expect(errors.map(({segment}) => segment)).toEqual([
+      'abc:1',
+      '41007289696312:0',
+      '41007289696312:1:2:3',
+      undefined,
+    ]);
+    expect(permalink.redirect, 'should go to checkout by default').toBe(
+      'checkout',
+    );
+    expect(permalink.mode, 'should create a cart by default').toBe('create');
+  });
+
+  test('Builds the path it was read from', async () => {
+    const path =
+      '/cart/41007289663544:1,41007289696312:2:691208312' +
+      '?properties%5B2%5D%5BEngraving%5D=Ada&discount=HYDROBOARD%2CFREESHIP' +
+      '&note=Happy+birthday&attributes%5BGift+recipient%5D=Grace' +
+      '&redirect=cart&mode=merge';
+    const url = new URL(path, 'https://example.com');
+    const {permalink} = parseCartPermalink(
+      url.pathname.replace('/cart/', ''),
+      url.searchParams,
+    );
+
+    expect(getCartPermalinkPath(permalink)).toBe(path);
+    expect(
+      getCartPermalinkPath({...permalink, lines: permalink.lines.slice(1)}),
+      'should number line properties by their new position',
+    ).toContain('/cart/41007289696312:2:691208312?properties%5B1%5D');
+  });
+});
@@ -0,0 +1,40 @@
+import {test, expect} from '@playwright/test';
+
+import {
+  mergeItems,
+  type ListDefinition,
+  type WishlistItem,
+} from '../app/lib/customer-lists.server';
+
+const WISHLIST: ListDefinition<WishlistItem> = {
+  metafieldKey: 'wishlist',
+  getKey: (item) => item.productId,
+  maxItems: 3,
+};
+
+function getItem(id: number, addedAt = '2026-01-01T00:00:00.000Z') {
+  return {productId: `gid://shopify/Product/${id}`, addedAt};
+}
+
+test.describe('Customer lists', () => {
+  test('Merges a guest list into the customer list', async () => {
+    const customerItems = [getItem(1), getItem(2)];
+    const guestItems = [getItem(2, '2026-02-01T00:00:00.000Z'), getItem(3)];
+
+    expect(mergeItems(WISHLIST, customerItems, guestItems)).toEqual([
+      getItem(1),
+      getItem(2),
+      getItem(3),
+    ]);
+  });
+
+  test('Keeps the first item of each key up to the maximum', async () => {
+    expect(
+      mergeItems(WISHLIST, [getItem(1), getItem(1), getItem(2)], [getItem(3)]),
+    ).toHaveLength(3);
+    expect(
+      mergeItems(WISHLIST, [getItem(1), getItem(2), getItem(3), getItem(4)]),
+      'should leave out the items past the maximum',
+    ).toEqual([getItem(1), getItem(2), getItem(3)]);
+  });
+});
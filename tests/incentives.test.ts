@@ -0,0 +1,61 @@
+import {test, expect} from '@playwright/test';
+
+import {
+  getCartIncentiveProgress,
+  type CartIncentive,
+} from '../app/lib/incentives';
+
+function getIncentive(
+  id: string,
+  amount: string,
+  currencyCode: CartIncentive['threshold']['currencyCode'] = 'USD',
+): CartIncentive {
+  return {id, label: id, threshold: {amount, currencyCode}};
+}
+
+const INCENTIVES = [
+  getIncentive('Free gift', '150.00'),
+  getIncentive('Free shipping', '75.00'),
+  getIncentive('Livraison gratuite', '70.00', 'EUR'),
+];
+
+test.describe('Cart incentives', () => {
+  test('Shows what is left to spend for the next tier', async () => {
+    const progress = getCartIncentiveProgress(INCENTIVES, {
+      amount: '60.00',
+      currencyCode: 'USD',
+    });
+
+    expect(
+      progress?.tiers.map(({id, reached}) => [id, reached]),
+      'should only keep tiers in the cart currency, lowest first',
+    ).toEqual([
+      ['Free shipping', false],
+      ['Free gift', false],
+    ]);
+    expect(progress?.percent).toBe(40);
+    expect(progress?.next?.incentive.id).toBe('Free shipping');
+    expect(progress?.next?.remaining).toEqual({
+      amount: '15.00',
+      currencyCode: 'USD',
+    });
+  });
+
+  test('Caps the progress once every tier is reached', async () => {
+    const progress = getCartIncentiveProgress(INCENTIVES, {
+      amount: '200.00',
+      currencyCode: 'USD',
+    });
+
+    expect(progress?.tiers.every(({reached}) => reached)).toBe(true);
+    expect(progress?.percent).toBe(100);
+    expect(progress?.next).toBeNull();
+    expect(
+      getCartIncentiveProgress(INCENTIVES, {
+        amount: '10.00',
+        currencyCode: 'GBP',
+      }),
+      'should have no progress without tiers in the cart currency',
+    ).toBeNull();
+  });
+});
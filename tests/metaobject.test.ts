@@ -0,0 +1,74 @@
+import {test, expect} from '@playwright/test';
+import type {Metaobject} from '@shopify/hydrogen/storefront-api-types';
+
+import {
+  defineMetaobjectSchema,
+  MetaobjectParseError,
+  parseMetaobject,
+  safeParseMetaobject,
+} from '../app/lib/metaobject';
+
+const SCHEMA = defineMetaobjectSchema({
+  heading: {type: 'string', required: true},
+  subheading: {type: 'string', default: ''},
+  rating: {type: 'number'},
+  featured: {type: 'boolean', default: false},
+  ctaUrl: {type: 'url', key: 'cta_url'},
+  startsAt: {type: 'date', key: 'starts_at'},
+});
+
+function getMetaobject(fields: Record<string, string>) {
+  return {
+    type: 'section_hero',
+    handle: 'welcome',
+    fields: Object.entries(fields).map(([key, value]) => ({
+      key,
+      value,
+      type: 'single_line_text_field',
+    })) as Metaobject['fields'],
+  };
+}
+
+test.describe('Metaobject', () => {
+  test('Parses fields following the schema', async () => {
+    expect(
+      parseMetaobject(
+        getMetaobject({
+          heading: 'Welcome',
+          rating: '{"value": "4.5", "scale_min": "1.0", "scale_max": "5.0"}',
+          featured: 'true',
+          cta_url: '/collections/all',
+          starts_at: '2026-01-01T00:00:00Z',
+        }),
+        SCHEMA,
+      ),
+    ).toEqual({
+      heading: 'Welcome',
+      subheading: '',
+      rating: 4.5,
+      featured: true,
+      ctaUrl: '/collections/all',
+      startsAt: new Date('2026-01-01T00:00:00Z'),
+    });
+  });
+
+  test('Lists every missing and malformed field', async () => {
+    const metaobject = getMetaobject({
+      rating: 'five',
+      cta_url: 'collections/all',
+    });
+
+    expect(() => parseMetaobject(metaobject, SCHEMA)).toThrow(
+      MetaobjectParseError,
+    );
+
+    const {data, error} = safeParseMetaobject(metaobject, SCHEMA);
+    expect(data).toBeNull();
+    expect(error?.issues.map(({key, problem}) => [key, problem])).toEqual([
+      ['heading', 'missing'],
+      ['rating', 'malformed'],
+      ['cta_url', 'malformed'],
+    ]);
+    expect(error?.message).toContain('"section_hero/welcome"');
+  });
+});
@@ -0,0 +1,79 @@
+import {test, expect} from '@playwright/test';
+
+import {
+  createPreviewUrl,
+  getPreviewDate,
+  PREVIEW_AT_PARAM,
+  PREVIEW_EXPIRES_PARAM,
+  PREVIEW_LINK_LIFETIME,
+} from '../app/lib/preview.server';
+import {isScheduleLive} from '../app/lib/schedule';
+
+const SECRET = 'preview-secret';
+const PREVIEW_AT = new Date('2030-12-24T09:00:00.000Z');
+
+test.describe('Homepage preview', () => {
+  test('Previews a signed moment until the link expires', async () => {
+    const url = await createPreviewUrl(
+      new URL('https://example.com/'),
+      PREVIEW_AT,
+      SECRET,
+    );
+
+    expect(await getPreviewDate(new Request(url), SECRET)).toEqual(PREVIEW_AT);
+    expect(
+      await getPreviewDate(new Request(url)),
+      'should be disabled without a secret',
+    ).toBeNull();
+    expect(
+      await getPreviewDate(new Request(url), 'another-secret'),
+      'should not accept another secret',
+    ).toBeNull();
+
+    const expired = await createPreviewUrl(
+      new URL('https://example.com/'),
+      PREVIEW_AT,
+      SECRET,
+      Date.now() - PREVIEW_LINK_LIFETIME,
+    );
+    expect(
+      await getPreviewDate(new Request(expired), SECRET),
+      'should not accept an expired link',
+    ).toBeNull();
+  });
+
+  test('Rejects links whose moment or expiry was changed', async () => {
+    const url = await createPreviewUrl(
+      new URL('https://example.com/'),
+      PREVIEW_AT,
+      SECRET,
+    );
+
+    const changedAt = new URL(url);
+    changedAt.searchParams.set(PREVIEW_AT_PARAM, '2031-01-01T00:00:00.000Z');
+    expect(await getPreviewDate(new Request(changedAt), SECRET)).toBeNull();
+
+    const changedExpiry = new URL(url);
+    changedExpiry.searchParams.set(
+      PREVIEW_EXPIRES_PARAM,
+      '2099-01-01T00:00:00.000Z',
+    );
+    expect(await getPreviewDate(new Request(changedExpiry), SECRET)).toBeNull();
+  });
+
+  test('Shows scheduled content within its window only', async () => {
+    const startsAt = new Date('2030-12-24T00:00:00.000Z');
+    const endsAt = new Date('2030-12-27T00:00:00.000Z');
+
+    expect(isScheduleLive({startsAt, endsAt}, PREVIEW_AT)).toBe(true);
+    expect(isScheduleLive({startsAt, endsAt}, startsAt)).toBe(true);
+    expect(
+      isScheduleLive({startsAt, endsAt}, endsAt),
+      'should be gone at the end of the window',
+    ).toBe(false);
+    expect(
+      isScheduleLive({startsAt, endsAt}, new Date('2030-12-23T23:59:59Z')),
+    ).toBe(false);
+    expect(isScheduleLive({}, PREVIEW_AT), 'should allow open ends').toBe(true);
+  });
+});
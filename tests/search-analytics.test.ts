@@ -0,0 +1,20 @@
+import {test, expect} from '@playwright/test';
+
+import {toCsvRow} from '../app/lib/search-analytics.server';
+
+test.describe('Search analytics', () => {
+  test('Escapes search terms a spreadsheet would run as formulas', async () => {
+    expect(toCsvRow(['=HYPERLINK("https://example.com")', '2'])).toBe(
+      `"'=HYPERLINK(""https://example.com"")",2`,
+    );
+    expect(toCsvRow(['+1', '-1', '@sum', '\tshoes'])).toBe(
+      `'+1,'-1,'@sum,'\tshoes`,
+    );
+  });
+
+  test('Quotes values with commas, quotes or line breaks', async () => {
+    expect(toCsvRow(['red, white', 'say "hi"', 'two\nlines', 'shoes'])).toBe(
+      `"red, white","say ""hi""","two\nlines",shoes`,
+    );
+  });
+});
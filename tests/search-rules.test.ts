@@ -0,0 +1,61 @@
+import {test, expect} from '@playwright/test';
+
+import type {ProductCardFragment} from 'storefrontapi.generated';
+
+import {
+  applySearchRules,
+  type SearchRule,
+} from '../app/lib/search-rules.server';
+
+function getRule(rule: Partial<SearchRule>): SearchRule {
+  return {
+    id: crypto.randomUUID(),
+    terms: [],
+    synonyms: [],
+    redirect: null,
+    pinnedProducts: [],
+    ...rule,
+  };
+}
+
+const PINNED_PRODUCT = {id: 'gid://shopify/Product/1'} as ProductCardFragment;
+
+const RULES = [
+  getRule({
+    terms: ['trainers'],
+    synonyms: ['sneakers', 'running shoes'],
+    pinnedProducts: [PINNED_PRODUCT],
+  }),
+  getRule({terms: ['gift card'], redirect: '/products/gift-card'}),
+];
+
+test.describe('Search rules', () => {
+  test('Adds the synonyms of a term', async () => {
+    const rules = applySearchRules('  Trainers ', RULES);
+
+    expect(rules.query).toBe('trainers OR sneakers OR (running shoes)');
+    expect(rules.pinnedProducts).toEqual([PINNED_PRODUCT]);
+    expect(rules.redirect).toBeNull();
+  });
+
+  test('Expands each matching word of a longer term', async () => {
+    const rules = applySearchRules('white trainers', RULES);
+
+    expect(rules.query).toBe('white (trainers OR sneakers OR (running shoes))');
+    expect(
+      rules.pinnedProducts,
+      'should only pin products for an exact match',
+    ).toEqual([]);
+  });
+
+  test('Redirects an exact match and keeps other terms as typed', async () => {
+    expect(applySearchRules('Gift  Card', RULES).redirect).toBe(
+      '/products/gift-card',
+    );
+    expect(applySearchRules('Red Socks', RULES)).toEqual({
+      query: 'Red Socks',
+      redirect: null,
+      pinnedProducts: [],
+    });
+  });
+});